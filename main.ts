@@ -2,10 +2,80 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { BrowserWindow, Menu, Tray, app, ipcMain, nativeImage, screen } from 'electron';
+import {
+  BrowserWindow,
+  Menu,
+  type MenuItemConstructorOptions,
+  Notification,
+  Tray,
+  app,
+  clipboard,
+  dialog,
+  type NativeImage,
+  ipcMain,
+  nativeImage,
+  nativeTheme,
+  powerMonitor,
+  screen,
+  shell,
+} from 'electron';
+import { dayBounds, dayKey } from './src/services/calendar.js';
 import { CCUsageService } from './src/services/ccusageService.js';
+import { DeliveryService } from './src/services/deliveryService.js';
+import { DigestScheduler } from './src/services/digestService.js';
+import {
+  EXPORT_EXTENSIONS,
+  buildExport,
+  exportFileName,
+  renderExport,
+} from './src/services/exportService.js';
+import { HistoryService } from './src/services/historyService.js';
+import { LocalApiServer } from './src/services/localApiServer.js';
+import { DEFAULT_MENU_BAR_TEMPLATE, renderTemplate } from './src/services/menuBarTemplate.js';
+import { MetricsExporter } from './src/services/metricsExporter.js';
 import { NotificationService } from './src/services/notificationService.js';
-import { SettingsService } from './src/services/settingsService.js';
+import {
+  type PollOutcome,
+  PollingScheduler,
+  pollOutcomeFromStats,
+} from './src/services/pollingScheduler.js';
+import { ResetNotifier, blockedLimits } from './src/services/resetNotifier.js';
+import { type AppSettings, SettingsService } from './src/services/settingsService.js';
+import {
+  type TrayIconAppearance,
+  gaugeFromMenuBar,
+  prefersTemplate,
+  renderTrayIcon,
+} from './src/services/trayIcon.js';
+import {
+  type TrayMenuAction,
+  type TrayMenuItem,
+  type TrayMenuState,
+  buildTrayMenu,
+  formatStatusText,
+  liveMenuItems,
+} from './src/services/trayMenu.js';
+import { describeUsageError } from './src/services/usageErrors.js';
+import {
+  DASHBOARD_MIN_SIZE,
+  dashboardBounds,
+  displayKey,
+  overlayBounds,
+  popoverBounds,
+} from './src/services/windowBounds.js';
+import type {
+  DeliveryChannel,
+  ExportQuery,
+  ExportResult,
+  HistoryQuery,
+  LocalApiSettings,
+  MenuBarData,
+  NotificationThresholds,
+  OverlaySettings,
+  ProjectUsageQuery,
+  TrayIconSettings,
+  WindowSettings,
+} from './src/types/usage.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,16 +83,39 @@ const __dirname = path.dirname(__filename);
 class ClaudeMeterApp {
   private tray: Tray | null = null;
   private window: BrowserWindow | null = null;
+  private overlayWindow: BrowserWindow | null = null;
   private usageService: CCUsageService;
   private notificationService: NotificationService;
+  private deliveryService: DeliveryService;
   private settingsService: SettingsService;
-  private updateInterval: NodeJS.Timeout | null = null;
-  private menuBarDisplayMode: 'both' | 'percentage' | 'cost' = 'both';
+  private localApiServer: LocalApiServer;
+  private metricsExporter: MetricsExporter;
+  private pollScheduler: PollingScheduler | null = null;
+  private resetNotifier: ResetNotifier | null = null;
+  private digestScheduler: DigestScheduler | null = null;
+  private menuBarTemplate = DEFAULT_MENU_BAR_TEMPLATE;
+  private menuBarCostSource: AppSettings['menuBarCostSource'] = 'today';
+  private thresholds: NotificationThresholds = { warning: 70, critical: 90 };
+  private contextMenu: Menu | null = null; // While open, so polls can update it
+  private trayIconSettings: TrayIconSettings = { enabled: true, showWeekly: false };
+  private windowSettings: WindowSettings = { mode: 'popover', pinned: false, bounds: {} };
+  private boundsTimer: NodeJS.Timeout | null = null;
+  private quitting = false; // The dashboard hides on close unless the app is quitting
+  private overlaySettings: OverlaySettings | null = null;
+  private lastMenuBarData: MenuBarData | null = null;
 
   constructor() {
     this.usageService = CCUsageService.getInstance();
     this.notificationService = NotificationService.getInstance();
+    this.notificationService.setSink({
+      isSupported: () => Notification.isSupported(),
+      show: (title, body) => new Notification({ title, body, silent: false }).show(),
+    });
+    this.deliveryService = DeliveryService.getInstance();
+    this.notificationService.setDelivery(this.deliveryService);
     this.settingsService = SettingsService.getInstance();
+    this.localApiServer = LocalApiServer.getInstance();
+    this.metricsExporter = MetricsExporter.getInstance();
   }
 
   async initialize() {
@@ -30,17 +123,69 @@ class ClaudeMeterApp {
 
     // Load settings on startup
     const settings = await this.settingsService.loadSettings();
-    this.menuBarDisplayMode = settings.menuBarDisplayMode || 'both';
+    this.menuBarTemplate = settings.menuBarTemplate;
+    this.menuBarCostSource = settings.menuBarCostSource;
+    this.thresholds = settings.notificationThresholds;
+    this.trayIconSettings = settings.trayIcon;
+    this.windowSettings = settings.window;
+    this.overlaySettings = settings.overlay;
 
     // Apply settings to usage service
     this.usageService.updateConfiguration({
       menuBarCostSource: settings.menuBarCostSource,
+      notificationThresholds: settings.notificationThresholds,
+      calendar: settings.calendar,
+      accounts: settings.accounts,
+    });
+    this.notificationService.setThresholds(settings.notificationThresholds);
+    this.notificationService.setAlertSettings(settings.alerts);
+    this.notificationService.setCalendar(settings.calendar);
+    this.deliveryService.setSettings(settings.delivery);
+    this.resetNotifier = new ResetNotifier(
+      (title, body) => this.notificationService.notify(title, body),
+      settings.resetNotifications,
+      // Poll right away so the tray stops showing the limit as blocked
+      () => void this.pollScheduler?.pollNow()
+    );
+    this.digestScheduler = new DigestScheduler(settings.digest, settings.calendar, {
+      loadStats: () => this.usageService.getUsageStats(),
+      loadDays: async (from, to) => {
+        const result = await this.usageService.getDailyUsage({ from, to });
+        return result.ok ? result.data : [];
+      },
+      loadSamples: (from, to) => this.activeHistory().getSamples(from, to),
+      notify: (digest) => this.notificationService.sendDailySummary(digest),
     });
+    this.digestScheduler.start();
 
     this.createTray();
     this.createWindow();
+    this.applyOverlaySettings();
     this.setupIPC();
-    this.startUsagePolling();
+    this.startUsagePolling(settings);
+    await this.applyLocalApiSettings(settings.localApi);
+
+    // Don't poll (or back off against a dead network) while the machine sleeps
+    powerMonitor.on('suspend', () => this.pollScheduler?.suspend());
+    // Redraw the gauge for the new menu bar appearance
+    nativeTheme.on('updated', () => this.updateTrayIcon(this.lastMenuBarData));
+    powerMonitor.on('resume', () => {
+      this.pollScheduler?.resume();
+      this.digestScheduler?.resume();
+    });
+
+    app.on('before-quit', () => {
+      this.quitting = true;
+    });
+
+    // Bring the dashboard back on screen when its display goes away
+    screen.on('display-removed', () => {
+      if (this.windowSettings.mode === 'dashboard' && this.window?.isVisible()) {
+        this.placeDashboard();
+      }
+      this.placeOverlay();
+    });
+    screen.on('display-metrics-changed', () => this.placeOverlay());
 
     app.on('window-all-closed', () => {
       // Keep app running in menu bar
@@ -54,8 +199,7 @@ class ClaudeMeterApp {
   }
 
   private createTray() {
-    const emptyIcon = nativeImage.createEmpty();
-    this.tray = new Tray(emptyIcon);
+    this.tray = new Tray(this.renderTrayImage(null));
     this.tray.setToolTip('Claude Meter - Usage Monitor');
 
     // Left click: toggle window
@@ -71,103 +215,375 @@ class ClaudeMeterApp {
     this.updateTrayTitle();
   }
 
-  private showContextMenu() {
-    const menuBarData = this.usageService['cachedStats'];
-    const oauth = menuBarData?.oauthUtilization;
+  private trayMenuState(): TrayMenuState {
+    const accounts = this.usageService.getAccounts();
+    return {
+      stats: this.usageService.getCachedStats(),
+      thresholds: this.thresholds,
+      account: accounts.length > 1 ? this.usageService.getActiveAccount().name : undefined,
+      menuBarTemplate: this.menuBarTemplate,
+      menuBarCostSource: this.menuBarCostSource,
+      pollingPaused: this.pollScheduler?.isPaused() ?? false,
+      dashboard: this.windowSettings.mode === 'dashboard',
+      now: Date.now(),
+    };
+  }
 
-    const contextMenu = Menu.buildFromTemplate([
-      {
-        label: 'Refresh',
-        click: () => this.updateTrayTitle(),
-      },
-      { type: 'separator' },
-      {
-        label: oauth?.isAvailable
-          ? `5-Hour: ${oauth.fiveHour.utilization.toFixed(0)}%`
-          : '5-Hour: --',
-        enabled: false,
-      },
-      {
-        label: oauth?.isAvailable
-          ? `Weekly: ${oauth.sevenDay.utilization.toFixed(0)}%`
-          : 'Weekly: --',
-        enabled: false,
-      },
-      { type: 'separator' },
-      {
-        label: 'Open Claude Meter',
-        click: () => this.showWindow(),
-      },
-      {
-        label: 'Quit',
-        click: () => app.quit(),
-      },
-    ]);
+  private showContextMenu() {
+    const contextMenu = Menu.buildFromTemplate(
+      buildTrayMenu(this.trayMenuState()).map((item) => this.toMenuItem(item))
+    );
+
+    // Countdowns tick while the menu is open; polls refresh it through updateTrayTitle()
+    const timer = setInterval(() => this.refreshContextMenu(), 30 * 1000);
+    contextMenu.once('menu-will-close', () => {
+      clearInterval(timer);
+      this.contextMenu = null;
+    });
+    this.contextMenu = contextMenu;
 
     this.tray?.popUpContextMenu(contextMenu);
   }
 
+  /**
+   * Update the open menu's labels and checkmarks in place. Rows that appeared since it opened
+   * (e.g. a new model) show up the next time it opens.
+   */
+  private refreshContextMenu() {
+    if (!this.contextMenu) return;
+
+    for (const { id, label, checked } of liveMenuItems(buildTrayMenu(this.trayMenuState()))) {
+      const menuItem = this.contextMenu.getMenuItemById(id);
+      if (!menuItem) continue;
+      menuItem.label = label;
+      if (checked !== undefined) menuItem.checked = checked;
+    }
+  }
+
+  private toMenuItem(item: TrayMenuItem): MenuItemConstructorOptions {
+    switch (item.type) {
+      case 'separator':
+        return { type: 'separator' };
+      case 'info':
+        return { id: item.id, label: item.label, enabled: false };
+      case 'action':
+        return { label: item.label, click: () => this.runTrayAction(item.action) };
+      case 'checkbox':
+        return {
+          id: item.id,
+          type: 'checkbox',
+          label: item.label,
+          checked: item.checked,
+          click: () => this.runTrayAction(item.action),
+        };
+      case 'radio': {
+        const { settings } = item;
+        return {
+          id: item.id,
+          type: 'radio',
+          label: item.label,
+          checked: item.checked,
+          enabled: settings !== null,
+          click: () => {
+            if (settings) void this.saveSettingsFromTray(settings);
+          },
+        };
+      }
+      case 'submenu':
+        return { label: item.label, submenu: item.items.map((sub) => this.toMenuItem(sub)) };
+    }
+  }
+
+  private runTrayAction(action: TrayMenuAction) {
+    switch (action) {
+      case 'refresh':
+        void this.pollScheduler?.pollNow();
+        break;
+      case 'copyStatus':
+        clipboard.writeText(formatStatusText(this.trayMenuState()));
+        break;
+      case 'exportToday':
+        void this.exportToday();
+        break;
+      case 'openDataFolder':
+        void shell.openPath(path.dirname(this.settingsService.getSettingsPath()));
+        break;
+      case 'togglePolling':
+        this.pollScheduler?.setPaused(!this.pollScheduler.isPaused());
+        break;
+      case 'toggleDashboard':
+        void this.saveSettingsFromTray({
+          window: {
+            ...this.windowSettings,
+            mode: this.windowSettings.mode === 'dashboard' ? 'popover' : 'dashboard',
+          },
+        });
+        break;
+      case 'openWindow':
+        this.showWindow();
+        break;
+      case 'quit':
+        app.quit();
+        break;
+    }
+  }
+
+  /**
+   * Apply a quick toggle from the tray menu and tell an open Settings view about it
+   */
+  private async saveSettingsFromTray(settings: Partial<AppSettings>) {
+    try {
+      await this.saveSettings(settings);
+      this.broadcastToRenderers('settings-changed');
+    } catch (error) {
+      console.error('Error saving settings from the tray menu:', error);
+    }
+  }
+
+  private async exportToday() {
+    const today = dayKey(Date.now(), this.usageService.getTimeZone());
+    const result = await this.exportUsage({ from: today, to: today, format: 'csv' });
+    if (result.success && result.filepath) {
+      shell.showItemInFolder(result.filepath);
+    } else if (result.error) {
+      dialog.showErrorBox('Export failed', result.error);
+    }
+  }
+
   private async updateTrayTitle() {
     try {
       const menuBarData = await this.usageService.getMenuBarData();
 
-      // Format menu bar display
-      const percentage = Math.round(menuBarData.percentageUsed);
-      const cost = menuBarData.cost.toFixed(2);
-
-      let title: string;
-      switch (this.menuBarDisplayMode) {
-        case 'percentage':
-          title = `${percentage}%`;
-          break;
-        case 'cost':
-          title = `$${cost}`;
-          break;
-        case 'both':
-        default:
-          title = `${percentage}% · $${cost}`;
-          break;
+      // Values that could not be fetched render as "--"
+      let title = renderTemplate(this.menuBarTemplate, menuBarData);
+
+      // Claude Code is blocked until the last exhausted limit resets
+      const [blocked] = blockedLimits(menuBarData.oauthUtilization);
+      if (blocked) {
+        title = `⛔ ${title}`;
       }
 
       this.tray?.setTitle(title);
-
-      // Check for notifications
-      this.notificationService.checkAndNotify(menuBarData, 'auto');
+      this.updateTrayIcon(menuBarData);
+
+      const errors = menuBarData.errors ?? [];
+      // Name the account once there is more than one to tell apart
+      let tooltip =
+        this.usageService.getAccounts().length > 1
+          ? `Claude Meter - ${menuBarData.account}`
+          : 'Claude Meter - Usage Monitor';
+      if (errors.length > 0) {
+        tooltip = `Claude Meter - ${errors.map(describeUsageError).join('; ')}`;
+      } else if (blocked) {
+        tooltip = `Claude Meter - ${blocked.label} limit reached, resets in ${blocked.formattedTimeRemaining}`;
+      }
+      this.tray?.setToolTip(tooltip);
+      this.refreshContextMenu();
     } catch (error) {
       console.error('Error updating tray title:', error);
       this.tray?.setTitle('--');
+      this.updateTrayIcon(null);
     }
   }
 
+  private updateTrayIcon(menuBarData: MenuBarData | null) {
+    this.lastMenuBarData = menuBarData;
+    this.tray?.setImage(this.renderTrayImage(menuBarData));
+  }
+
+  /**
+   * Utilization gauge at 1x and 2x. macOS gets a template image, which follows the menu bar's
+   * appearance, while every limit is safe and a colored one once a limit needs attention
+   */
+  private renderTrayImage(menuBarData: MenuBarData | null): NativeImage {
+    const image = nativeImage.createEmpty();
+    if (!this.trayIconSettings.enabled) return image;
+
+    const gauge = menuBarData
+      ? gaugeFromMenuBar(menuBarData, this.trayIconSettings.showWeekly)
+      : { fiveHour: null };
+    let appearance: TrayIconAppearance = nativeTheme.shouldUseDarkColors ? 'dark' : 'light';
+    if (process.platform === 'darwin' && prefersTemplate(gauge)) {
+      appearance = 'template';
+    }
+
+    for (const { scaleFactor, png } of renderTrayIcon(gauge, appearance)) {
+      image.addRepresentation({ scaleFactor, buffer: png });
+    }
+    image.setTemplateImage(appearance === 'template');
+    return image;
+  }
+
+  private rendererPreferences() {
+    return {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    };
+  }
+
   private createWindow() {
-    const { width } = screen.getPrimaryDisplay().workAreaSize;
+    const webPreferences = this.rendererPreferences();
+
+    if (this.windowSettings.mode === 'dashboard') {
+      // A normal window that stays open, e.g. on a side monitor while pairing
+      this.window = new BrowserWindow({
+        title: 'Claude Meter',
+        show: false,
+        minWidth: DASHBOARD_MIN_SIZE.width,
+        minHeight: DASHBOARD_MIN_SIZE.height,
+        alwaysOnTop: this.windowSettings.pinned,
+        webPreferences,
+      });
+      this.placeDashboard();
+
+      this.window.on('close', (event) => {
+        if (this.quitting) return;
+        event.preventDefault();
+        this.hideWindow();
+      });
+      this.window.on('move', () => this.scheduleBoundsSave());
+      this.window.on('resize', () => this.scheduleBoundsSave());
+    } else {
+      this.window = new BrowserWindow({
+        ...popoverBounds(screen.getPrimaryDisplay().workArea),
+        show: false,
+        frame: false,
+        resizable: true,
+        skipTaskbar: true,
+        alwaysOnTop: true,
+        webPreferences,
+      });
+
+      this.window.on('blur', () => {
+        this.hideWindow();
+      });
+    }
+
+    const window = this.window;
+    window.loadFile(path.join(__dirname, 'index.html'));
+
+    // A replaced window may report closing after its successor exists
+    window.on('closed', () => {
+      if (this.window === window) this.window = null;
+    });
+  }
+
+  /**
+   * Open, move or close the floating overlay to match its settings
+   */
+  private applyOverlaySettings() {
+    if (!this.overlaySettings?.enabled) {
+      this.overlayWindow?.destroy();
+      this.overlayWindow = null;
+      return;
+    }
+
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.placeOverlay();
+    } else {
+      this.createOverlayWindow(this.overlaySettings);
+    }
+  }
 
-    this.window = new BrowserWindow({
-      width: 480,
-      height: 600,
-      x: width - 500,
-      y: 10,
+  private createOverlayWindow(settings: OverlaySettings) {
+    const overlay = new BrowserWindow({
+      ...overlayBounds(screen.getPrimaryDisplay().workArea, settings),
       show: false,
       frame: false,
-      resizable: true,
+      transparent: true,
+      resizable: false,
+      movable: false,
+      focusable: false,
       skipTaskbar: true,
+      hasShadow: false,
       alwaysOnTop: true,
-      webPreferences: {
-        nodeIntegration: false,
-        contextIsolation: true,
-        preload: path.join(__dirname, 'preload.js'),
-      },
+      webPreferences: this.rendererPreferences(),
     });
 
-    this.window.loadFile(path.join(__dirname, 'index.html'));
+    // Click-through, and above full-screen windows such as a terminal
+    overlay.setIgnoreMouseEvents(true);
+    overlay.setAlwaysOnTop(true, 'screen-saver');
+    overlay.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
 
-    this.window.on('blur', () => {
-      this.hideWindow();
+    // Same bundle as the main window; the hash makes index.tsx render the overlay
+    overlay.loadFile(path.join(__dirname, 'index.html'), { hash: 'overlay' });
+    overlay.once('ready-to-show', () => overlay.showInactive());
+    overlay.on('closed', () => {
+      if (this.overlayWindow === overlay) this.overlayWindow = null;
     });
+    this.overlayWindow = overlay;
+  }
 
-    this.window.on('closed', () => {
-      this.window = null;
-    });
+  /**
+   * Keep the overlay in its corner when the primary display's work area changes
+   */
+  private placeOverlay() {
+    if (!this.overlaySettings || !this.overlayWindow || this.overlayWindow.isDestroyed()) return;
+    this.overlayWindow.setBounds(
+      overlayBounds(screen.getPrimaryDisplay().workArea, this.overlaySettings)
+    );
+  }
+
+  /**
+   * Send an event to every open renderer (the main window and the overlay)
+   */
+  private broadcastToRenderers(channel: 'usage-updated' | 'settings-changed') {
+    for (const window of [this.window, this.overlayWindow]) {
+      if (window && !window.isDestroyed()) window.webContents.send(channel);
+    }
+  }
+
+  /**
+   * Move the dashboard to where it last was on the display under the cursor (or another one it
+   * has been on)
+   */
+  private placeDashboard() {
+    const preferred = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    this.window?.setBounds(
+      dashboardBounds(this.windowSettings.bounds, screen.getAllDisplays(), preferred)
+    );
+  }
+
+  /**
+   * Remember the dashboard's bounds for its display once it stops moving
+   */
+  private scheduleBoundsSave() {
+    if (this.boundsTimer) clearTimeout(this.boundsTimer);
+    this.boundsTimer = setTimeout(() => {
+      this.boundsTimer = null;
+      if (!this.window || this.window.isDestroyed() || !this.window.isVisible()) return;
+
+      const bounds = this.window.getBounds();
+      const display = displayKey(screen.getDisplayMatching(bounds));
+      this.windowSettings = {
+        ...this.windowSettings,
+        bounds: { ...this.windowSettings.bounds, [display]: bounds },
+      };
+      this.settingsService
+        .saveSettings({ window: this.windowSettings })
+        .catch((error) => console.error('Error saving window bounds:', error));
+    }, 500);
+  }
+
+  /**
+   * Switch between popover and dashboard (frame and taskbar presence need a new window) or apply
+   * the pin. Bounds are tracked here; the renderer's copy may be stale.
+   */
+  private applyWindowSettings(settings: WindowSettings) {
+    const modeChanged = settings.mode !== this.windowSettings.mode;
+    this.windowSettings = { ...settings, bounds: this.windowSettings.bounds };
+
+    if (modeChanged) {
+      // Let the renderer that asked for the switch get its reply first
+      setImmediate(() => {
+        this.window?.destroy();
+        this.createWindow();
+        this.window?.once('ready-to-show', () => this.showWindow());
+      });
+    } else if (settings.mode === 'dashboard') {
+      this.window?.setAlwaysOnTop(settings.pinned);
+    }
   }
 
   private setupIPC() {
@@ -175,16 +591,20 @@ class ClaudeMeterApp {
       return await this.usageService.getUsageStats();
     });
 
+    ipcMain.handle('get-menu-bar-data', async () => {
+      return await this.usageService.getMenuBarData();
+    });
+
     ipcMain.handle('refresh-data', async () => {
-      const stats = await this.usageService.getUsageStats();
-      await this.updateTrayTitle();
-      return stats;
+      await this.pollScheduler?.pollNow();
+      return await this.usageService.getUsageStats();
     });
 
-    ipcMain.handle('quit-app', () => {
-      if (this.updateInterval) {
-        clearInterval(this.updateInterval);
-      }
+    ipcMain.handle('quit-app', async () => {
+      this.pollScheduler?.stop();
+      this.resetNotifier?.stop();
+      this.digestScheduler?.stop();
+      await this.localApiServer.stop();
       app.quit();
     });
 
@@ -193,51 +613,220 @@ class ClaudeMeterApp {
     });
 
     ipcMain.handle('save-settings', async (_, settings) => {
-      await this.settingsService.saveSettings(settings);
+      await this.saveSettings(settings);
+      return { success: true };
+    });
 
-      // Update services with new settings
-      this.usageService.updateConfiguration({
-        menuBarCostSource: settings.menuBarCostSource,
+    ipcMain.handle('get-utilization-history', async (_, query?: HistoryQuery) => {
+      // Default to the last 24 hours
+      const to = query?.to ? new Date(query.to) : new Date();
+      const from = query?.from ? new Date(query.from) : new Date(to.getTime() - 86400000);
+      return this.activeHistory().getSamples(from, to);
+    });
+
+    ipcMain.handle('get-delivery-log', async (_, limit?: number) => {
+      return this.deliveryService.getLog(limit);
+    });
+
+    ipcMain.handle('test-delivery-channel', async (_, channel: DeliveryChannel) => {
+      return this.deliveryService.deliverTo(channel, {
+        title: 'Claude Meter: Test',
+        body: 'This delivery channel works.',
+        severity: 'info',
+        timestamp: new Date().toISOString(),
       });
+    });
 
-      if (settings.menuBarDisplayMode) {
-        this.menuBarDisplayMode = settings.menuBarDisplayMode;
-        await this.updateTrayTitle();
-      }
+    ipcMain.handle('get-project-usage', async (_, query: ProjectUsageQuery) => {
+      return this.usageService.getProjectUsage(query);
+    });
 
-      return { success: true };
+    ipcMain.handle('get-usage-range', async (_, query: ProjectUsageQuery) => {
+      return this.usageService.getUsageRange(query);
     });
 
     ipcMain.handle('take-screenshot', async () => {
       return this.takeScreenshot();
     });
+
+    ipcMain.handle('export-usage', async (_, query: ExportQuery) => {
+      return this.exportUsage(query);
+    });
   }
 
-  private startUsagePolling() {
-    // Update every 30 seconds
-    this.updateInterval = setInterval(async () => {
+  /**
+   * Persist changed settings (from the Settings view or the tray menu) and apply them
+   */
+  private async saveSettings(settings: Partial<AppSettings>) {
+    await this.settingsService.saveSettings(
+      settings.window
+        ? { ...settings, window: { ...settings.window, bounds: this.windowSettings.bounds } }
+        : settings
+    );
+
+    // Update services with new settings
+    this.usageService.updateConfiguration({
+      menuBarCostSource: settings.menuBarCostSource,
+      notificationThresholds: settings.notificationThresholds,
+      calendar: settings.calendar,
+      accounts: settings.accounts,
+    });
+
+    if (settings.menuBarTemplate !== undefined) {
+      this.menuBarTemplate = settings.menuBarTemplate;
+    }
+    if (settings.menuBarCostSource) {
+      this.menuBarCostSource = settings.menuBarCostSource;
+    }
+    if (settings.notificationThresholds) {
+      this.thresholds = settings.notificationThresholds;
+    }
+    if (settings.trayIcon) {
+      this.trayIconSettings = settings.trayIcon;
+    }
+    if (settings.window) {
+      this.applyWindowSettings(settings.window);
+    }
+    if (settings.overlay) {
+      this.overlaySettings = settings.overlay;
+      this.applyOverlaySettings();
+    }
+    if (this.overlayWindow && (settings.overlay || settings.notificationThresholds)) {
+      // Opacity, rows and threshold colors are read by the overlay itself
+      this.overlayWindow.webContents.send('settings-changed');
+    }
+    if (
+      settings.menuBarTemplate !== undefined ||
+      settings.menuBarCostSource ||
+      settings.accounts ||
+      settings.trayIcon
+    ) {
       await this.updateTrayTitle();
+    }
+
+    if (settings.localApi) {
+      await this.applyLocalApiSettings(settings.localApi);
+    }
+
+    if (settings.polling) {
+      this.pollScheduler?.updateSettings(settings.polling);
+    }
+
+    this.applyNotificationSettings(settings);
+  }
+
+  /**
+   * Hand changed alert, delivery, reset and digest settings to their services
+   */
+  private applyNotificationSettings(settings: Partial<AppSettings>) {
+    if (settings.alerts) {
+      this.notificationService.setAlertSettings(settings.alerts);
+    }
+
+    if (settings.delivery) {
+      this.deliveryService.setSettings(settings.delivery);
+    }
+
+    if (settings.resetNotifications) {
+      // Re-armed with the new settings on the next poll
+      this.resetNotifier?.updateSettings(settings.resetNotifications);
+    }
+
+    if (settings.digest) {
+      this.digestScheduler?.updateSettings(settings.digest);
+    }
 
-      if (this.window && !this.window.isDestroyed()) {
-        this.window.webContents.send('usage-updated');
+    if (settings.calendar) {
+      this.digestScheduler?.updateCalendar(settings.calendar);
+      this.notificationService.setCalendar(settings.calendar);
+    }
+
+    if (settings.notificationThresholds) {
+      this.notificationService.setThresholds(settings.notificationThresholds);
+      this.pollScheduler?.setWarningThreshold(settings.notificationThresholds.warning);
+    }
+  }
+
+  private startUsagePolling(settings: AppSettings) {
+    // First poll after 1 second, then on the scheduler's adaptive cadence
+    this.pollScheduler = new PollingScheduler(() => this.pollUsage(), {
+      settings: settings.polling,
+      warningThreshold: settings.notificationThresholds.warning,
+    });
+    this.pollScheduler.start();
+  }
+
+  private async pollUsage(): Promise<PollOutcome> {
+    const stats = await this.usageService.refresh();
+    await this.updateTrayTitle();
+    this.notificationService.checkAndNotify(stats);
+    this.resetNotifier?.update(stats.oauthUtilization);
+
+    this.broadcastToRenderers('usage-updated');
+
+    await this.publishUsage();
+    return pollOutcomeFromStats(stats);
+  }
+
+  /**
+   * Push the data this tick already fetched to local API clients and the metrics snapshot
+   */
+  private async publishUsage() {
+    if (!this.localApiServer.isRunning()) return;
+
+    try {
+      // Served from the services' caches, so this makes no extra API calls
+      const stats = await this.usageService.getUsageStats();
+      this.metricsExporter.update(stats, this.usageService.getOAuthErrorCounts());
+      this.localApiServer.broadcast('usage', await this.usageService.getMenuBarData());
+    } catch (error) {
+      console.error('Error publishing usage:', error);
+    }
+  }
+
+  private async applyLocalApiSettings(localApi: LocalApiSettings) {
+    this.localApiServer.setMetricsExporter(localApi.metrics ? this.metricsExporter : null);
+
+    try {
+      if (!localApi.enabled) {
+        await this.localApiServer.stop();
+        return;
       }
-    }, 30000);
 
-    // Initial update after 1 second
-    setTimeout(() => this.updateTrayTitle(), 1000);
+      if (this.localApiServer.getPort() !== localApi.port) {
+        await this.localApiServer.start(localApi.port);
+        await this.publishUsage();
+      }
+    } catch (error) {
+      console.error('Error starting local API server:', error);
+    }
+  }
+
+  /**
+   * Utilization history of the account the popover shows
+   */
+  private activeHistory(): HistoryService {
+    return HistoryService.forAccount(this.usageService.getActiveAccount().id);
   }
 
   private showWindow() {
-    if (this.window) {
-      const cursorPoint = screen.getCursorScreenPoint();
-      const activeDisplay = screen.getDisplayNearestPoint(cursorPoint);
+    if (!this.window) {
+      this.createWindow();
+    }
+    if (!this.window) return;
 
-      const { x, y, width } = activeDisplay.workArea;
-      this.window.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
-      this.window.setBounds({ x: x + width - 500, y: y + 10, width: 480, height: 600 });
+    if (this.windowSettings.mode === 'dashboard') {
+      // Placed when created; after that it stays wherever the user moves it
       this.window.show();
       this.window.focus();
+      return;
     }
+
+    const activeDisplay = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    this.window.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+    this.window.setBounds(popoverBounds(activeDisplay.workArea));
+    this.window.show();
+    this.window.focus();
   }
 
   private hideWindow() {
@@ -245,7 +834,12 @@ class ClaudeMeterApp {
   }
 
   private toggleWindow() {
-    if (this.window?.isVisible()) {
+    // A dashboard behind other windows comes to the front rather than hiding
+    const visible =
+      this.windowSettings.mode === 'dashboard'
+        ? this.window?.isVisible() && this.window.isFocused()
+        : this.window?.isVisible();
+    if (visible) {
       this.hideWindow();
     } else {
       this.showWindow();
@@ -283,6 +877,48 @@ class ClaudeMeterApp {
       };
     }
   }
+
+  /**
+   * Ask where to save, then write daily usage, per-model rows and utilization history
+   */
+  private async exportUsage(query: ExportQuery): Promise<ExportResult> {
+    try {
+      const options = {
+        defaultPath: path.join(app.getPath('downloads'), exportFileName(query)),
+        filters: [
+          { name: query.format.toUpperCase(), extensions: [EXPORT_EXTENSIONS[query.format]] },
+        ],
+      };
+      const { canceled, filePath } = this.window
+        ? await dialog.showSaveDialog(this.window, options)
+        : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: false, canceled: true };
+      }
+
+      const daily = await this.usageService.getDailyUsage(query);
+      if (!daily.ok) {
+        return { success: false, error: describeUsageError(daily.error) };
+      }
+      const timeZone = this.usageService.getTimeZone();
+      const { start, end } = dayBounds(query.from, query.to, timeZone);
+      const samples = this.activeHistory().getSamples(start, end);
+
+      fs.writeFileSync(
+        filePath,
+        renderExport(buildExport(query, daily.data, samples, timeZone), query.format),
+        'utf8'
+      );
+
+      return { success: true, filepath: filePath, message: `Exported to ${filePath}` };
+    } catch (error) {
+      console.error('Export error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Export failed',
+      };
+    }
+  }
 }
 
 const claudeMeterApp = new ClaudeMeterApp();
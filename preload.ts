@@ -2,15 +2,31 @@ const { contextBridge, ipcRenderer } = require('electron');
 
 const electronAPI = {
   getUsageStats: () => ipcRenderer.invoke('get-usage-stats'),
+  getMenuBarData: () => ipcRenderer.invoke('get-menu-bar-data'),
   refreshData: () => ipcRenderer.invoke('refresh-data'),
   quitApp: () => ipcRenderer.invoke('quit-app'),
   takeScreenshot: () => ipcRenderer.invoke('take-screenshot'),
+  exportUsage: (query: { from: string; to: string; format: string }) =>
+    ipcRenderer.invoke('export-usage', query),
+  getUtilizationHistory: (query?: { from: string; to: string }) =>
+    ipcRenderer.invoke('get-utilization-history', query),
+  getProjectUsage: (query: { from: string; to: string }) =>
+    ipcRenderer.invoke('get-project-usage', query),
+  getUsageRange: (query: { from: string; to: string }) =>
+    ipcRenderer.invoke('get-usage-range', query),
+  getDeliveryLog: (limit?: number) => ipcRenderer.invoke('get-delivery-log', limit),
+  testDeliveryChannel: (channel: Record<string, unknown>) =>
+    ipcRenderer.invoke('test-delivery-channel', channel),
   onUsageUpdated: (callback: () => void) => ipcRenderer.on('usage-updated', callback),
   removeUsageUpdatedListener: (callback: () => void) =>
     ipcRenderer.removeListener('usage-updated', callback),
   // Settings methods
   loadSettings: () => ipcRenderer.invoke('load-settings'),
-  saveSettings: (settings: Record<string, unknown>) => ipcRenderer.invoke('save-settings', settings),
+  saveSettings: (settings: Record<string, unknown>) =>
+    ipcRenderer.invoke('save-settings', settings),
+  onSettingsChanged: (callback: () => void) => ipcRenderer.on('settings-changed', callback),
+  removeSettingsChangedListener: (callback: () => void) =>
+    ipcRenderer.removeListener('settings-changed', callback),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
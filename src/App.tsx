@@ -1,12 +1,19 @@
 import type React from 'react';
 import { useCallback, useEffect, useState } from 'react';
+import { AccountSwitcher } from './components/AccountSwitcher';
+import { DashboardView } from './components/DashboardView';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { HistoryView } from './components/HistoryView';
 import { LoadingScreen } from './components/LoadingScreen';
 import { NavigationTabs, type ViewType } from './components/NavigationTabs';
+import { ProjectsView } from './components/ProjectsView';
 import { SettingsPanel } from './components/SettingsPanel';
 import { StatusView } from './components/StatusView';
+import { WindowControls } from './components/WindowControls';
 import { Button } from './components/ui/button';
 import { Toaster } from './components/ui/sonner';
+import { DEFAULT_SETTINGS } from './services/defaultSettings';
+import { DEFAULT_MENU_BAR_TEMPLATE } from './services/menuBarTemplate';
 import type { UsageStats, UserConfiguration } from './types/usage';
 
 interface AppState {
@@ -18,12 +25,8 @@ interface AppState {
 }
 
 const defaultPreferences: UserConfiguration = {
-  menuBarCostSource: 'today',
-  menuBarDisplayMode: 'both',
-  notificationThresholds: {
-    warning: 70,
-    critical: 90,
-  },
+  menuBarTemplate: DEFAULT_MENU_BAR_TEMPLATE,
+  ...DEFAULT_SETTINGS,
 };
 
 const App: React.FC = () => {
@@ -108,6 +111,17 @@ const App: React.FC = () => {
     [saveSettings]
   );
 
+  // Switch the account the popover shows, then load its stats
+  const switchAccount = useCallback(
+    async (accountId: string) => {
+      const accounts = { ...state.preferences.accounts, activeAccountId: accountId };
+      setState((prev) => ({ ...prev, preferences: { ...prev.preferences, accounts } }));
+      await saveSettings({ accounts });
+      await loadUsageStats();
+    },
+    [state.preferences.accounts, saveSettings, loadUsageStats]
+  );
+
   // Navigate
   const navigateTo = useCallback((view: ViewType) => {
     setState((prev) => ({ ...prev, currentView: view }));
@@ -128,10 +142,12 @@ const App: React.FC = () => {
 
     if (window.electronAPI) {
       window.electronAPI.onUsageUpdated(handleUsageUpdate);
+      window.electronAPI.onSettingsChanged?.(loadSettings);
     }
 
     return () => {
       window.electronAPI?.removeUsageUpdatedListener(handleUsageUpdate);
+      window.electronAPI?.removeSettingsChangedListener?.(loadSettings);
     };
   }, [loadSettings, loadUsageStats]);
 
@@ -157,6 +173,14 @@ const App: React.FC = () => {
             event.preventDefault();
             navigateTo('settings');
             break;
+          case '3':
+            event.preventDefault();
+            navigateTo('history');
+            break;
+          case '4':
+            event.preventDefault();
+            navigateTo('projects');
+            break;
         }
       }
     };
@@ -254,6 +278,11 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  <AccountSwitcher accounts={state.preferences.accounts} onSwitch={switchAccount} />
+                  <WindowControls
+                    windowSettings={state.preferences.window}
+                    onChange={(windowSettings) => updatePreferences({ window: windowSettings })}
+                  />
                   <Button
                     onClick={refreshData}
                     variant="ghost"
@@ -299,7 +328,33 @@ const App: React.FC = () => {
 
             {/* Content */}
             <div className="pb-3">
-              {state.currentView === 'status' && <StatusView stats={state.stats} />}
+              {state.currentView === 'status' &&
+                (state.preferences.window.mode === 'dashboard' ? (
+                  <DashboardView
+                    stats={state.stats}
+                    thresholds={state.preferences.notificationThresholds}
+                    weekStart={state.preferences.calendar.weekStart}
+                  />
+                ) : (
+                  <StatusView
+                    stats={state.stats}
+                    thresholds={state.preferences.notificationThresholds}
+                    timeZone={state.preferences.calendar.timezone}
+                  />
+                ))}
+
+              {/* Keyed by account so date-range queries reload after a switch */}
+              {state.currentView === 'projects' && (
+                <ProjectsView key={state.stats.accountId} stats={state.stats} />
+              )}
+
+              {state.currentView === 'history' && (
+                <HistoryView
+                  key={state.stats.accountId}
+                  stats={state.stats}
+                  weekStart={state.preferences.calendar.weekStart}
+                />
+              )}
 
               {state.currentView === 'settings' && (
                 <SettingsPanel
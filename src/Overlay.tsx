@@ -0,0 +1,64 @@
+import type React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { OverlayWidget } from './components/OverlayWidget';
+import type { UsageStats, UserConfiguration } from './types/usage';
+
+const COUNTDOWN_TICK_MS = 30 * 1000;
+
+/**
+ * Root of the floating overlay window (`index.html#overlay`); follows polls and settings changes
+ * pushed from the main process
+ */
+const Overlay: React.FC = () => {
+  const [stats, setStats] = useState<UsageStats | null>(null);
+  const [settings, setSettings] = useState<UserConfiguration | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadSettings = useCallback(() => {
+    window.electronAPI
+      ?.loadSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Error loading overlay settings:', error));
+  }, []);
+
+  const loadStats = useCallback(() => {
+    window.electronAPI
+      ?.getUsageStats()
+      .then((data) => {
+        setStats(data);
+        setNow(Date.now());
+      })
+      .catch((error) => console.error('Error loading overlay stats:', error));
+  }, []);
+
+  useEffect(() => {
+    // The window is transparent; only the widget's rounded card should show
+    document.documentElement.style.background = 'transparent';
+    document.body.style.background = 'transparent';
+
+    loadSettings();
+    loadStats();
+    window.electronAPI?.onUsageUpdated(loadStats);
+    window.electronAPI?.onSettingsChanged?.(loadSettings);
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      window.electronAPI?.removeUsageUpdatedListener(loadStats);
+      window.electronAPI?.removeSettingsChangedListener?.(loadSettings);
+    };
+  }, [loadSettings, loadStats]);
+
+  if (!settings) return null;
+
+  return (
+    <OverlayWidget
+      stats={stats}
+      thresholds={settings.notificationThresholds}
+      overlay={settings.overlay}
+      now={now}
+    />
+  );
+};
+
+export default Overlay;
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type CliDependencies,
+  EXIT_CRITICAL,
+  EXIT_ERROR,
+  EXIT_OK,
+  EXIT_WARNING,
+  parseArgs,
+  runCli,
+} from '../../cli/commands';
+import type { AppSettings } from '../../services/settingsService';
+import type { UsageStats } from '../../types/usage';
+
+const settings: AppSettings = {
+  menuBarTemplate: '{percent}% · ${cost}',
+  menuBarCostSource: 'today',
+  notificationThresholds: { warning: 70, critical: 90 },
+  localApi: { enabled: false, port: 7391, metrics: false },
+  polling: { intervalSeconds: 30, idleIntervalSeconds: 300, adaptive: true },
+  alerts: { thresholdAlerts: true, rules: [] },
+  resetNotifications: { enabled: true, minutesBefore: 0, onlyWhenBlocked: true },
+  delivery: { channels: [], maxAttempts: 3 },
+  digest: { enabled: false, frequency: 'daily', time: '09:00', weekday: 1, writeReport: true },
+  calendar: { timezone: '', weekStart: 1 },
+  accounts: { accounts: [], activeAccountId: 'default', menuBar: 'active' },
+  trayIcon: { enabled: true, showWeekly: false },
+  window: { mode: 'popover', pinned: false, bounds: {} },
+  overlay: {
+    enabled: false,
+    corner: 'topRight',
+    opacity: 0.85,
+    showFiveHour: true,
+    showWeekly: true,
+    showCountdown: true,
+  },
+};
+
+const statsWith = (fiveHour: number, sevenDay = 10): UsageStats => ({
+  today: {
+    date: '2026-01-18',
+    totalTokens: 1500,
+    totalCost: 2.35,
+    models: {
+      'claude-sonnet-4': { tokens: 1000, cost: 1.2 },
+      'claude-opus-4': { tokens: 500, cost: 1.15 },
+    },
+  },
+  thisWeek: [
+    { date: '2026-01-17', totalTokens: 800, totalCost: 1, models: {} },
+    { date: '2026-01-18', totalTokens: 1500, totalCost: 2.35, models: {} },
+  ],
+  oauthUtilization: {
+    fiveHour: { utilization: fiveHour, resetsAt: '', formattedTimeRemaining: '2h 10m' },
+    sevenDay: { utilization: sevenDay, resetsAt: '', formattedTimeRemaining: '3d 4h' },
+    isAvailable: true,
+  },
+  errors: [],
+});
+
+describe('CLI commands', () => {
+  let stats: UsageStats;
+  let stdout: string[];
+  let stderr: string[];
+  let deps: CliDependencies;
+
+  beforeEach(() => {
+    stats = statsWith(45);
+    stdout = [];
+    stderr = [];
+    deps = {
+      usage: {
+        getUsageStats: async () => stats,
+        getMenuBarData: async () => ({ percentageUsed: 45, cost: 2.35, status: 'safe' }),
+        updateConfiguration: vi.fn(),
+      },
+      settings: { loadSettings: async () => settings },
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+    };
+  });
+
+  describe('parseArgs', () => {
+    it('defaults to the status command', () => {
+      expect(parseArgs([])).toEqual({ command: 'status', json: false });
+    });
+
+    it('accepts a command and --json in any order', () => {
+      expect(parseArgs(['--json', 'today'])).toEqual({ command: 'today', json: true });
+    });
+
+    it('rejects unknown commands and options', () => {
+      expect(() => parseArgs(['month'])).toThrow('Unknown command: month');
+      expect(() => parseArgs(['--csv'])).toThrow('Unknown option: --csv');
+    });
+  });
+
+  it('prints a status table', async () => {
+    const code = await runCli(['status'], deps);
+
+    expect(code).toBe(EXIT_OK);
+    expect(stdout[0]).toContain('5-hour');
+    expect(stdout[0]).toContain('45%');
+    expect(stdout[0]).toContain('Today: $2.35 · 1,500 tokens');
+  });
+
+  it('prints today as JSON', async () => {
+    await runCli(['today', '--json'], deps);
+
+    expect(JSON.parse(stdout[0])).toEqual(stats.today);
+  });
+
+  it('totals the week table', async () => {
+    await runCli(['week'], deps);
+
+    expect(stdout[0]).toMatch(/Total\s+2,300\s+\$3\.35/);
+  });
+
+  it('exits with the warning code at the warning threshold', async () => {
+    stats = statsWith(72);
+    expect(await runCli(['status'], deps)).toBe(EXIT_WARNING);
+  });
+
+  it('exits with the critical code when any limit is critical', async () => {
+    stats = statsWith(20, 95);
+    expect(await runCli(['week', '--json'], deps)).toBe(EXIT_CRITICAL);
+  });
+
+  it('uses per-limit thresholds for the exit code', async () => {
+    const perLimit = { fiveHour: { warning: 40, critical: 60 } };
+    deps.settings = {
+      loadSettings: async () => ({
+        ...settings,
+        notificationThresholds: { warning: 70, critical: 90, perLimit },
+      }),
+    };
+    expect(await runCli(['status'], deps)).toBe(EXIT_WARNING);
+  });
+
+  it('reports usage errors on stderr', async () => {
+    expect(await runCli(['yesterday'], deps)).toBe(EXIT_ERROR);
+    expect(stderr[0]).toContain('Unknown command: yesterday');
+  });
+
+  it('warns about data that could not be loaded', async () => {
+    stats = {
+      ...statsWith(10),
+      errors: [
+        {
+          kind: 'parse_error',
+          source: 'ccusage',
+          message: 'boom',
+          timestamp: '2026-01-18T10:00:00Z',
+        },
+      ],
+    };
+
+    await runCli(['today'], deps);
+
+    expect(stderr[0]).toBe('warning: Could not read local Claude Code usage files');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { changeRuleMetric } from '../../components/AlertRulesEditor';
+import type { AlertRule } from '../../types/usage';
+
+describe('changeRuleMetric', () => {
+  const rule: AlertRule = {
+    id: 'extra',
+    name: 'Extra usage above 50%',
+    enabled: true,
+    metric: 'utilization',
+    limit: 'extraUsage',
+    threshold: 50,
+    severity: 'warning',
+    cooldownMinutes: 60,
+    hysteresis: 5,
+  };
+
+  it('moves to a limit with a reset time when switching to resetsIn', () => {
+    expect(changeRuleMetric(rule, 'resetsIn')).toMatchObject({
+      metric: 'resetsIn',
+      limit: 'fiveHour',
+    });
+  });
+
+  it('keeps a limit the new metric can watch', () => {
+    const weekly = { ...rule, limit: 'sevenDay' as const };
+    expect(changeRuleMetric(weekly, 'resetsIn')).toMatchObject({ limit: 'sevenDay' });
+    expect(changeRuleMetric(weekly, 'todayCost').limit).toBeUndefined();
+  });
+});
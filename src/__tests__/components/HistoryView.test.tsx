@@ -0,0 +1,101 @@
+import { render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryView } from '../../components/HistoryView';
+import type { UsageRange, UsageStats } from '../../types/usage';
+
+const range: UsageRange = {
+  from: '2026-03-01',
+  to: '2026-03-31',
+  days: [
+    {
+      date: '2026-03-02',
+      totalTokens: 20000,
+      totalCost: 12,
+      models: {
+        'claude-opus-4': { tokens: 5000, cost: 9 },
+        'claude-sonnet-4': { tokens: 15000, cost: 3 },
+      },
+    },
+  ],
+  totalTokens: 20000,
+  totalCost: 12,
+  models: {
+    'claude-opus-4': { tokens: 5000, cost: 9 },
+    'claude-sonnet-4': { tokens: 15000, cost: 3 },
+  },
+};
+
+const stats: UsageStats = {
+  today: { date: '2026-03-15', totalTokens: 0, totalCost: 0, models: {} },
+  thisWeek: [],
+  oauthUtilization: {
+    fiveHour: { utilization: 10, resetsAt: '', formattedTimeRemaining: '' },
+    sevenDay: { utilization: 10, resetsAt: '', formattedTimeRemaining: '' },
+    extraUsage: { isEnabled: true, monthlyLimit: 50, usedCredits: 5, utilization: 10 },
+    isAvailable: true,
+  },
+};
+
+describe('HistoryView', () => {
+  beforeEach(() => {
+    window.electronAPI.getUsageRange = vi.fn().mockResolvedValue({ ok: true, data: range });
+  });
+
+  it("loads this month's totals and model table", async () => {
+    render(<HistoryView stats={stats} weekStart={1} />);
+
+    expect(await screen.findByText('claude-opus-4')).toBeInTheDocument();
+    expect(window.electronAPI.getUsageRange).toHaveBeenCalledWith({
+      from: '2026-03-01',
+      to: '2026-03-31',
+    });
+    expect(screen.getAllByText('$12.00').length).toBeGreaterThan(0);
+    expect(screen.getByText('75%')).toBeInTheDocument();
+    expect(screen.getByText('5 of 50')).toBeInTheDocument();
+  });
+
+  it('shows cache efficiency for models with a token breakdown', async () => {
+    const breakdown = {
+      inputTokens: 1_000_000,
+      outputTokens: 200_000,
+      cacheCreationTokens: 800_000,
+      cacheReadTokens: 10_000_000,
+    };
+    window.electronAPI.getUsageRange = vi.fn().mockResolvedValue({
+      ok: true,
+      data: {
+        ...range,
+        models: { 'claude-sonnet-4': { tokens: 12_000_000, cost: 12, breakdown } },
+      },
+    });
+    render(<HistoryView stats={stats} weekStart={1} />);
+
+    expect(await screen.findByText('Cache Efficiency')).toBeInTheDocument();
+    expect(screen.getByText('85%')).toBeInTheDocument();
+    expect(screen.getByText('$27.00')).toBeInTheDocument();
+  });
+
+  it('hides cache efficiency without a breakdown', async () => {
+    render(<HistoryView stats={stats} weekStart={1} />);
+
+    await screen.findByText('claude-opus-4');
+    expect(screen.queryByText('Cache Efficiency')).not.toBeInTheDocument();
+  });
+
+  it('shows load errors', async () => {
+    window.electronAPI.getUsageRange = vi.fn().mockResolvedValue({
+      ok: false,
+      error: {
+        kind: 'parse_error',
+        source: 'ccusage',
+        message: 'Bad file',
+        timestamp: '2026-03-15T10:00:00Z',
+      },
+    });
+    render(<HistoryView stats={stats} weekStart={1} />);
+
+    expect(
+      await screen.findByText('Could not read local Claude Code usage files')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { OverlayWidget } from '../../components/OverlayWidget';
+import type { OverlaySettings, UsageStats } from '../../types/usage';
+
+const now = Date.parse('2026-01-18T12:00:00Z');
+
+const stats: UsageStats = {
+  today: { date: '2026-01-18', totalTokens: 0, totalCost: 0, models: {} },
+  thisWeek: [],
+  oauthUtilization: {
+    fiveHour: {
+      utilization: 45.4,
+      resetsAt: new Date(now + 150 * 60 * 1000).toISOString(),
+      formattedTimeRemaining: '2h 30m',
+    },
+    sevenDay: { utilization: 92, resetsAt: '', formattedTimeRemaining: '' },
+    isAvailable: true,
+  },
+};
+
+const overlay: OverlaySettings = {
+  enabled: true,
+  corner: 'topRight',
+  opacity: 0.6,
+  showFiveHour: true,
+  showWeekly: true,
+  showCountdown: true,
+};
+
+const thresholds = { warning: 70, critical: 90 };
+
+describe('OverlayWidget', () => {
+  it('shows both gauges colored by threshold and the countdown', () => {
+    const { container } = render(
+      <OverlayWidget stats={stats} thresholds={thresholds} overlay={overlay} now={now} />
+    );
+
+    expect(screen.getByText('45%')).toBeInTheDocument();
+    expect(screen.getByText('92%')).toBeInTheDocument();
+    expect(screen.getByText('Resets in 2h 30m')).toBeInTheDocument();
+    expect(
+      Array.from(container.querySelectorAll('[data-level]')).map((row) =>
+        row.getAttribute('data-level')
+      )
+    ).toEqual(['safe', 'critical']);
+    expect(container.firstElementChild).toHaveStyle({ opacity: '0.6' });
+  });
+
+  it('only shows the chosen metrics', () => {
+    render(
+      <OverlayWidget
+        stats={stats}
+        thresholds={thresholds}
+        overlay={{ ...overlay, showFiveHour: false, showCountdown: false }}
+        now={now}
+      />
+    );
+
+    expect(screen.queryByText('5h')).not.toBeInTheDocument();
+    expect(screen.getByText('7d')).toBeInTheDocument();
+    expect(screen.queryByText(/Resets in/)).not.toBeInTheDocument();
+  });
+
+  it('shows placeholders without OAuth data', () => {
+    render(<OverlayWidget stats={null} thresholds={thresholds} overlay={overlay} now={now} />);
+
+    expect(screen.getAllByText('--')).toHaveLength(2);
+    expect(screen.getByText('Reset time unknown')).toBeInTheDocument();
+  });
+});
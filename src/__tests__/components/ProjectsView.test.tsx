@@ -0,0 +1,53 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { ProjectsView } from '../../components/ProjectsView';
+import type { ProjectUsage, UsageStats } from '../../types/usage';
+
+const project = (name: string, cost: number): ProjectUsage => ({
+  project: `-Users-me-${name}`,
+  name,
+  totalTokens: 1500,
+  totalCost: cost,
+  models: {
+    'claude-sonnet-4': { tokens: 1000, cost: cost * 0.4 },
+    'claude-opus-4': { tokens: 500, cost: cost * 0.6 },
+  },
+  days: [{ date: '2026-01-18', totalTokens: 1500, totalCost: cost, models: {} }],
+});
+
+describe('ProjectsView', () => {
+  const mockStats: UsageStats = {
+    today: { date: '2026-01-18', totalTokens: 3000, totalCost: 7, models: {} },
+    thisWeek: [],
+    projects: {
+      today: [project('client-a', 5), project('client-b', 2)],
+      thisWeek: [],
+    },
+  };
+
+  it("lists today's projects with tokens and cost", () => {
+    render(<ProjectsView stats={mockStats} />);
+
+    expect(screen.getByText('client-a')).toBeInTheDocument();
+    expect(screen.getByText('client-b')).toBeInTheDocument();
+    expect(screen.getByText('1.5K · $5.00')).toBeInTheDocument();
+    expect(screen.getByText('$7.00')).toBeInTheDocument();
+  });
+
+  it('shows the model mix and daily breakdown when a project is expanded', () => {
+    render(<ProjectsView stats={mockStats} />);
+
+    expect(screen.queryByText('By Day')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTitle('-Users-me-client-a'));
+
+    expect(screen.getByText('By Day')).toBeInTheDocument();
+    expect(screen.getByText('2026-01-18')).toBeInTheDocument();
+    expect(screen.getByText('1.0K · $2.00')).toBeInTheDocument();
+  });
+
+  it('shows an empty state without project data', () => {
+    render(<ProjectsView stats={{ ...mockStats, projects: undefined }} />);
+
+    expect(screen.getByText('No usage in this range')).toBeInTheDocument();
+  });
+});
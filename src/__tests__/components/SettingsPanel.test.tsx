@@ -6,12 +6,68 @@ import type { UserConfiguration } from '../../types/usage';
 
 describe('SettingsPanel', () => {
   const mockPreferences: UserConfiguration = {
-    menuBarDisplayMode: 'both',
+    menuBarTemplate: '{percent}% · ${cost}',
     menuBarCostSource: 'today',
     notificationThresholds: {
       warning: 70,
       critical: 90,
     },
+    localApi: {
+      enabled: false,
+      port: 7391,
+      metrics: false,
+    },
+    polling: {
+      intervalSeconds: 30,
+      idleIntervalSeconds: 300,
+      adaptive: true,
+    },
+    alerts: {
+      thresholdAlerts: true,
+      rules: [],
+    },
+    resetNotifications: {
+      enabled: true,
+      minutesBefore: 0,
+      onlyWhenBlocked: true,
+    },
+    delivery: {
+      channels: [],
+      maxAttempts: 3,
+    },
+    digest: {
+      enabled: false,
+      frequency: 'daily',
+      time: '09:00',
+      weekday: 1,
+      writeReport: true,
+    },
+    calendar: {
+      timezone: '',
+      weekStart: 1,
+    },
+    accounts: {
+      accounts: [],
+      activeAccountId: 'default',
+      menuBar: 'active',
+    },
+    trayIcon: {
+      enabled: true,
+      showWeekly: false,
+    },
+    window: {
+      mode: 'popover',
+      pinned: false,
+      bounds: {},
+    },
+    overlay: {
+      enabled: false,
+      corner: 'topRight',
+      opacity: 0.85,
+      showFiveHour: true,
+      showWeekly: true,
+      showCountdown: true,
+    },
   };
 
   const mockOnUpdatePreferences = vi.fn();
@@ -102,23 +158,41 @@ describe('SettingsPanel', () => {
     });
   });
 
-  it('shows cost source selector when display mode is "both"', () => {
+  it('shows cost source selector when the title uses {cost}', () => {
     render(
       <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
     );
     expect(screen.getByText('Cost Source')).toBeInTheDocument();
   });
 
-  it('shows cost source selector when display mode is "cost"', () => {
-    const prefs = { ...mockPreferences, menuBarDisplayMode: 'cost' as const };
+  it('hides cost source selector when the title does not use {cost}', () => {
+    const prefs = { ...mockPreferences, menuBarTemplate: '{5h}% · ${today}' };
     render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
-    expect(screen.getByText('Cost Source')).toBeInTheDocument();
+    expect(screen.queryByText('Cost Source')).not.toBeInTheDocument();
   });
 
-  it('hides cost source selector when display mode is "percentage"', () => {
-    const prefs = { ...mockPreferences, menuBarDisplayMode: 'percentage' as const };
-    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
-    expect(screen.queryByText('Cost Source')).not.toBeInTheDocument();
+  it('previews and saves a valid title template', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+    expect(screen.getByTestId('menu-bar-preview')).toHaveTextContent('45% · $2.35');
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: '{5h}% · {7d}%' } });
+
+    expect(screen.getByTestId('menu-bar-preview')).toHaveTextContent('45% · 62%');
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({ menuBarTemplate: '{5h}% · {7d}%' });
+  });
+
+  it('shows errors for unknown tokens without saving', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: '{5h}% · {weekly}%' } });
+
+    expect(screen.getByText('Unknown token {weekly}')).toBeInTheDocument();
+    expect(screen.queryByTestId('menu-bar-preview')).not.toBeInTheDocument();
+    expect(mockOnUpdatePreferences).not.toHaveBeenCalled();
   });
 
   it('enforces min/max values on threshold inputs', () => {
@@ -174,4 +248,302 @@ describe('SettingsPanel', () => {
       screen.getByText("Choose whether to show today's cost or the rolling 5-hour window cost")
     ).toBeInTheDocument();
   });
+
+  it('adds the weekly ring to the tray icon', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.click(screen.getByLabelText('Add the weekly limit as an inner ring'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      trayIcon: { enabled: true, showWeekly: true },
+    });
+  });
+
+  it('pins the dashboard window', () => {
+    const prefs = {
+      ...mockPreferences,
+      window: { mode: 'dashboard' as const, pinned: false, bounds: {} },
+    };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    fireEvent.click(screen.getByLabelText('Keep on top of other windows'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      window: { mode: 'dashboard', pinned: true, bounds: {} },
+    });
+  });
+
+  it('turns on the overlay and changes its opacity', () => {
+    const { rerender } = render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    expect(screen.queryByLabelText(/Opacity/)).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Show a floating overlay'));
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      overlay: { ...mockPreferences.overlay, enabled: true },
+    });
+
+    const overlay = { ...mockPreferences.overlay, enabled: true };
+    rerender(
+      <SettingsPanel
+        preferences={{ ...mockPreferences, overlay }}
+        onUpdatePreferences={mockOnUpdatePreferences}
+      />
+    );
+    fireEvent.change(screen.getByLabelText('Opacity (85%)'), { target: { value: '50' } });
+    fireEvent.click(screen.getByLabelText('Weekly gauge'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({ overlay: { ...overlay, opacity: 0.5 } });
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      overlay: { ...overlay, showWeekly: false },
+    });
+  });
+
+  it('enables the local API from its switch', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    expect(screen.queryByLabelText('Port')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Serve usage on localhost'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      localApi: { enabled: true, port: 7391, metrics: false },
+    });
+  });
+
+  it('shows the port input when the local API is enabled', () => {
+    const prefs = {
+      ...mockPreferences,
+      localApi: { enabled: true, port: 7391, metrics: false },
+    };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    const port = screen.getByLabelText('Port');
+    fireEvent.change(port, { target: { value: '8080' } });
+    expect(mockOnUpdatePreferences).not.toHaveBeenCalled();
+
+    fireEvent.blur(port);
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      localApi: { enabled: true, port: 8080, metrics: false },
+    });
+  });
+
+  it('does not save a port outside 1024-65535', () => {
+    const prefs = {
+      ...mockPreferences,
+      localApi: { enabled: true, port: 7391, metrics: false },
+    };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    const port = screen.getByLabelText('Port');
+    for (const value of ['', '80']) {
+      fireEvent.change(port, { target: { value } });
+      fireEvent.keyDown(port, { key: 'Enter' });
+    }
+
+    expect(mockOnUpdatePreferences).not.toHaveBeenCalled();
+    expect(screen.getByText('Use a port from 1024 to 65535')).toBeInTheDocument();
+  });
+
+  it('updates the polling interval', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Every'), { target: { value: '60' } });
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      polling: { intervalSeconds: 60, idleIntervalSeconds: 300, adaptive: true },
+    });
+  });
+
+  it('disables the idle interval when adaptive refresh is off', () => {
+    const prefs = {
+      ...mockPreferences,
+      polling: { ...mockPreferences.polling, adaptive: false },
+    };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    expect(screen.getByLabelText('When idle')).toBeDisabled();
+  });
+
+  it('edits thresholds for a single limit', () => {
+    const prefs = {
+      ...mockPreferences,
+      notificationThresholds: { warning: 70, critical: 90, perLimit: {} },
+    };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    fireEvent.change(screen.getByLabelText('Weekly warning'), { target: { value: '50' } });
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      notificationThresholds: {
+        warning: 70,
+        critical: 90,
+        perLimit: { sevenDay: { warning: 50, critical: 90 } },
+      },
+    });
+  });
+
+  it('adds an alert rule', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.click(screen.getByText('Add alert rule'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      alerts: {
+        thresholdAlerts: true,
+        rules: [
+          expect.objectContaining({ metric: 'utilization', limit: 'sevenDay', threshold: 80 }),
+        ],
+      },
+    });
+  });
+
+  it('edits an existing alert rule', () => {
+    const rule = {
+      id: 'cost',
+      name: 'Expensive day',
+      enabled: true,
+      metric: 'todayCost' as const,
+      threshold: 50,
+      severity: 'info' as const,
+      cooldownMinutes: 60,
+      hysteresis: 10,
+    };
+    const prefs = { ...mockPreferences, alerts: { thresholdAlerts: true, rules: [rule] } };
+    render(<SettingsPanel preferences={prefs} onUpdatePreferences={mockOnUpdatePreferences} />);
+
+    fireEvent.change(screen.getByLabelText('Threshold'), { target: { value: '75' } });
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      alerts: { thresholdAlerts: true, rules: [{ ...rule, threshold: 75 }] },
+    });
+
+    fireEvent.change(screen.getByLabelText('Quiet from'), { target: { value: '21:00' } });
+    expect(mockOnUpdatePreferences).toHaveBeenLastCalledWith({
+      alerts: {
+        thresholdAlerts: true,
+        rules: [{ ...rule, quietHours: { start: '21:00', end: '07:00' } }],
+      },
+    });
+  });
+
+  it('sets the reset heads-up', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Heads-up before reset'), { target: { value: '10' } });
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      resetNotifications: { enabled: true, minutesBefore: 10, onlyWhenBlocked: true },
+    });
+  });
+
+  it('adds a delivery channel', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.click(screen.getByText('Add delivery channel'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      delivery: {
+        maxAttempts: 3,
+        channels: [expect.objectContaining({ type: 'webhook', enabled: true, target: '' })],
+      },
+    });
+  });
+
+  it('exports last month as CSV', async () => {
+    vi.mocked(window.electronAPI.exportUsage).mockResolvedValue({
+      success: true,
+      message: 'Exported to /tmp/usage.csv',
+    });
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.click(screen.getByText(/^Export \d{4}-\d{2}-01 to/));
+
+    expect(await screen.findByText('Exported to /tmp/usage.csv')).toBeInTheDocument();
+    expect(window.electronAPI.exportUsage).toHaveBeenCalledWith({
+      from: expect.stringMatching(/-01$/),
+      to: expect.any(String),
+      format: 'csv',
+    });
+  });
+
+  it('adds a second account next to the default one', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    fireEvent.click(screen.getByText('Add account'));
+
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      accounts: {
+        accounts: [
+          expect.objectContaining({ id: 'default', configDir: '' }),
+          expect.objectContaining({ name: 'Work', configDir: '~/.claude-work' }),
+        ],
+        activeAccountId: 'default',
+        menuBar: 'active',
+      },
+    });
+  });
+
+  it('saves an account config directory on blur, not on every keystroke', () => {
+    const accounts = {
+      ...mockPreferences.accounts,
+      accounts: [
+        {
+          id: 'work',
+          name: 'Work',
+          credentialSource: 'auto' as const,
+          configDir: '~/.claude-work',
+          dataDirs: [],
+        },
+      ],
+    };
+    render(
+      <SettingsPanel
+        preferences={{ ...mockPreferences, accounts }}
+        onUpdatePreferences={mockOnUpdatePreferences}
+      />
+    );
+
+    const input = screen.getByLabelText('Config directory');
+    fireEvent.change(input, { target: { value: '~/.claude-w' } });
+    fireEvent.change(input, { target: { value: '~/.claude-wk' } });
+    expect(mockOnUpdatePreferences).not.toHaveBeenCalled();
+
+    fireEvent.blur(input);
+    expect(mockOnUpdatePreferences).toHaveBeenCalledTimes(1);
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      accounts: { ...accounts, accounts: [{ ...accounts.accounts[0], configDir: '~/.claude-wk' }] },
+    });
+  });
+
+  it('saves the time zone once it is a known zone', () => {
+    render(
+      <SettingsPanel preferences={mockPreferences} onUpdatePreferences={mockOnUpdatePreferences} />
+    );
+
+    const input = screen.getByLabelText('Time zone');
+    fireEvent.change(input, { target: { value: 'America/New' } });
+    expect(mockOnUpdatePreferences).not.toHaveBeenCalled();
+    expect(screen.getByText('Unknown time zone')).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: 'America/New_York' } });
+    expect(mockOnUpdatePreferences).toHaveBeenCalledWith({
+      calendar: { timezone: 'America/New_York', weekStart: 1 },
+    });
+  });
 });
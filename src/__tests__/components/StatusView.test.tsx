@@ -1,9 +1,28 @@
 import { describe, it, expect } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { StatusView } from '../../components/StatusView';
-import type { UsageStats } from '../../types/usage';
+import type { OAuthUtilization, UsageStats } from '../../types/usage';
 
 describe('StatusView', () => {
+  const oauthUtilization: OAuthUtilization = {
+    fiveHour: {
+      utilization: 15,
+      resetsAt: '2026-01-18T17:00:00Z',
+      formattedTimeRemaining: '3h 9m',
+    },
+    sevenDay: {
+      utilization: 2,
+      resetsAt: '2026-01-25T00:00:00Z',
+      formattedTimeRemaining: '6d 22h',
+    },
+    sevenDaySonnet: {
+      utilization: 0,
+      resetsAt: null,
+      formattedTimeRemaining: 'N/A',
+    },
+    isAvailable: true,
+  };
+
   const mockStats: UsageStats = {
     today: {
       date: '2026-01-18',
@@ -64,22 +83,7 @@ describe('StatusView', () => {
         models: {},
       },
     ],
-    oauthUtilization: {
-      fiveHour: {
-        utilization: 15,
-        resetsAt: '2026-01-18T17:00:00Z',
-        formattedTimeRemaining: '3h 9m',
-      },
-      sevenDay: {
-        utilization: 2,
-        resetsAt: '2026-01-25T00:00:00Z',
-        formattedTimeRemaining: '6d 22h',
-      },
-      sevenDaySonnet: {
-        utilization: 0,
-      },
-      isAvailable: true,
-    },
+    oauthUtilization,
   };
 
   it('renders current limits section', () => {
@@ -108,12 +112,46 @@ describe('StatusView', () => {
     expect(screen.getByText('0%')).toBeInTheDocument();
   });
 
+  it('colors limit bars using the configured thresholds', () => {
+    const { container, rerender } = render(<StatusView stats={mockStats} />);
+    const limitBars = (color: string) => container.querySelectorAll(`.h-3 > .${color}`);
+    expect(limitBars('bg-green-500')).toHaveLength(2);
+
+    rerender(
+      <StatusView
+        stats={mockStats}
+        thresholds={{
+          warning: 70,
+          critical: 90,
+          perLimit: { fiveHour: { warning: 10, critical: 50 } },
+        }}
+      />
+    );
+    expect(limitBars('bg-amber-500')).toHaveLength(1);
+    expect(limitBars('bg-green-500')).toHaveLength(1);
+  });
+
+  it('shows which provider supplied the credentials', () => {
+    const statsWithSource: UsageStats = {
+      ...mockStats,
+      oauthUtilization: {
+        ...oauthUtilization,
+        credentialSource: 'credentials-file',
+        credentialLocation: '/home/me/.claude-work/.credentials.json',
+      },
+    };
+    render(<StatusView stats={statsWithSource} />);
+    expect(
+      screen.getByText('Credentials via /home/me/.claude-work/.credentials.json')
+    ).toBeInTheDocument();
+  });
+
   it('shows warning when OAuth data is unavailable', () => {
     const statsWithoutOAuth: UsageStats = {
       ...mockStats,
       oauthUtilization: {
-        fiveHour: mockStats.oauthUtilization!.fiveHour,
-        sevenDay: mockStats.oauthUtilization!.sevenDay,
+        fiveHour: oauthUtilization.fiveHour,
+        sevenDay: oauthUtilization.sevenDay,
         isAvailable: false,
       },
     };
@@ -121,6 +159,55 @@ describe('StatusView', () => {
     expect(screen.getByText('OAuth data unavailable - connect Claude Code')).toBeInTheDocument();
   });
 
+  it('shows a distinct message when credentials have expired', () => {
+    const statsWithExpiredCredentials: UsageStats = {
+      ...mockStats,
+      oauthUtilization: {
+        fiveHour: oauthUtilization.fiveHour,
+        sevenDay: oauthUtilization.sevenDay,
+        isAvailable: false,
+        credentialsExpired: true,
+      },
+    };
+    render(<StatusView stats={statsWithExpiredCredentials} />);
+    expect(
+      screen.getByText('Claude Code credentials expired - sign in to Claude Code again')
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText('OAuth data unavailable - connect Claude Code')
+    ).not.toBeInTheDocument();
+  });
+
+  it('renders diagnostics for each reported error', () => {
+    const statsWithErrors: UsageStats = {
+      ...mockStats,
+      errors: [
+        {
+          kind: 'keychain_locked',
+          source: 'credentials',
+          message: 'Keychain access failed (security exit code 36)',
+          timestamp: '2026-01-18T13:50:00Z',
+        },
+        {
+          kind: 'parse_error',
+          source: 'ccusage',
+          message: 'Unexpected token',
+          timestamp: '2026-01-18T13:50:00Z',
+        },
+      ],
+    };
+    render(<StatusView stats={statsWithErrors} />);
+    expect(screen.getByText('Some data could not be loaded')).toBeInTheDocument();
+    expect(screen.getByText('Keychain is locked or access was denied')).toBeInTheDocument();
+    expect(screen.getByText('Could not read local Claude Code usage files')).toBeInTheDocument();
+    expect(screen.getByText('Local usage data unavailable - totals may be 0')).toBeInTheDocument();
+  });
+
+  it('does not render diagnostics when there are no errors', () => {
+    render(<StatusView stats={{ ...mockStats, errors: [] }} />);
+    expect(screen.queryByText('Some data could not be loaded')).not.toBeInTheDocument();
+  });
+
   it("displays today's usage section", () => {
     render(<StatusView stats={mockStats} />);
     expect(screen.getByText("Today's Usage")).toBeInTheDocument();
@@ -143,6 +230,39 @@ describe('StatusView', () => {
     expect(screen.getByText('claude-opus-4-5')).toBeInTheDocument();
   });
 
+  it('shows usage inside the current 5-hour window', () => {
+    render(
+      <StatusView
+        stats={{
+          ...mockStats,
+          currentSession: {
+            start: '2026-01-18T10:00:00.000Z',
+            end: '2026-01-18T15:00:00.000Z',
+            alignedTo: 'oauth',
+            lastActivity: '2026-01-18T12:30:00.000Z',
+            totalTokens: 1250000,
+            totalCost: 4.75,
+            models: { 'claude-opus-4-5': { tokens: 1250000, cost: 4.75 } },
+          },
+        }}
+        timeZone="Asia/Tokyo"
+      />
+    );
+
+    expect(screen.getByText('Current Session')).toBeInTheDocument();
+    expect(
+      screen.getByText(/19:00 – 00:00 · Window from the 5-hour limit reset time/)
+    ).toBeInTheDocument();
+    expect(screen.getByText('1.3M')).toBeInTheDocument();
+    expect(screen.getByText('$4.75')).toBeInTheDocument();
+    expect(screen.getByText('Last activity 21:30')).toBeInTheDocument();
+  });
+
+  it('omits the session card without session data', () => {
+    render(<StatusView stats={mockStats} />);
+    expect(screen.queryByText('Current Session')).not.toBeInTheDocument();
+  });
+
   it('displays this week section', () => {
     render(<StatusView stats={mockStats} />);
     expect(screen.getByText('This Week')).toBeInTheDocument();
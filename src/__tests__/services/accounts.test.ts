@@ -0,0 +1,93 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_ACCOUNT,
+  activeAccount,
+  credentialChainFor,
+  keychainServiceFor,
+  listAccounts,
+  usagePathsFor,
+} from '../../services/accounts';
+import type { Account } from '../../types/usage';
+
+const work: Account = {
+  id: 'work',
+  name: 'Work',
+  credentialSource: 'auto',
+  configDir: '/tmp/claude-work',
+  dataDirs: [],
+  plan: 'team',
+};
+
+describe('accounts', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-accounts-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('CLAUDE_METER_OAUTH_TOKEN', 'env-token');
+    vi.stubEnv('CLAUDE_METER_SECRET_TOOL', 'false');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the default account and to the first account', () => {
+    expect(listAccounts({ accounts: [], activeAccountId: 'work', menuBar: 'active' })).toEqual([
+      DEFAULT_ACCOUNT,
+    ]);
+    expect(activeAccount({ accounts: [work], activeAccountId: 'removed', menuBar: 'active' })).toBe(
+      work
+    );
+  });
+
+  it('names the Keychain item like Claude Code does for a custom config dir', () => {
+    expect(keychainServiceFor('')).toBe('Claude Code-credentials');
+    expect(keychainServiceFor('/tmp/claude-work')).toMatch(/^Claude Code-credentials-[0-9a-f]{8}$/);
+    expect(keychainServiceFor(' /tmp/claude-work ')).toBe(keychainServiceFor('/tmp/claude-work'));
+  });
+
+  it("reads a custom config dir's credentials file and ignores the environment token", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, '.credentials.json'),
+      JSON.stringify({ claudeAiOauth: { accessToken: 'work-token' } })
+    );
+
+    const resolved = await credentialChainFor({ ...work, configDir: tmpDir }).resolve();
+
+    expect(resolved?.source).toBe('credentials-file');
+    expect(resolved?.provider.location).toBe(path.join(tmpDir, '.credentials.json'));
+    expect(resolved?.credentials.claudeAiOauth?.accessToken).toBe('work-token');
+  });
+
+  it('uses the environment token for the default account or when picked', async () => {
+    expect((await credentialChainFor(DEFAULT_ACCOUNT).resolve())?.source).toBe('env');
+    expect((await credentialChainFor({ ...work, credentialSource: 'env' }).resolve())?.source).toBe(
+      'env'
+    );
+  });
+
+  it('only tries the picked provider', async () => {
+    const resolved = await credentialChainFor({
+      ...work,
+      configDir: tmpDir,
+      credentialSource: 'keychain',
+    }).resolve();
+
+    expect(resolved).toBeNull();
+  });
+
+  it('reads usage from the data dirs, else the config dir, else ccusage defaults', () => {
+    expect(usagePathsFor({ ...work, dataDirs: ['/data/a', ' ~/b', ' '] })).toEqual([
+      '/data/a',
+      path.join(os.homedir(), 'b'),
+    ]);
+    expect(usagePathsFor(work)).toEqual(['/tmp/claude-work']);
+    expect(usagePathsFor(DEFAULT_ACCOUNT)).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  AlertEngine,
+  type AlertSnapshot,
+  buildAlertSnapshot,
+  isInQuietHours,
+  thresholdRules,
+} from '../../services/alertEngine';
+import type { AlertRule, UsageStats } from '../../types/usage';
+
+const rule: AlertRule = {
+  id: 'weekly-80',
+  name: 'Weekly above 80%',
+  enabled: true,
+  metric: 'utilization',
+  limit: 'sevenDay',
+  threshold: 80,
+  severity: 'warning',
+  cooldownMinutes: 30,
+  hysteresis: 5,
+};
+
+const snapshot = (sevenDay: number): AlertSnapshot => ({
+  utilization: { fiveHour: 10, sevenDay },
+  todayCost: 0,
+  resetsInMinutes: {},
+});
+
+const at = (time: string) => new Date(`2026-01-18T${time}:00`);
+
+describe('AlertEngine', () => {
+  let engine: AlertEngine;
+
+  beforeEach(() => {
+    engine = new AlertEngine();
+  });
+
+  it('fires once when the condition becomes true', () => {
+    expect(engine.evaluate([rule], snapshot(79), at('10:00'))).toEqual([]);
+
+    const fired = engine.evaluate([rule], snapshot(81), at('10:01'));
+    expect(fired).toHaveLength(1);
+    expect(fired[0].message).toBe('Weekly limit is at 81%');
+
+    expect(engine.evaluate([rule], snapshot(85), at('11:00'))).toEqual([]);
+  });
+
+  it('re-arms only after the value drops below the hysteresis band', () => {
+    engine.evaluate([rule], snapshot(81), at('10:00'));
+
+    // Dips just under the threshold are noise
+    engine.evaluate([rule], snapshot(77), at('11:00'));
+    expect(engine.evaluate([rule], snapshot(81), at('11:01'))).toEqual([]);
+
+    engine.evaluate([rule], snapshot(74), at('11:02'));
+    expect(engine.evaluate([rule], snapshot(81), at('11:03'))).toHaveLength(1);
+  });
+
+  it('waits for the cooldown before firing again', () => {
+    engine.evaluate([rule], snapshot(81), at('10:00'));
+    engine.evaluate([rule], snapshot(50), at('10:05'));
+
+    expect(engine.evaluate([rule], snapshot(81), at('10:10'))).toEqual([]);
+    expect(engine.evaluate([rule], snapshot(81), at('10:30'))).toHaveLength(1);
+  });
+
+  it('holds alerts during quiet hours and fires once they end', () => {
+    const quiet = { ...rule, quietHours: { start: '22:00', end: '07:00' } };
+
+    expect(engine.evaluate([quiet], snapshot(90), at('23:30'))).toEqual([]);
+    expect(engine.evaluate([quiet], snapshot(90), at('06:59'))).toEqual([]);
+    expect(engine.evaluate([quiet], snapshot(90), at('07:00'))).toHaveLength(1);
+  });
+
+  it('fires reset rules when the time left drops below the threshold', () => {
+    const reset: AlertRule = {
+      ...rule,
+      id: 'reset',
+      metric: 'resetsIn',
+      limit: 'fiveHour',
+      threshold: 10,
+      hysteresis: 0,
+    };
+    const withReset = (minutes: number): AlertSnapshot => ({
+      ...snapshot(0),
+      resetsInMinutes: { fiveHour: minutes },
+    });
+
+    expect(engine.evaluate([reset], withReset(30), at('10:00'))).toEqual([]);
+    expect(engine.evaluate([reset], withReset(9), at('10:21'))[0].message).toBe(
+      '5-hour limit resets in 9 min'
+    );
+  });
+
+  it('ignores disabled rules and values the API did not report', () => {
+    expect(engine.evaluate([{ ...rule, enabled: false }], snapshot(95))).toEqual([]);
+    expect(engine.evaluate([{ ...rule, limit: 'sevenDayOpus' }], snapshot(95))).toEqual([]);
+  });
+});
+
+describe('isInQuietHours', () => {
+  const utc = (time: string) => new Date(`2026-01-18T${time}:00Z`);
+
+  it('handles ranges within a day and across midnight', () => {
+    const office = { start: '09:00', end: '17:00' };
+    expect(isInQuietHours(office, utc('12:00'), 'UTC')).toBe(true);
+    expect(isInQuietHours(office, utc('17:00'), 'UTC')).toBe(false);
+
+    const night = { start: '22:00', end: '07:00' };
+    expect(isInQuietHours(night, utc('03:00'), 'UTC')).toBe(true);
+    expect(isInQuietHours(night, utc('12:00'), 'UTC')).toBe(false);
+    expect(isInQuietHours(undefined, utc('03:00'), 'UTC')).toBe(false);
+  });
+
+  it('reads the clock in the configured time zone', () => {
+    const night = { start: '22:00', end: '07:00' };
+    // 03:00 UTC is 22:00 the evening before in New York
+    expect(isInQuietHours(night, utc('03:00'), 'America/New_York')).toBe(true);
+    expect(isInQuietHours(night, utc('11:00'), 'America/New_York')).toBe(true);
+    expect(isInQuietHours(night, utc('18:00'), 'America/New_York')).toBe(false);
+  });
+});
+
+describe('buildAlertSnapshot', () => {
+  it('collects utilization, cost and minutes until each reset', () => {
+    const stats: UsageStats = {
+      today: { date: '2026-01-18', totalTokens: 0, totalCost: 12.5, models: {} },
+      thisWeek: [],
+      oauthUtilization: {
+        fiveHour: { utilization: 40, resetsAt: '2026-01-18T10:45:00Z', formattedTimeRemaining: '' },
+        sevenDay: { utilization: 20, resetsAt: '2026-01-18T09:00:00Z', formattedTimeRemaining: '' },
+        isAvailable: true,
+      },
+    };
+
+    expect(buildAlertSnapshot(stats, Date.parse('2026-01-18T10:00:00Z'))).toEqual({
+      utilization: { fiveHour: 40, sevenDay: 20 },
+      todayCost: 12.5,
+      resetsInMinutes: { fiveHour: 45 },
+    });
+  });
+});
+
+describe('thresholdRules', () => {
+  it('creates warning and critical rules per limit from the thresholds', () => {
+    const rules = thresholdRules({
+      warning: 70,
+      critical: 90,
+      perLimit: { sevenDayOpus: { warning: 50, critical: 60 } },
+    });
+
+    expect(rules).toHaveLength(10);
+    expect(rules.find((r) => r.id === 'threshold:sevenDayOpus:warning')?.threshold).toBe(50);
+    expect(rules.find((r) => r.id === 'threshold:fiveHour:critical')?.threshold).toBe(90);
+  });
+});
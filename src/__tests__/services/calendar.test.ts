@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  dayBounds,
+  dayKey,
+  formatCountdown,
+  isValidTimeZone,
+  resolveTimeZone,
+  startOfWeek,
+  systemTimeZone,
+  zonedTime,
+} from '../../services/calendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('dayKey', () => {
+  it('uses the calendar day in the given time zone', () => {
+    const instant = new Date('2026-01-18T03:00:00Z');
+
+    expect(dayKey(instant, 'UTC')).toBe('2026-01-18');
+    expect(dayKey(instant, 'America/Los_Angeles')).toBe('2026-01-17');
+    expect(dayKey(instant, 'Asia/Tokyo')).toBe('2026-01-18');
+  });
+
+  it('moves the day boundary with daylight saving time', () => {
+    // 04:30 UTC is 23:30 the day before in New York in winter (UTC-5), 00:30 in summer (UTC-4)
+    expect(dayKey(new Date('2026-03-07T04:30:00Z'), 'America/New_York')).toBe('2026-03-06');
+    expect(dayKey(new Date('2026-03-09T04:30:00Z'), 'America/New_York')).toBe('2026-03-09');
+  });
+});
+
+describe('dayBounds', () => {
+  it('spans 23 and 25 hours on the days clocks change', () => {
+    const spring = dayBounds('2026-03-08', '2026-03-08', 'America/New_York');
+    const autumn = dayBounds('2026-11-01', '2026-11-01', 'America/New_York');
+
+    expect(spring.start).toEqual(new Date('2026-03-08T05:00:00Z'));
+    expect(spring.end.getTime() + 1 - spring.start.getTime()).toBe(23 * HOUR_MS);
+    expect(autumn.start).toEqual(new Date('2026-11-01T04:00:00Z'));
+    expect(autumn.end.getTime() + 1 - autumn.start.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('covers a whole range of days', () => {
+    expect(dayBounds('2026-01-01', '2026-01-31', 'UTC')).toEqual({
+      start: new Date('2026-01-01T00:00:00.000Z'),
+      end: new Date('2026-01-31T23:59:59.999Z'),
+    });
+  });
+});
+
+describe('zonedTime', () => {
+  it('converts wall-clock time on both sides of a DST change', () => {
+    expect(zonedTime('2026-03-07', '09:00', 'Europe/Berlin')).toEqual(
+      new Date('2026-03-07T08:00:00Z')
+    );
+    expect(zonedTime('2026-03-30', '09:00', 'Europe/Berlin')).toEqual(
+      new Date('2026-03-30T07:00:00Z')
+    );
+  });
+});
+
+describe('day arithmetic', () => {
+  it('adds days across month, year and DST boundaries', () => {
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+  });
+
+  it('finds the first day of the week', () => {
+    // 2026-01-18 is a Sunday
+    expect(startOfWeek('2026-01-18', 0)).toBe('2026-01-18');
+    expect(startOfWeek('2026-01-18', 1)).toBe('2026-01-12');
+    expect(startOfWeek('2026-01-19', 1)).toBe('2026-01-19');
+    expect(startOfWeek('2026-01-16', 6)).toBe('2026-01-10');
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('falls back to the system zone when empty or unknown', () => {
+    expect(resolveTimeZone('Europe/Paris')).toBe('Europe/Paris');
+    expect(resolveTimeZone('')).toBe(systemTimeZone());
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe(systemTimeZone());
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('formatCountdown', () => {
+  const now = Date.parse('2026-01-18T12:00:00Z');
+  const inMinutes = (minutes: number) => new Date(now + minutes * 60000).toISOString();
+
+  it('counts down in minutes, hours, then days past a full day', () => {
+    expect(formatCountdown(inMinutes(45), now)).toBe('45m');
+    expect(formatCountdown(inMinutes(150), now)).toBe('2h 30m');
+    expect(formatCountdown(inMinutes(24 * 60), now)).toBe('24h 0m');
+    expect(formatCountdown(inMinutes(25 * 60), now)).toBe('1d 1h');
+    expect(formatCountdown(inMinutes(0), now)).toBe('Resetting...');
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CCUsageService } from '../../services/ccusageService';
+import type { DailyDataEntry } from '../../services/projectUsage';
+
+const daily = vi.hoisted(() => ({ entries: [] as unknown[], missing: false }));
+const oauth = vi.hoisted(() => ({ usage: null as unknown }));
+
+vi.mock('ccusage/data-loader', () => ({
+  loadDailyUsageData: async () => {
+    if (daily.missing) throw new Error('No valid Claude data directories found');
+    return daily.entries;
+  },
+  loadSessionBlockData: async () => {
+    if (daily.missing) throw new Error('No valid Claude data directories found');
+    return [];
+  },
+}));
+
+vi.mock('../../services/claudeOAuthService', () => ({
+  ClaudeOAuthService: {
+    forAccount: () => ({
+      fetchUsageData: async () =>
+        oauth.usage
+          ? { ok: true, data: oauth.usage }
+          : {
+              ok: false,
+              error: {
+                kind: 'credentials_missing',
+                source: 'credentials',
+                message: 'No credentials',
+                timestamp: new Date().toISOString(),
+              },
+            },
+      getAuthState: () => 'missing',
+      getCredentialSource: () => null,
+      getCredentialLocation: () => null,
+      formatTimeUntilReset: (resetsAt: Date) => `until ${resetsAt.toISOString()}`,
+    }),
+    pruneAccounts: () => {},
+  },
+}));
+
+const entry = (date: string, totalCost: number): DailyDataEntry => ({
+  date,
+  project: 'app',
+  inputTokens: 100,
+  outputTokens: 0,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+  totalCost,
+  modelBreakdowns: [],
+});
+
+describe('CCUsageService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Thursday
+    vi.setSystemTime(new Date('2026-03-19T12:00:00Z'));
+    daily.entries = ['2026-03-13', '2026-03-14', '2026-03-15', '2026-03-16', '2026-03-19'].map(
+      (date) => entry(date, 1)
+    );
+    oauth.usage = null;
+    daily.missing = false;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts this week on the configured first day of the week', async () => {
+    const service = new CCUsageService();
+    service.updateConfiguration({ calendar: { timezone: 'UTC', weekStart: 0 } });
+
+    const stats = await service.getUsageStats();
+
+    expect(stats.today.date).toBe('2026-03-19');
+    expect(stats.thisWeek.map((day) => day.date)).toEqual([
+      '2026-03-15',
+      '2026-03-16',
+      '2026-03-19',
+    ]);
+  });
+
+  it('follows a change of week start', async () => {
+    const service = new CCUsageService();
+    service.updateConfiguration({ calendar: { timezone: 'UTC', weekStart: 6 } });
+    expect((await service.getUsageStats()).thisWeek[0].date).toBe('2026-03-14');
+
+    service.updateConfiguration({ calendar: { timezone: 'UTC', weekStart: 1 } });
+    expect((await service.getUsageStats()).thisWeek.map((day) => day.date)).toEqual([
+      '2026-03-16',
+      '2026-03-19',
+    ]);
+  });
+
+  it('keeps the Sonnet limit reset time', async () => {
+    oauth.usage = {
+      five_hour: { utilization: 45, resets_at: '2026-03-19T15:00:00Z' },
+      seven_day: { utilization: 20, resets_at: '2026-03-23T00:00:00Z' },
+      seven_day_sonnet: { utilization: 12, resets_at: '2026-03-22T00:00:00Z' },
+    };
+    const service = new CCUsageService();
+
+    const stats = await service.getUsageStats();
+
+    expect(stats.oauthUtilization?.sevenDaySonnet).toEqual({
+      utilization: 12,
+      resetsAt: '2026-03-22T00:00:00Z',
+      formattedTimeRemaining: 'until 2026-03-22T00:00:00.000Z',
+    });
+  });
+
+  it('reports missing local data once', async () => {
+    daily.missing = true;
+    const service = new CCUsageService();
+
+    const stats = await service.getUsageStats();
+
+    expect(stats.errors?.map((error) => `${error.source}:${error.kind}`)).toEqual([
+      'credentials:credentials_missing',
+      'ccusage:parse_error',
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClaudeOAuthService } from '../../services/claudeOAuthService';
+import { TokenManager } from '../../services/tokenManager';
+import type { Account } from '../../types/usage';
+
+vi.mock('../../services/historyService', () => ({
+  HistoryService: {
+    getInstance: () => ({ record: vi.fn() }),
+    forAccount: () => ({ record: vi.fn() }),
+  },
+}));
+
+describe('ClaudeOAuthService', () => {
+  let server: http.Server;
+  let respond: (res: http.ServerResponse) => void;
+  let service: ClaudeOAuthService;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('CLAUDE_METER_OAUTH_TOKEN', 'test-token');
+
+    server = http.createServer((_req, res) => respond(res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    service = new ClaudeOAuthService(
+      new TokenManager(),
+      undefined,
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/oauth/usage`
+    );
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('fetchUsageData', () => {
+    it('returns the usage data on success', async () => {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            five_hour: { utilization: 15, resets_at: '2026-01-18T17:00:00Z' },
+            seven_day: { utilization: 2, resets_at: '2026-01-25T00:00:00Z' },
+          })
+        );
+      };
+
+      const result = await service.fetchUsageData();
+
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.data.five_hour.utilization).toBe(15);
+    });
+
+    it('reports rate limiting with the Retry-After delay', async () => {
+      respond = (res) => {
+        res.writeHead(429, { 'Retry-After': '120' });
+        res.end();
+      };
+
+      const result = await service.fetchUsageData();
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toMatchObject({
+        kind: 'rate_limited',
+        source: 'oauth',
+        status: 429,
+        retryAfter: 120,
+      });
+    });
+
+    it('reports server errors', async () => {
+      respond = (res) => {
+        res.writeHead(503);
+        res.end();
+      };
+
+      const result = await service.fetchUsageData();
+
+      expect(!result.ok && result.error.kind).toBe('server_error');
+    });
+
+    it('reports invalid payloads', async () => {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ unexpected: true }));
+      };
+
+      const result = await service.fetchUsageData();
+
+      expect(!result.ok && result.error.kind).toBe('invalid_response');
+    });
+
+    it('does not call the API again while a failure is still fresh', async () => {
+      let calls = 0;
+      respond = (res) => {
+        calls++;
+        res.writeHead(500);
+        res.end();
+      };
+
+      await service.fetchUsageData();
+      const second = await service.fetchUsageData();
+
+      expect(calls).toBe(1);
+      expect(!second.ok && second.error.kind).toBe('server_error');
+    });
+  });
+
+  describe('fetchUsageData with force', () => {
+    it('bypasses the success cache', async () => {
+      let calls = 0;
+      respond = (res) => {
+        calls++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            five_hour: { utilization: calls, resets_at: null },
+            seven_day: { utilization: 1, resets_at: null },
+          })
+        );
+      };
+
+      await service.fetchUsageData();
+      const forced = await service.fetchUsageData({ force: true });
+
+      expect(calls).toBe(2);
+      expect(forced.ok && forced.data.five_hour.utilization).toBe(2);
+    });
+
+    it('still honors Retry-After', async () => {
+      let calls = 0;
+      respond = (res) => {
+        calls++;
+        res.writeHead(429, { 'Retry-After': '120' });
+        res.end();
+      };
+
+      await service.fetchUsageData();
+      await service.fetchUsageData({ force: true });
+
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('getErrorCounts', () => {
+    it('counts each failed request once by kind', async () => {
+      respond = (res) => {
+        res.writeHead(503);
+        res.end();
+      };
+
+      await service.fetchUsageData();
+      await service.fetchUsageData(); // served from the cached failure
+      service.clearCache();
+      await service.fetchUsageData();
+
+      expect(service.getErrorCounts()).toEqual({ server_error: 2 });
+    });
+  });
+
+  describe('forAccount', () => {
+    const work: Account = {
+      id: 'work',
+      name: 'Work',
+      credentialSource: 'auto',
+      configDir: '~/.claude-work',
+      dataDirs: [],
+    };
+
+    it('reuses the instance while the credential settings stay the same', () => {
+      const first = ClaudeOAuthService.forAccount(work);
+
+      expect(ClaudeOAuthService.forAccount({ ...work, name: 'Renamed' })).toBe(first);
+      expect(ClaudeOAuthService.forAccount({ ...work, configDir: '~/.claude-2' })).not.toBe(first);
+    });
+
+    it('drops instances of accounts that are no longer configured', () => {
+      const first = ClaudeOAuthService.forAccount(work);
+      const moved = { ...work, configDir: '~/.claude-2' };
+      const second = ClaudeOAuthService.forAccount(moved);
+
+      ClaudeOAuthService.pruneAccounts([moved]);
+
+      expect(ClaudeOAuthService.forAccount(moved)).toBe(second);
+      expect(ClaudeOAuthService.forAccount(work)).not.toBe(first);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CredentialChain,
+  type CredentialProvider,
+  CredentialsFileProvider,
+  EnvCredentialProvider,
+  KeychainCredentialProvider,
+  SecretServiceCredentialProvider,
+} from '../../services/credentialProviders';
+
+const credentialsJson = (accessToken: string) =>
+  JSON.stringify({
+    claudeAiOauth: { accessToken, refreshToken: 'refresh', expiresAt: 1768760000000 },
+  });
+
+describe('credential providers', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-credentials-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('EnvCredentialProvider', () => {
+    it('prefers CLAUDE_METER_OAUTH_TOKEN over CLAUDE_CODE_OAUTH_TOKEN', async () => {
+      const provider = new EnvCredentialProvider({
+        CLAUDE_METER_OAUTH_TOKEN: 'meter-token',
+        CLAUDE_CODE_OAUTH_TOKEN: 'code-token',
+      });
+
+      const credentials = await provider.read();
+      expect(credentials?.claudeAiOauth?.accessToken).toBe('meter-token');
+    });
+
+    it('returns null when no variable is set', async () => {
+      const provider = new EnvCredentialProvider({});
+      expect(await provider.read()).toBeNull();
+    });
+  });
+
+  describe('CredentialsFileProvider', () => {
+    it('reads Claude Code credentials from the file', async () => {
+      const filePath = path.join(tmpDir, '.credentials.json');
+      fs.writeFileSync(filePath, credentialsJson('file-token'));
+
+      const provider = new CredentialsFileProvider(filePath);
+
+      expect(provider.isSupported()).toBe(true);
+      const credentials = await provider.read();
+      expect(credentials?.claudeAiOauth?.accessToken).toBe('file-token');
+      expect(credentials?.claudeAiOauth?.refreshToken).toBe('refresh');
+    });
+
+    it('is unsupported when the file does not exist', () => {
+      const provider = new CredentialsFileProvider(path.join(tmpDir, 'missing.json'));
+      expect(provider.isSupported()).toBe(false);
+    });
+  });
+
+  describe('KeychainCredentialProvider', () => {
+    it('writes refreshed credentials back to the same item and account via stdin', async () => {
+      const calls = path.join(tmpDir, 'calls');
+      const input = path.join(tmpDir, 'input');
+      const standIn = path.join(tmpDir, 'security');
+      fs.writeFileSync(
+        standIn,
+        [
+          '#!/bin/sh',
+          `echo "$@" >> '${calls}'`,
+          'case "$1 $4" in',
+          `  "find-generic-password -w") echo '{"claudeAiOauth":{"accessToken":"old"},"mcpOAuth":{}}' ;;`,
+          '  "find-generic-password ") echo \'    "acct"<blob>="jdoe"\' ;;',
+          `  "add-generic-password "*) cat > '${input}' ;;`,
+          'esac',
+          '',
+        ].join('\n'),
+        { mode: 0o755 }
+      );
+
+      await new KeychainCredentialProvider('Claude Code-credentials', standIn).write({
+        claudeAiOauth: { accessToken: 'new', refreshToken: 'rotated' },
+      });
+
+      const stored = JSON.stringify({
+        claudeAiOauth: { accessToken: 'new', refreshToken: 'rotated' },
+        mcpOAuth: {},
+      });
+      const args = fs.readFileSync(calls, 'utf8');
+      expect(args).toContain('add-generic-password -U -s Claude Code-credentials -a jdoe -w\n');
+      expect(args).not.toContain('rotated');
+      expect(args).not.toContain('"new"');
+      expect(fs.readFileSync(input, 'utf8')).toBe(`${stored}\n${stored}\n`);
+    });
+  });
+
+  describe('SecretServiceCredentialProvider', () => {
+    it('reads credentials from a secret-tool compatible command', async () => {
+      const standIn = path.join(tmpDir, 'secret-tool');
+      fs.writeFileSync(standIn, `#!/bin/sh\necho '${credentialsJson('secret-token')}'\n`, {
+        mode: 0o755,
+      });
+
+      const provider = new SecretServiceCredentialProvider(standIn);
+
+      expect(provider.isSupported()).toBe(true);
+      const credentials = await provider.read();
+      expect(credentials?.claudeAiOauth?.accessToken).toBe('secret-token');
+    });
+
+    it('returns null when secret-tool is not installed', async () => {
+      const provider = new SecretServiceCredentialProvider(path.join(tmpDir, 'missing'));
+
+      await expect(provider.read()).resolves.toBeNull();
+    });
+  });
+
+  describe('CredentialChain', () => {
+    const provider = (
+      source: CredentialProvider['source'],
+      read: CredentialProvider['read'],
+      supported = true
+    ): CredentialProvider => ({ source, isSupported: () => supported, read });
+
+    it('returns the first provider with credentials and reports its source', async () => {
+      const chain = new CredentialChain([
+        provider('env', async () => null),
+        provider('keychain', async () => ({ claudeAiOauth: { accessToken: 'keychain' } }), false),
+        provider('credentials-file', async () => ({ claudeAiOauth: { accessToken: 'file' } })),
+        provider('secret-service', async () => ({ claudeAiOauth: { accessToken: 'secret' } })),
+      ]);
+
+      const resolved = await chain.resolve();
+
+      expect(resolved?.source).toBe('credentials-file');
+      expect(resolved?.credentials.claudeAiOauth?.accessToken).toBe('file');
+    });
+
+    it('falls through providers that throw', async () => {
+      const chain = new CredentialChain([
+        provider('keychain', async () => {
+          throw new Error('Keychain locked');
+        }),
+        provider('secret-service', async () => ({ claudeAiOauth: { accessToken: 'secret' } })),
+      ]);
+
+      const resolved = await chain.resolve();
+      expect(resolved?.source).toBe('secret-service');
+    });
+
+    it('returns null when no provider has credentials', async () => {
+      const chain = new CredentialChain([provider('env', async () => null)]);
+      expect(await chain.resolve()).toBeNull();
+    });
+  });
+});
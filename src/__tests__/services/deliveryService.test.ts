@@ -0,0 +1,166 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DeliveryService, buildPayload, renderTemplate } from '../../services/deliveryService';
+import type { AlertMessage, DeliveryChannel } from '../../types/usage';
+
+const message: AlertMessage = {
+  title: 'Claude Meter: Usage Warning',
+  body: 'Weekly limit is at 82%.',
+  severity: 'warning',
+  timestamp: '2026-01-18T12:00:00.000Z',
+};
+
+const channel = (overrides: Partial<DeliveryChannel> = {}): DeliveryChannel => ({
+  id: 'hook',
+  name: 'Team webhook',
+  type: 'webhook',
+  enabled: true,
+  target: '',
+  template: '[{{severity}}] {{title}}: {{body}}',
+  ...overrides,
+});
+
+describe('renderTemplate', () => {
+  it('fills in message fields and drops unknown variables', () => {
+    expect(renderTemplate('{{ title }} / {{body}} / {{nope}}', message)).toBe(
+      'Claude Meter: Usage Warning / Weekly limit is at 82%. / '
+    );
+    expect(renderTemplate('', message)).toBe(
+      'Claude Meter: Usage Warning: Weekly limit is at 82%.'
+    );
+  });
+
+  it('builds Slack and generic webhook payloads', () => {
+    expect(JSON.parse(buildPayload(channel({ type: 'slack' }), message))).toEqual({
+      text: '[warning] Claude Meter: Usage Warning: Weekly limit is at 82%.',
+    });
+    expect(JSON.parse(buildPayload(channel(), message))).toMatchObject({
+      severity: 'warning',
+      text: '[warning] Claude Meter: Usage Warning: Weekly limit is at 82%.',
+    });
+  });
+});
+
+describe('DeliveryService', () => {
+  let tmpDir: string;
+  let server: http.Server;
+  let url: string;
+  let received: string[];
+  let statuses: number[];
+  let service: DeliveryService;
+  let sleeps: number[];
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-delivery-'));
+    received = [];
+    statuses = [];
+    sleeps = [];
+
+    // Local stand-in for a webhook receiver; answers with the queued statuses, then 200
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push(body);
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+    service = new DeliveryService(path.join(tmpDir, 'delivery-log.jsonl'), {
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('posts to enabled channels only', async () => {
+    service.setSettings({
+      channels: [
+        channel({ target: url, type: 'slack' }),
+        channel({ id: 'off', target: url, enabled: false }),
+      ],
+      maxAttempts: 3,
+    });
+
+    const entries = await service.deliver(message);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ ok: true, attempts: 1, status: 200 });
+    expect(received.map((body) => JSON.parse(body))).toEqual([
+      { text: '[warning] Claude Meter: Usage Warning: Weekly limit is at 82%.' },
+    ]);
+  });
+
+  it('retries server errors with backoff', async () => {
+    statuses = [503, 500];
+    service.setSettings({ channels: [], maxAttempts: 3 });
+
+    const entry = await service.deliverTo(channel({ target: url }), message);
+
+    expect(entry).toMatchObject({ ok: true, attempts: 3, status: 200 });
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  it('does not retry client errors and logs the failure', async () => {
+    statuses = [404];
+    service.setSettings({ channels: [], maxAttempts: 3 });
+
+    const entry = await service.deliverTo(channel({ target: url }), message);
+
+    expect(entry).toMatchObject({ ok: false, attempts: 1, status: 404, error: 'HTTP 404' });
+    expect(service.getLog()).toEqual([entry]);
+  });
+
+  it('runs command hooks with the message in the environment and on stdin', async () => {
+    const output = path.join(tmpDir, 'out.txt');
+    const entry = await service.deliverTo(
+      channel({
+        type: 'command',
+        target: `printf '%s|' "$CLAUDE_METER_MESSAGE" > "${output}"; cat >> "${output}"`,
+      }),
+      message
+    );
+
+    expect(entry.ok).toBe(true);
+    const [text, stdin] = fs.readFileSync(output, 'utf8').split('|');
+    expect(text).toBe('[warning] Claude Meter: Usage Warning: Weekly limit is at 82%.');
+    expect(JSON.parse(stdin)).toEqual(message);
+  });
+
+  it('records failing commands with their exit code', async () => {
+    service.setSettings({ channels: [], maxAttempts: 2 });
+
+    const entry = await service.deliverTo(channel({ type: 'command', target: 'exit 3' }), message);
+
+    expect(entry).toMatchObject({ ok: false, attempts: 2, status: 3 });
+  });
+
+  it('lists the newest deliveries first', async () => {
+    await service.deliverTo(channel({ target: url, name: 'first' }), message);
+    await service.deliverTo(channel({ target: url, name: 'second' }), message);
+
+    expect(service.getLog(1).map((entry) => entry.channelName)).toEqual(['second']);
+  });
+
+  it('skips partially written log lines', async () => {
+    await service.deliverTo(channel({ target: url, name: 'first' }), message);
+    fs.appendFileSync(path.join(tmpDir, 'delivery-log.jsonl'), '{"channelName":"sec\n');
+    await service.deliverTo(channel({ target: url, name: 'third' }), message);
+
+    expect(service.getLog().map((entry) => entry.channelName)).toEqual(['third', 'first']);
+  });
+});
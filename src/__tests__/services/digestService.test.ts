@@ -0,0 +1,312 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DigestScheduler,
+  buildDigest,
+  digestRange,
+  formatDigestNotification,
+  nextDigestTime,
+  renderDigestMarkdown,
+} from '../../services/digestService';
+import type {
+  CalendarSettings,
+  DailyUsage,
+  DigestSettings,
+  UsageStats,
+  UtilizationSample,
+} from '../../types/usage';
+
+const now = new Date('2026-01-18T12:00:00Z'); // A Sunday
+const calendar: CalendarSettings = { timezone: 'UTC', weekStart: 1 };
+
+const day = (date: string, opus: number, sonnet: number): DailyUsage => ({
+  date,
+  totalTokens: (opus + sonnet) * 1000,
+  totalCost: opus + sonnet,
+  models: {
+    'claude-opus-4': { tokens: opus * 1000, cost: opus },
+    'claude-sonnet-4': { tokens: sonnet * 1000, cost: sonnet },
+  },
+});
+
+const days = [
+  day('2026-01-11', 3, 0),
+  day('2026-01-12', 2, 2),
+  day('2026-01-16', 5, 1),
+  day('2026-01-17', 6, 2),
+  day('2026-01-18', 1, 1),
+];
+
+const stats: UsageStats = {
+  today: day('2026-01-18', 1, 1),
+  thisWeek: days.slice(1),
+  oauthUtilization: {
+    fiveHour: { utilization: 20, resetsAt: '2026-01-18T15:00:00Z', formattedTimeRemaining: '3h' },
+    sevenDay: { utilization: 45, resetsAt: '2026-01-21T00:00:00Z', formattedTimeRemaining: '3d' },
+    isAvailable: true,
+  },
+};
+
+const sample = (timestamp: string, fiveHour: number): UtilizationSample => ({
+  timestamp,
+  fiveHour: { utilization: fiveHour, resetsAt: null },
+  sevenDay: { utilization: 40, resetsAt: '2026-01-21T00:00:00Z' },
+});
+
+const samples = [
+  sample('2026-01-17T09:00:00Z', 30),
+  sample('2026-01-17T14:05:00Z', 87),
+  sample('2026-01-17T20:00:00Z', 50),
+];
+
+const settings: DigestSettings = {
+  enabled: true,
+  frequency: 'daily',
+  time: '09:00',
+  weekday: 1,
+  writeReport: true,
+};
+
+describe('buildDigest', () => {
+  it("summarizes yesterday's usage, peak 5-hour utilization and weekly progress", () => {
+    const digest = buildDigest('daily', stats, days, samples, now, calendar);
+
+    expect(digest).toMatchObject({
+      from: '2026-01-17',
+      to: '2026-01-17',
+      totalTokens: 8000,
+      totalCost: 8,
+      peakFiveHour: { utilization: 87, at: '2026-01-17T14:05:00Z' },
+      weekly: { utilization: 45, resetsAt: '2026-01-21T00:00:00Z' },
+    });
+    expect(digest.models.map((model) => model.model)).toEqual(['claude-opus-4', 'claude-sonnet-4']);
+  });
+
+  it('covers the last full week for weekly digests', () => {
+    const digest = buildDigest('weekly', stats, days, samples, now, {
+      ...calendar,
+      weekStart: 0,
+    });
+
+    expect(digest).toMatchObject({ from: '2026-01-11', to: '2026-01-17' });
+    expect(digest.days.map((d) => d.date)).toEqual([
+      '2026-01-11',
+      '2026-01-12',
+      '2026-01-16',
+      '2026-01-17',
+    ]);
+    expect(digest.totalCost).toBe(21);
+    expect(digest.models[0]).toEqual({ model: 'claude-opus-4', tokens: 16000, cost: 16 });
+  });
+
+  it('falls back to the last sample for weekly progress when the API is unavailable', () => {
+    const offline = { ...stats, oauthUtilization: undefined };
+    expect(buildDigest('daily', offline, days, samples, now, calendar).weekly).toEqual({
+      utilization: 40,
+      resetsAt: '2026-01-21T00:00:00Z',
+    });
+    expect(buildDigest('daily', offline, days, [], now, calendar).weekly).toBeUndefined();
+  });
+});
+
+describe('digestRange', () => {
+  it('finds yesterday in the configured time zone', () => {
+    // 03:00 UTC on the 18th is still the evening of the 17th in Los Angeles
+    const early = new Date('2026-01-18T03:00:00Z');
+
+    expect(digestRange('daily', early, calendar)).toEqual({ from: '2026-01-17', to: '2026-01-17' });
+    expect(digestRange('daily', early, { timezone: 'America/Los_Angeles', weekStart: 1 })).toEqual({
+      from: '2026-01-16',
+      to: '2026-01-16',
+    });
+  });
+
+  it('starts weeks on the configured day', () => {
+    expect(digestRange('weekly', now, calendar)).toEqual({ from: '2026-01-05', to: '2026-01-11' });
+    expect(digestRange('weekly', new Date('2026-01-19T12:00:00Z'), calendar)).toEqual({
+      from: '2026-01-12',
+      to: '2026-01-18',
+    });
+  });
+});
+
+describe('formatDigestNotification', () => {
+  it('puts totals, model split, peak and weekly progress into one notification', () => {
+    expect(
+      formatDigestNotification(buildDigest('daily', stats, days, samples, now, calendar))
+    ).toEqual({
+      title: 'Claude Meter: Daily Summary',
+      body: 'Yesterday: 8,000 tokens, $8.00 (claude-opus-4 75%, claude-sonnet-4 25%). Peak 5-hour usage 87%. Weekly limit at 45%.',
+    });
+  });
+});
+
+describe('renderDigestMarkdown', () => {
+  it('renders a report with a model table', () => {
+    const markdown = renderDigestMarkdown(
+      buildDigest('daily', stats, days, samples, now, calendar)
+    );
+
+    expect(markdown).toContain('# Claude Meter daily digest: 2026-01-17');
+    expect(markdown).toContain('| Peak 5-hour utilization | 87% (2026-01-17 14:05 UTC) |');
+    expect(markdown).toContain('| claude-opus-4 | 6,000 | $6.00 | 75% |');
+    expect(markdown).not.toContain('## Days');
+  });
+
+  it('lists every day in weekly reports', () => {
+    const monday = new Date('2026-01-19T12:00:00Z');
+    const markdown = renderDigestMarkdown(
+      buildDigest('weekly', stats, days, samples, monday, calendar)
+    );
+
+    expect(markdown).toContain('# Claude Meter weekly digest: 2026-01-12 to 2026-01-18');
+    expect(markdown).toContain('| 2026-01-16 | 6,000 | $6.00 |');
+  });
+
+  it('shows times in the configured time zone', () => {
+    const markdown = renderDigestMarkdown(
+      buildDigest('daily', stats, days, samples, now, {
+        timezone: 'America/New_York',
+        weekStart: 1,
+      })
+    );
+
+    expect(markdown).toContain('| Peak 5-hour utilization | 87% (2026-01-17 09:05 EST) |');
+  });
+});
+
+describe('nextDigestTime', () => {
+  const newYork = 'America/New_York';
+
+  it('picks today when the time is still ahead, otherwise tomorrow', () => {
+    expect(nextDigestTime(settings, new Date('2026-01-18T13:00:00Z'), newYork)).toEqual(
+      new Date('2026-01-18T14:00:00Z')
+    );
+    expect(nextDigestTime(settings, new Date('2026-01-18T14:00:00Z'), newYork)).toEqual(
+      new Date('2026-01-19T14:00:00Z')
+    );
+  });
+
+  it('waits for the configured weekday for weekly digests', () => {
+    const weekly = { ...settings, frequency: 'weekly' as const };
+    expect(nextDigestTime(weekly, new Date('2026-01-18T13:00:00Z'), newYork)).toEqual(
+      new Date('2026-01-19T14:00:00Z')
+    );
+    expect(nextDigestTime(weekly, new Date('2026-01-19T15:00:00Z'), newYork)).toEqual(
+      new Date('2026-01-26T14:00:00Z')
+    );
+  });
+
+  it('keeps the local time across daylight saving changes', () => {
+    // Clocks go forward on 8 March and back on 1 November 2026
+    expect(nextDigestTime(settings, new Date('2026-03-07T15:00:00Z'), newYork)).toEqual(
+      new Date('2026-03-08T13:00:00Z')
+    );
+    expect(nextDigestTime(settings, new Date('2026-10-31T14:00:00Z'), newYork)).toEqual(
+      new Date('2026-11-01T14:00:00Z')
+    );
+  });
+});
+
+describe('DigestScheduler', () => {
+  let reportsDir: string;
+  let notify: ReturnType<typeof vi.fn>;
+  let loadSamples: ReturnType<typeof vi.fn>;
+  let loadDays: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-reports-'));
+    notify = vi.fn();
+    loadSamples = vi.fn(() => samples);
+    loadDays = vi.fn(async () => days);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(reportsDir, { recursive: true, force: true });
+  });
+
+  const createScheduler = (overrides: Partial<DigestSettings> = {}) =>
+    new DigestScheduler({ ...settings, ...overrides }, calendar, {
+      loadStats: async () => stats,
+      loadDays,
+      loadSamples,
+      notify,
+      reportsDir,
+    });
+
+  it('sends the digest at the configured time and schedules the next one', async () => {
+    vi.setSystemTime(new Date('2026-01-18T08:00:00Z'));
+    const scheduler = createScheduler();
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(59 * 60000);
+    expect(notify).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(scheduler.getNextRun()).toEqual(new Date('2026-01-19T09:00:00Z'));
+    scheduler.stop();
+  });
+
+  it('writes a Markdown report for the covered day', async () => {
+    const scheduler = createScheduler();
+    const digest = await scheduler.runNow(now);
+
+    expect(loadDays).toHaveBeenCalledWith('2026-01-17', '2026-01-17');
+    expect(loadSamples).toHaveBeenCalledWith(
+      new Date('2026-01-17T00:00:00.000Z'),
+      new Date('2026-01-17T23:59:59.999Z')
+    );
+    const report = fs.readFileSync(path.join(reportsDir, 'daily-2026-01-17.md'), 'utf8');
+    expect(report).toBe(renderDigestMarkdown(digest));
+  });
+
+  it('skips the report when disabled', async () => {
+    await createScheduler({ writeReport: false }).runNow(now);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(fs.readdirSync(reportsDir)).toEqual([]);
+  });
+
+  it('sends a digest that came due while the machine slept', async () => {
+    vi.setSystemTime(new Date('2026-01-18T08:00:00Z'));
+    const scheduler = createScheduler();
+    scheduler.start();
+
+    scheduler.resume(new Date('2026-01-18T11:00:00Z'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it('sends a missed digest once even if the old timer fires while it loads', async () => {
+    vi.setSystemTime(new Date('2026-01-18T08:00:00Z'));
+    const scheduler = new DigestScheduler(settings, calendar, {
+      loadStats: () => new Promise((resolve) => setTimeout(() => resolve(stats), 2 * 60 * 60000)),
+      loadDays,
+      loadSamples,
+      notify,
+      reportsDir,
+    });
+    scheduler.start();
+
+    scheduler.resume(new Date('2026-01-18T11:00:00Z'));
+    await vi.advanceTimersByTimeAsync(4 * 60 * 60000);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(scheduler.getNextRun()).toEqual(new Date('2026-01-19T09:00:00Z'));
+    scheduler.stop();
+  });
+
+  it('does nothing while disabled', () => {
+    const scheduler = createScheduler({ enabled: false });
+    scheduler.start();
+
+    expect(scheduler.getNextRun()).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXPORT_SCHEMA_VERSION,
+  buildExport,
+  exportFileName,
+  renderCsv,
+  renderJsonl,
+  renderMarkdown,
+} from '../../services/exportService';
+import type { DailyUsage, ExportQuery, UtilizationSample } from '../../types/usage';
+
+const query: ExportQuery = { from: '2026-01-01', to: '2026-01-31', format: 'csv' };
+const generatedAt = new Date('2026-02-01T08:00:00Z');
+
+const days: DailyUsage[] = [
+  {
+    date: '2026-01-03',
+    totalTokens: 3000,
+    totalCost: 4.5,
+    models: {
+      'claude-opus-4': { tokens: 2000, cost: 4 },
+      'claude-sonnet-4': { tokens: 1000, cost: 0.5 },
+    },
+  },
+  {
+    date: '2026-01-02',
+    totalTokens: 1000,
+    totalCost: 1.123456,
+    models: { 'claude-sonnet-4': { tokens: 1000, cost: 1.123456 } },
+  },
+  {
+    date: '2025-12-31',
+    totalTokens: 500,
+    totalCost: 1,
+    models: { 'claude-sonnet-4': { tokens: 500, cost: 1 } },
+  },
+];
+
+const samples: UtilizationSample[] = [
+  {
+    timestamp: '2026-01-02T10:00:00.000Z',
+    fiveHour: { utilization: 40, resetsAt: null },
+    sevenDay: { utilization: 12, resetsAt: null },
+    sevenDayOpus: { utilization: 5, resetsAt: null },
+  },
+  {
+    timestamp: '2026-01-02T14:00:00.000Z',
+    fiveHour: { utilization: 75, resetsAt: null },
+    sevenDay: { utilization: 15, resetsAt: null },
+  },
+];
+
+const data = buildExport(query, days, samples, 'UTC', generatedAt);
+
+describe('buildExport', () => {
+  it('keeps the days in range, oldest first', () => {
+    expect(data.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(data.days.map((day) => day.date)).toEqual(['2026-01-02', '2026-01-03']);
+  });
+
+  it('names files after the range and format', () => {
+    expect(exportFileName(query)).toBe('claude-usage-2026-01-01-to-2026-01-31.csv');
+    expect(exportFileName({ ...query, format: 'markdown' })).toBe(
+      'claude-usage-2026-01-01-to-2026-01-31.md'
+    );
+  });
+});
+
+describe('renderCsv', () => {
+  it('writes day, model and utilization rows into one table', () => {
+    const lines = renderCsv(data).trim().split('\n');
+
+    expect(lines[0]).toBe(
+      'schema_version,record,date,timestamp,model,tokens,cost_usd,five_hour_pct,seven_day_pct,seven_day_sonnet_pct,seven_day_opus_pct'
+    );
+    expect(lines[1]).toBe('1,day,2026-01-02,,,1000,1.1235,,,,');
+    expect(lines[2]).toBe('1,model,2026-01-02,,claude-sonnet-4,1000,1.1235,,,,');
+    expect(lines).toContain('1,utilization,2026-01-02,2026-01-02T10:00:00.000Z,,,,40,12,,5');
+    expect(lines).toHaveLength(1 + 2 + 3 + 2);
+  });
+
+  it('quotes cells containing commas or quotes', () => {
+    const odd = buildExport(
+      query,
+      [
+        {
+          date: '2026-01-05',
+          totalTokens: 1,
+          totalCost: 0,
+          models: { 'a,"b"': { tokens: 1, cost: 0 } },
+        },
+      ],
+      [],
+      'UTC'
+    );
+    expect(renderCsv(odd)).toContain('"a,""b"""');
+  });
+});
+
+describe('renderJsonl', () => {
+  it('starts with a header carrying the schema version', () => {
+    const lines = renderJsonl(data)
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(lines[0]).toEqual({
+      record: 'header',
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      generatedAt: '2026-02-01T08:00:00.000Z',
+      timeZone: 'UTC',
+      from: '2026-01-01',
+      to: '2026-01-31',
+    });
+    expect(lines[1]).toEqual({ record: 'day', date: '2026-01-02', tokens: 1000, costUsd: 1.1235 });
+    expect(lines.at(-1)).toEqual({
+      record: 'utilization',
+      date: '2026-01-02',
+      timestamp: '2026-01-02T14:00:00.000Z',
+      fiveHour: 75,
+      sevenDay: 15,
+    });
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders totals, models, days and daily utilization peaks', () => {
+    const markdown = renderMarkdown(data);
+
+    expect(markdown).toContain('# Claude usage report: 2026-01-01 to 2026-01-31');
+    expect(markdown).toContain('| Total cost | $5.62 |');
+    expect(markdown).toContain('| claude-opus-4 | 2,000 | $4.00 | 71% |');
+    expect(markdown).toContain('| 2026-01-03 | 3,000 | $4.50 |');
+    expect(markdown).toContain('| 2026-01-02 | 75% | 15% | 2 |');
+  });
+
+  it('groups utilization by calendar day in the export time zone', () => {
+    // Sydney is UTC+11 in January: 14:00 UTC is already 3 January there
+    const sydney = buildExport(query, days, samples, 'Australia/Sydney', generatedAt);
+    const markdown = renderMarkdown(sydney);
+
+    expect(markdown).toContain('Days are calendar days in Australia/Sydney');
+    expect(markdown).toContain('| 2026-01-02 | 40% | 12% | 1 |');
+    expect(markdown).toContain('| 2026-01-03 | 75% | 15% | 1 |');
+    expect(renderCsv(sydney)).toContain('1,utilization,2026-01-03,2026-01-02T14:00:00.000Z,');
+  });
+});
@@ -0,0 +1,132 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ClaudeUsageData } from '../../services/claudeOAuthService';
+import { HistoryService } from '../../services/historyService';
+
+const usage = (fiveHour: number, sevenDay = 10): ClaudeUsageData => ({
+  five_hour: { utilization: fiveHour, resets_at: '2026-01-18T17:00:00Z' },
+  seven_day: { utilization: sevenDay, resets_at: '2026-01-25T00:00:00Z' },
+  seven_day_sonnet: { utilization: 4, resets_at: null },
+  seven_day_opus: null,
+  extra_usage: { is_enabled: true, monthly_limit: 50, used_credits: 5, utilization: 10 },
+});
+
+describe('HistoryService', () => {
+  let historyDir: string;
+  let service: HistoryService;
+
+  beforeEach(() => {
+    historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-history-'));
+    service = new HistoryService(historyDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(historyDir, { recursive: true, force: true });
+  });
+
+  describe('record', () => {
+    it('appends samples to a per-day JSONL file', () => {
+      service.record(usage(15), new Date('2026-01-18T10:00:00Z'));
+      service.record(usage(20), new Date('2026-01-18T10:00:30Z'));
+
+      const lines = fs
+        .readFileSync(path.join(historyDir, '2026-01-18.jsonl'), 'utf8')
+        .trim()
+        .split('\n');
+      expect(lines).toHaveLength(2);
+    });
+
+    it('maps every OAuth field into the sample', () => {
+      service.record(usage(15), new Date('2026-01-18T10:00:00Z'));
+
+      const [sample] = service.getSamples(
+        new Date('2026-01-18T00:00:00Z'),
+        new Date('2026-01-18T23:59:59Z')
+      );
+
+      expect(sample).toEqual({
+        timestamp: '2026-01-18T10:00:00.000Z',
+        fiveHour: { utilization: 15, resetsAt: '2026-01-18T17:00:00Z' },
+        sevenDay: { utilization: 10, resetsAt: '2026-01-25T00:00:00Z' },
+        sevenDaySonnet: { utilization: 4, resetsAt: null },
+        extraUsage: { isEnabled: true, monthlyLimit: 50, usedCredits: 5, utilization: 10 },
+      });
+    });
+  });
+
+  describe('getSamples', () => {
+    it('returns samples across days within the range, oldest first', () => {
+      service.record(usage(30), new Date('2026-01-17T23:00:00Z'));
+      service.record(usage(10), new Date('2026-01-17T08:00:00Z'));
+      service.record(usage(40), new Date('2026-01-18T01:00:00Z'));
+      service.record(usage(50), new Date('2026-01-19T01:00:00Z'));
+
+      const samples = service.getSamples(
+        new Date('2026-01-17T12:00:00Z'),
+        new Date('2026-01-18T12:00:00Z')
+      );
+
+      expect(samples.map((s) => s.fiveHour.utilization)).toEqual([30, 40]);
+    });
+
+    it('returns an empty list for an inverted range', () => {
+      service.record(usage(30), new Date('2026-01-18T10:00:00Z'));
+
+      expect(
+        service.getSamples(new Date('2026-01-19T00:00:00Z'), new Date('2026-01-18T00:00:00Z'))
+      ).toEqual([]);
+    });
+
+    it('skips malformed lines', () => {
+      service.record(usage(30), new Date('2026-01-18T10:00:00Z'));
+      fs.appendFileSync(path.join(historyDir, '2026-01-18.jsonl'), '{"timestamp":\n');
+
+      const samples = service.getSamples(
+        new Date('2026-01-18T00:00:00Z'),
+        new Date('2026-01-18T23:59:59Z')
+      );
+      expect(samples).toHaveLength(1);
+    });
+  });
+
+  describe('compact', () => {
+    it('keeps the hourly peak for days past the raw retention window', () => {
+      service.record(usage(10), new Date('2026-01-01T10:05:00Z'));
+      service.record(usage(35), new Date('2026-01-01T10:20:00Z'));
+      service.record(usage(20), new Date('2026-01-01T10:50:00Z'));
+      service.record(usage(40), new Date('2026-01-01T11:10:00Z'));
+
+      service.compact(new Date('2026-01-18T12:00:00Z'));
+
+      const samples = service.getSamples(
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-01-01T23:59:59Z')
+      );
+      expect(samples.map((s) => s.fiveHour.utilization)).toEqual([35, 40]);
+      expect(samples.every((s) => s.compacted)).toBe(true);
+    });
+
+    it('leaves recent days at full resolution', () => {
+      service.record(usage(10), new Date('2026-01-17T10:05:00Z'));
+      service.record(usage(35), new Date('2026-01-17T10:20:00Z'));
+
+      service.compact(new Date('2026-01-18T12:00:00Z'));
+
+      const samples = service.getSamples(
+        new Date('2026-01-17T00:00:00Z'),
+        new Date('2026-01-17T23:59:59Z')
+      );
+      expect(samples).toHaveLength(2);
+    });
+
+    it('deletes days older than the maximum retention', () => {
+      service.record(usage(10), new Date('2025-09-01T10:00:00Z'));
+
+      service.compact(new Date('2026-01-18T12:00:00Z'));
+
+      expect(fs.existsSync(path.join(historyDir, '2025-09-01.jsonl'))).toBe(false);
+    });
+  });
+});
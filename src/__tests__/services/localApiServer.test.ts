@@ -0,0 +1,168 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type LocalApiDataSource, LocalApiServer } from '../../services/localApiServer';
+import { MetricsExporter } from '../../services/metricsExporter';
+import type { MenuBarData, UsageStats } from '../../types/usage';
+
+const menuBarData: MenuBarData = {
+  percentageUsed: 42,
+  cost: 3.5,
+  status: 'safe',
+};
+
+const usageStats: UsageStats = {
+  today: { date: '2026-01-18', totalTokens: 1200, totalCost: 3.5, models: {} },
+  thisWeek: [],
+};
+
+const dataSource: LocalApiDataSource = {
+  getMenuBarData: async () => menuBarData,
+  getUsageStats: async () => usageStats,
+};
+
+// A port the OS just handed out, so tests don't collide on a fixed one
+const freePort = (): Promise<number> =>
+  new Promise((resolve) => {
+    const probe = net.createServer();
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+describe('LocalApiServer', () => {
+  let tmpDir: string;
+  let server: LocalApiServer;
+  let baseUrl: string;
+  let token: string;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-meter-api-'));
+    server = new LocalApiServer(dataSource, path.join(tmpDir, 'api-token'));
+    await server.start(await freePort());
+    baseUrl = `http://127.0.0.1:${server.getPort()}`;
+    token = fs.readFileSync(server.getTokenPath(), 'utf8').trim();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes an owner-only token file', () => {
+    expect(token).toMatch(/^[0-9a-f]{48}$/);
+    expect(fs.statSync(server.getTokenPath()).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects requests without the token', async () => {
+    const response = await fetch(`${baseUrl}/v1/menubar`);
+    expect(response.status).toBe(401);
+
+    const wrong = await fetch(`${baseUrl}/v1/menubar`, {
+      headers: { Authorization: 'Bearer nope' },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('serves menu bar data and stats as JSON', async () => {
+    const headers = { Authorization: `Bearer ${token}` };
+
+    const menubar = await fetch(`${baseUrl}/v1/menubar`, { headers });
+    expect(menubar.status).toBe(200);
+    expect(await menubar.json()).toEqual(menuBarData);
+
+    const stats = await fetch(`${baseUrl}/v1/stats?token=${token}`);
+    expect(await stats.json()).toEqual(usageStats);
+
+    const oauth = await fetch(`${baseUrl}/v1/oauth`, { headers });
+    expect(await oauth.json()).toBeNull();
+  });
+
+  it('returns 404 for unknown routes', async () => {
+    const response = await fetch(`${baseUrl}/v1/unknown`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('serves /metrics only when an exporter is attached', async () => {
+    const headers = { Authorization: `Bearer ${token}` };
+    expect((await fetch(`${baseUrl}/metrics`, { headers })).status).toBe(404);
+
+    const exporter = new MetricsExporter();
+    exporter.update(usageStats, { network: 2 });
+    server.setMetricsExporter(exporter);
+
+    const response = await fetch(`${baseUrl}/metrics`, { headers });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+    expect(await response.text()).toContain('claude_meter_fetch_errors_total{kind="network"} 2');
+  });
+
+  it('streams usage events to SSE clients', async () => {
+    const events: string[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const req = http.get(`${baseUrl}/v1/events?token=${token}`, (res) => {
+        expect(res.headers['content-type']).toBe('text/event-stream');
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          events.push(chunk);
+          if (events.length === 1) {
+            server.broadcast('usage', { ...menuBarData, percentageUsed: 50 });
+          } else {
+            req.destroy();
+            resolve();
+          }
+        });
+      });
+      req.on('error', reject);
+    });
+
+    expect(events[0]).toBe(`event: usage\ndata: ${JSON.stringify(menuBarData)}\n\n`);
+    expect(events[1]).toContain('"percentageUsed":50');
+  });
+
+  it('reuses an existing token across restarts', async () => {
+    await server.stop();
+    await server.start(await freePort());
+
+    expect(fs.readFileSync(server.getTokenPath(), 'utf8').trim()).toBe(token);
+  });
+
+  it('rejects ports outside 1024-65535', async () => {
+    await expect(server.start(0)).rejects.toThrow('between 1024 and 65535');
+    await expect(server.start(80)).rejects.toThrow('between 1024 and 65535');
+    expect(server.isRunning()).toBe(true);
+  });
+
+  it('keeps the running server when the new port is taken', async () => {
+    const port = server.getPort();
+    const blocker = http.createServer();
+    const taken = await freePort();
+    await new Promise<void>((resolve) => blocker.listen(taken, '127.0.0.1', resolve));
+
+    try {
+      await expect(server.start(taken)).rejects.toThrow('EADDRINUSE');
+      expect(server.getPort()).toBe(port);
+      const response = await fetch(`${baseUrl}/v1/menubar`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(response.status).toBe(200);
+    } finally {
+      await new Promise<void>((resolve) => blocker.close(() => resolve()));
+    }
+  });
+
+  it('moves to a new port', async () => {
+    const port = await freePort();
+    await server.start(port);
+
+    expect(server.getPort()).toBe(port);
+    await expect(fetch(baseUrl)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { consoleLogger, logger, quietLogger, setLogger } from '../../services/logger';
+
+describe('logger', () => {
+  afterEach(() => {
+    setLogger(consoleLogger);
+    vi.restoreAllMocks();
+  });
+
+  it('logs to the console by default', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    logger.error('Error loading settings:', 'boom');
+
+    expect(error).toHaveBeenCalledWith('Error loading settings:', 'boom');
+  });
+
+  it('stays silent with the quiet logger', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setLogger(quietLogger);
+
+    logger.error('Error loading settings:', 'boom');
+
+    expect(error).not.toHaveBeenCalled();
+  });
+});
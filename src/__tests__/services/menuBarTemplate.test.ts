@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseTemplate,
+  renderTemplate,
+  templateForDisplayMode,
+  usesCostSource,
+  validateTemplate,
+} from '../../services/menuBarTemplate';
+import type { MenuBarData } from '../../types/usage';
+
+const resetsAt = new Date(2026, 0, 15, 14, 30).toISOString();
+
+const data: MenuBarData = {
+  percentageUsed: 44.6,
+  cost: 1.5,
+  todayCost: 4.2,
+  sessionCost: 1.5,
+  status: 'warning',
+  limits: [
+    { limit: 'fiveHour', label: '5-hour', utilization: 44.6, level: 'safe' },
+    { limit: 'sevenDay', label: 'Weekly', utilization: 71.2, level: 'warning' },
+  ],
+  oauthUtilization: {
+    fiveHour: { utilization: 44.6, resetsAt, formattedTimeRemaining: '2h 30m' },
+    sevenDay: { utilization: 71.2, resetsAt, formattedTimeRemaining: '3d 5h' },
+    isAvailable: true,
+    credentialSource: 'keychain',
+  },
+  account: 'Work',
+};
+
+describe('menuBarTemplate', () => {
+  it('fills in utilization, costs and reset times', () => {
+    expect(renderTemplate('{5h}% · {7d}% · ${today} · ⏳{5h_reset}', data)).toBe(
+      '45% · 71% · $4.20 · ⏳2h 30m'
+    );
+    expect(renderTemplate('{account}: ${session} until {5h_resets_at}', data)).toBe(
+      'Work: $1.50 until 14:30'
+    );
+    expect(renderTemplate('{7d_status} via {source}', data)).toBe('warning via keychain');
+  });
+
+  it('renders missing values as "--"', () => {
+    const unavailable = {
+      ...data,
+      limits: [],
+      oauthUtilization: {
+        ...data.oauthUtilization,
+        isAvailable: false,
+      } as MenuBarData['oauthUtilization'],
+    };
+
+    expect(renderTemplate('{percent}% · {7d}% · {7d_reset} · {7d_opus}%', unavailable)).toBe(
+      '--% · --% · -- · --%'
+    );
+  });
+
+  it('uses the busiest account for aggregate limits', () => {
+    const aggregate: MenuBarData = {
+      ...data,
+      limits: [
+        { limit: 'fiveHour', label: 'Personal: 5-hour', utilization: 90, level: 'critical' },
+        { limit: 'fiveHour', label: 'Work: 5-hour', utilization: 30, level: 'safe' },
+      ],
+    };
+
+    expect(renderTemplate('{5h}% {5h_status}', aggregate)).toBe('90% critical');
+  });
+
+  it('reports unknown tokens and unbalanced braces', () => {
+    expect(validateTemplate('{5h}% · ${today}')).toEqual([]);
+    expect(validateTemplate('{5h} {weekly} {constructor}')).toEqual([
+      'Unknown token {weekly}',
+      'Unknown token {constructor}',
+    ]);
+    expect(validateTemplate('{5h')).toEqual(['Unclosed "{" at position 1']);
+    expect(validateTemplate('5h}')).toEqual(['Unmatched "}" at position 3']);
+    expect(validateTemplate('  ')).toEqual(['The template is empty']);
+  });
+
+  it('treats doubled braces as literal text', () => {
+    expect(parseTemplate('{{{5h}}}')).toEqual({
+      segments: [{ text: '{' }, { token: '5h' }, { text: '}' }],
+      errors: [],
+    });
+    expect(renderTemplate('{{{5h}}}', data)).toBe('{45}');
+  });
+
+  it('maps the old display modes to templates', () => {
+    expect(templateForDisplayMode('both')).toBe('{percent}% · ${cost}');
+    expect(templateForDisplayMode('percentage')).toBe('{percent}%');
+    expect(templateForDisplayMode('cost')).toBe('${cost}');
+    expect(templateForDisplayMode('alternate')).toBe('{percent}% · ${cost}');
+    expect(templateForDisplayMode(undefined)).toBe('{percent}% · ${cost}');
+  });
+
+  it('knows when the cost source matters', () => {
+    expect(usesCostSource('{percent}% · ${cost}')).toBe(true);
+    expect(usesCostSource('{5h}% · ${today}')).toBe(false);
+  });
+});
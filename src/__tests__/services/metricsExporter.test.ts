@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { MetricsExporter, renderMetrics } from '../../services/metricsExporter';
+import type { UsageStats } from '../../types/usage';
+
+const now = new Date('2026-01-18T12:00:00Z');
+
+const stats: UsageStats = {
+  today: {
+    date: '2026-01-18',
+    totalTokens: 1500,
+    totalCost: 2.35,
+    models: {
+      'claude-sonnet-4': { tokens: 1000, cost: 1.2 },
+      'claude-opus-4': { tokens: 500, cost: 1.15 },
+    },
+  },
+  thisWeek: [],
+  oauthUtilization: {
+    fiveHour: { utilization: 45, resetsAt: '2026-01-18T14:00:00Z', formattedTimeRemaining: '2h' },
+    sevenDay: { utilization: 20, resetsAt: '2026-01-25T00:00:00Z', formattedTimeRemaining: '6d' },
+    sevenDaySonnet: { utilization: 4, resetsAt: null, formattedTimeRemaining: 'N/A' },
+    isAvailable: true,
+  },
+};
+
+describe('renderMetrics', () => {
+  it('exports utilization and seconds until reset per limit', () => {
+    const text = renderMetrics(stats, {}, null, now);
+
+    expect(text).toContain('# TYPE claude_meter_utilization_percent gauge');
+    expect(text).toContain('claude_meter_utilization_percent{limit="five_hour"} 45');
+    expect(text).toContain('claude_meter_utilization_percent{limit="seven_day_sonnet"} 4');
+    expect(text).toContain('claude_meter_reset_seconds{limit="five_hour"} 7200');
+    expect(text).not.toContain('limit="seven_day_opus"');
+    expect(text).toContain('claude_meter_oauth_available 1');
+  });
+
+  it("exports today's cost and tokens per model", () => {
+    const text = renderMetrics(stats, {}, null, now);
+
+    expect(text).toContain('claude_meter_today_cost_usd 2.35');
+    expect(text).toContain('claude_meter_today_tokens{model="claude-sonnet-4"} 1000');
+    expect(text).toContain('claude_meter_today_model_cost_usd{model="claude-opus-4"} 1.15');
+  });
+
+  it('exports fetch error counters', () => {
+    const text = renderMetrics(null, { rate_limited: 3, network: 1 }, null, now);
+
+    expect(text).toContain('# TYPE claude_meter_fetch_errors_total counter');
+    expect(text).toContain('claude_meter_fetch_errors_total{kind="rate_limited"} 3');
+    expect(text).toContain('claude_meter_fetch_errors_total{kind="network"} 1');
+    expect(text).not.toContain('claude_meter_today_cost_usd');
+  });
+
+  it('escapes label values', () => {
+    const text = renderMetrics(
+      { ...stats, today: { ...stats.today, models: { 'a"b\\c': { tokens: 1, cost: 0 } } } },
+      {},
+      null,
+      now
+    );
+
+    expect(text).toContain('claude_meter_today_tokens{model="a\\"b\\\\c"} 1');
+  });
+});
+
+describe('MetricsExporter', () => {
+  it('renders the last snapshot it was given', () => {
+    const exporter = new MetricsExporter();
+    expect(exporter.render(now)).not.toContain('claude_meter_utilization_percent');
+
+    exporter.update(stats, { server_error: 1 });
+    const text = exporter.render(now);
+
+    expect(text).toContain('claude_meter_utilization_percent{limit="seven_day"} 20');
+    expect(text).toContain('claude_meter_fetch_errors_total{kind="server_error"} 1');
+    expect(text).toMatch(/claude_meter_last_update_timestamp_seconds \d+/);
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotificationService } from '../../services/notificationService';
+import type { AlertRule, UsageStats } from '../../types/usage';
+
+const now = new Date('2026-01-18T12:00:00');
+
+const statsWith = (fiveHour: number, sevenDay = 10, cost = 1): UsageStats => ({
+  today: { date: '2026-01-18', totalTokens: 100, totalCost: cost, models: {} },
+  thisWeek: [],
+  oauthUtilization: {
+    fiveHour: {
+      utilization: fiveHour,
+      resetsAt: '2026-01-18T12:08:00',
+      formattedTimeRemaining: '8m',
+    },
+    sevenDay: { utilization: sevenDay, resetsAt: '', formattedTimeRemaining: '3d' },
+    isAvailable: true,
+  },
+});
+
+const costRule: AlertRule = {
+  id: 'cost',
+  name: 'Expensive day',
+  enabled: true,
+  metric: 'todayCost',
+  threshold: 50,
+  severity: 'info',
+  cooldownMinutes: 60,
+  hysteresis: 10,
+};
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let show: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = new NotificationService();
+    show = vi.fn();
+    service.setSink({ isSupported: () => true, show });
+  });
+
+  it('notifies once when a limit crosses the configured warning threshold', () => {
+    service.setThresholds({ warning: 50, critical: 80 });
+
+    service.checkAndNotify(statsWith(40), now);
+    expect(show).not.toHaveBeenCalled();
+
+    service.checkAndNotify(statsWith(55), now);
+    service.checkAndNotify(statsWith(56), now);
+    expect(show).toHaveBeenCalledTimes(1);
+    expect(show).toHaveBeenCalledWith('Claude Meter: Usage Warning', '5-hour limit is at 55%.');
+  });
+
+  it('reports only the critical alert when a limit jumps past both thresholds', () => {
+    service.setThresholds({
+      warning: 70,
+      critical: 90,
+      perLimit: { sevenDay: { warning: 20, critical: 30 } },
+    });
+
+    service.checkAndNotify(statsWith(10, 35), now);
+
+    expect(show).toHaveBeenCalledWith('Claude Meter: Usage Critical', 'Weekly limit is at 35%.');
+  });
+
+  it('runs user rules alongside the threshold alerts', () => {
+    service.setAlertSettings({ thresholdAlerts: false, rules: [costRule] });
+
+    service.checkAndNotify(statsWith(95, 10, 62.5), now);
+
+    expect(show).toHaveBeenCalledTimes(1);
+    expect(show).toHaveBeenCalledWith('Claude Meter: Expensive day', "Today's cost is $62.50.");
+  });
+
+  it('keeps every user rule that fires on the same value', () => {
+    const veryExpensive: AlertRule = {
+      ...costRule,
+      id: 'cost-100',
+      name: 'Very expensive day',
+      threshold: 100,
+    };
+    service.setAlertSettings({ thresholdAlerts: false, rules: [costRule, veryExpensive] });
+
+    const fired = service.checkAndNotify(statsWith(10, 10, 120), now);
+
+    expect(fired.map((alert) => alert.rule.id)).toEqual(['cost', 'cost-100']);
+    expect(show).toHaveBeenCalledTimes(1);
+    expect(show).toHaveBeenCalledWith(
+      'Claude Meter: Alert',
+      "Expensive day: Today's cost is $120.00. Very expensive day: Today's cost is $120.00."
+    );
+  });
+
+  it('alerts on upcoming resets', () => {
+    service.setAlertSettings({
+      thresholdAlerts: true,
+      rules: [
+        {
+          ...costRule,
+          id: 'reset',
+          name: 'Reset soon',
+          metric: 'resetsIn',
+          limit: 'fiveHour',
+          threshold: 10,
+        },
+      ],
+    });
+
+    service.checkAndNotify(statsWith(10), now);
+
+    expect(show).toHaveBeenCalledWith('Claude Meter: Reset soon', '5-hour limit resets in 8 min.');
+  });
+
+  it('forwards notifications to delivery channels', () => {
+    const deliver = vi.fn(async () => []);
+    service.setDelivery({ deliver });
+
+    service.checkAndNotify(statsWith(95), now);
+
+    expect(deliver).toHaveBeenCalledWith({
+      title: 'Claude Meter: Usage Critical',
+      body: '5-hour limit is at 95%.',
+      severity: 'critical',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('shows the daily summary', () => {
+    service.sendDailySummary({
+      frequency: 'daily',
+      timeZone: 'UTC',
+      from: '2026-01-17',
+      to: '2026-01-17',
+      totalTokens: 1500,
+      totalCost: 2.5,
+      models: [],
+      days: [],
+    });
+
+    expect(show).toHaveBeenCalledWith(
+      'Claude Meter: Daily Summary',
+      'Yesterday: 1,500 tokens, $2.50.'
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type PollOutcome,
+  type PollState,
+  PollingScheduler,
+  computeNextDelay,
+  pollOutcomeFromStats,
+} from '../../services/pollingScheduler';
+import type { PollingSettings, UsageStats } from '../../types/usage';
+
+const settings: PollingSettings = { intervalSeconds: 30, idleIntervalSeconds: 300, adaptive: true };
+const now = Date.parse('2026-01-18T12:00:00Z');
+
+const state = (overrides: Partial<PollState> = {}): PollState => ({
+  consecutiveFailures: 0,
+  previousUtilization: null,
+  lastActivityAt: now,
+  ...overrides,
+});
+
+const delay = (outcome: PollOutcome, pollState: PollState, random = () => 0.5) =>
+  computeNextDelay({ outcome, state: pollState, settings, warningThreshold: 70, now, random });
+
+describe('computeNextDelay', () => {
+  it('uses the configured interval when nothing is happening', () => {
+    expect(delay({ ok: true, utilization: 20 }, state())).toEqual({
+      delayMs: 30000,
+      reason: 'normal',
+    });
+  });
+
+  it('backs off exponentially with jitter on consecutive failures', () => {
+    const low = () => 0;
+    const high = () => 1;
+
+    expect(delay({ ok: false }, state({ consecutiveFailures: 1 }), high).delayMs).toBe(30000);
+    expect(delay({ ok: false }, state({ consecutiveFailures: 3 }), low).delayMs).toBe(60000);
+    expect(delay({ ok: false }, state({ consecutiveFailures: 3 }), high).delayMs).toBe(120000);
+    expect(delay({ ok: false }, state({ consecutiveFailures: 20 }), high).delayMs).toBe(900000);
+  });
+
+  it('waits at least as long as Retry-After', () => {
+    const decision = delay(
+      { ok: false, retryAfterSeconds: 600 },
+      state({ consecutiveFailures: 1 })
+    );
+    expect(decision).toEqual({ delayMs: 600000, reason: 'backoff' });
+  });
+
+  it('polls faster while utilization is climbing', () => {
+    const decision = delay({ ok: true, utilization: 30 }, state({ previousUtilization: 25 }));
+    expect(decision).toEqual({ delayMs: 15000, reason: 'fast' });
+  });
+
+  it('polls faster near the warning threshold', () => {
+    expect(delay({ ok: true, utilization: 62 }, state()).reason).toBe('fast');
+  });
+
+  it('slows down when Claude Code has been idle', () => {
+    const decision = delay(
+      { ok: true, utilization: 20 },
+      state({ lastActivityAt: now - 11 * 60 * 1000 })
+    );
+    expect(decision).toEqual({ delayMs: 300000, reason: 'idle' });
+  });
+
+  it('ignores utilization and activity when adaptive polling is off', () => {
+    const decision = computeNextDelay({
+      outcome: { ok: true, utilization: 85 },
+      state: state({ lastActivityAt: 0 }),
+      settings: { ...settings, adaptive: false },
+      warningThreshold: 70,
+      now,
+      random: () => 0.5,
+    });
+    expect(decision).toEqual({ delayMs: 30000, reason: 'normal' });
+  });
+
+  it('never polls more often than every 10 seconds', () => {
+    const decision = computeNextDelay({
+      outcome: { ok: true, utilization: 90 },
+      state: state(),
+      settings: { ...settings, intervalSeconds: 5 },
+      warningThreshold: 70,
+      now,
+      random: () => 0.5,
+    });
+    expect(decision.delayMs).toBe(10000);
+  });
+});
+
+describe('pollOutcomeFromStats', () => {
+  it('treats OAuth errors as failures but not local file errors', () => {
+    const parseError = {
+      kind: 'parse_error',
+      source: 'ccusage',
+      message: '',
+      timestamp: '',
+    } as const;
+    const stats: UsageStats = {
+      today: { date: '2026-01-18', totalTokens: 10, totalCost: 0, models: {} },
+      thisWeek: [],
+      errors: [
+        parseError,
+        { kind: 'rate_limited', source: 'oauth', message: '', timestamp: '', retryAfter: 90 },
+      ],
+    };
+
+    expect(pollOutcomeFromStats(stats)).toEqual({
+      ok: false,
+      retryAfterSeconds: 90,
+      utilization: undefined,
+      activityMarker: '2026-01-18:10',
+    });
+    expect(pollOutcomeFromStats({ ...stats, errors: [parseError] }).ok).toBe(true);
+  });
+});
+
+describe('PollingScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the task on the computed cadence', async () => {
+    const task = vi.fn(async (): Promise<PollOutcome> => ({ ok: true, utilization: 10 }));
+    const scheduler = new PollingScheduler(task, { settings });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(task).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it('backs off after failures and recovers after a success', async () => {
+    let ok = false;
+    const task = vi.fn(async (): Promise<PollOutcome> => ({ ok, utilization: 10 }));
+    const scheduler = new PollingScheduler(task, { settings, random: () => 1 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(scheduler.getLastDecision()).toEqual({ delayMs: 60000, reason: 'backoff' });
+
+    ok = true;
+    await scheduler.pollNow();
+    expect(scheduler.getLastDecision()).toEqual({ delayMs: 30000, reason: 'normal' });
+    scheduler.stop();
+  });
+
+  it('does not poll while suspended', async () => {
+    const task = vi.fn(async (): Promise<PollOutcome> => ({ ok: true }));
+    const scheduler = new PollingScheduler(task, { settings });
+
+    scheduler.start();
+    scheduler.suspend();
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(task).not.toHaveBeenCalled();
+
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it('stays paused across sleep but still polls on demand', async () => {
+    const task = vi.fn(async (): Promise<PollOutcome> => ({ ok: true }));
+    const scheduler = new PollingScheduler(task, { settings });
+
+    scheduler.start();
+    scheduler.setPaused(true);
+    scheduler.suspend();
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(task).not.toHaveBeenCalled();
+
+    await scheduler.pollNow();
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    scheduler.setPaused(false);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DailyDataEntry,
+  aggregateProjects,
+  formatProjectName,
+  mergeByDate,
+  summarizeUsageRange,
+  toDailyUsage,
+} from '../../services/projectUsage';
+import type { DailyUsage } from '../../types/usage';
+
+const entry = (
+  date: string,
+  project: string,
+  model: string,
+  tokens: number,
+  cost: number
+): DailyDataEntry => ({
+  date,
+  project,
+  inputTokens: tokens,
+  outputTokens: 0,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+  totalCost: cost,
+  modelBreakdowns: [
+    {
+      modelName: model,
+      inputTokens: tokens,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      cost,
+    },
+  ],
+});
+
+const entries = [
+  entry('2026-01-17', '-Users-me-code-api', 'claude-sonnet-4', 100, 1),
+  entry('2026-01-17', '-Users-me-code-web', 'claude-opus-4', 50, 3),
+  entry('2026-01-18', '-Users-me-code-api', 'claude-opus-4', 200, 4),
+  entry('2026-01-18', '-Users-me-code-web', 'claude-sonnet-4', 10, 0.5),
+];
+
+describe('projectUsage', () => {
+  describe('formatProjectName', () => {
+    it('strips the home directory prefix', () => {
+      expect(formatProjectName('-Users-me-code-api')).toBe('code-api');
+      expect(formatProjectName('-home-dev-src-app')).toBe('src-app');
+    });
+
+    it('keeps names it cannot shorten', () => {
+      expect(formatProjectName('unknown')).toBe('unknown');
+    });
+  });
+
+  describe('mergeByDate', () => {
+    it('sums per-project rows into one row per day', () => {
+      const days = mergeByDate(entries.map(toDailyUsage));
+
+      expect(days.map((d) => d.date)).toEqual(['2026-01-17', '2026-01-18']);
+      expect(days[0]).toMatchObject({ totalTokens: 150, totalCost: 4 });
+      expect(days[1].models).toMatchObject({
+        'claude-opus-4': { tokens: 200, cost: 4 },
+        'claude-sonnet-4': { tokens: 10, cost: 0.5 },
+      });
+    });
+
+    it('keeps the token type breakdown per day and model', () => {
+      const counts = {
+        inputTokens: 10,
+        outputTokens: 20,
+        cacheCreationTokens: 30,
+        cacheReadTokens: 40,
+      };
+      const cached: DailyDataEntry = {
+        date: '2026-01-17',
+        ...counts,
+        totalCost: 1,
+        modelBreakdowns: [{ modelName: 'claude-sonnet-4', ...counts, cost: 1 }],
+      };
+      const [day] = mergeByDate([cached, cached].map(toDailyUsage));
+
+      const breakdown = {
+        inputTokens: 20,
+        outputTokens: 40,
+        cacheCreationTokens: 60,
+        cacheReadTokens: 80,
+      };
+      expect(day.totalTokens).toBe(200);
+      expect(day.breakdown).toEqual(breakdown);
+      expect(day.models['claude-sonnet-4']).toEqual({ tokens: 200, cost: 2, breakdown });
+    });
+  });
+
+  describe('aggregateProjects', () => {
+    it('totals each project with its model mix, most expensive first', () => {
+      const projects = aggregateProjects(entries);
+
+      expect(projects.map((p) => p.name)).toEqual(['code-api', 'code-web']);
+      expect(projects[0]).toMatchObject({
+        project: '-Users-me-code-api',
+        totalTokens: 300,
+        totalCost: 5,
+        models: {
+          'claude-sonnet-4': { tokens: 100, cost: 1 },
+          'claude-opus-4': { tokens: 200, cost: 4 },
+        },
+      });
+      expect(projects[0].days.map((d) => d.date)).toEqual(['2026-01-17', '2026-01-18']);
+    });
+
+    it('only includes matching dates', () => {
+      const projects = aggregateProjects(entries, (date) => date === '2026-01-18');
+
+      expect(projects[0]).toMatchObject({ name: 'code-api', totalTokens: 200, totalCost: 4 });
+      expect(projects[1]).toMatchObject({ name: 'code-web', totalTokens: 10, totalCost: 0.5 });
+    });
+  });
+
+  describe('summarizeUsageRange', () => {
+    const day = (date: string, cost: number): DailyUsage => ({
+      date,
+      totalTokens: cost * 1000,
+      totalCost: cost,
+      models: { 'claude-sonnet-4': { tokens: cost * 1000, cost } },
+    });
+
+    it('totals the days in range and merges models', () => {
+      const range = summarizeUsageRange('2026-03-01', '2026-03-31', [
+        day('2026-03-02', 3),
+        day('2026-02-28', 10),
+        day('2026-03-01', 1),
+      ]);
+
+      expect(range.days.map((d) => d.date)).toEqual(['2026-03-01', '2026-03-02']);
+      expect(range.totalCost).toBe(4);
+      expect(range.totalTokens).toBe(4000);
+      expect(range.models).toEqual({ 'claude-sonnet-4': { tokens: 4000, cost: 4 } });
+      expect(range.breakdown).toBeUndefined();
+    });
+
+    it('sums the token breakdown', () => {
+      const range = summarizeUsageRange('2026-01-17', '2026-01-18', entries.map(toDailyUsage));
+
+      expect(range.breakdown).toEqual({
+        inputTokens: 360,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResetNotifier, blockedLimits } from '../../services/resetNotifier';
+import type { OAuthUtilization, ResetNotificationSettings } from '../../types/usage';
+
+const now = Date.parse('2026-01-18T12:00:00Z');
+const inMinutes = (minutes: number) => new Date(now + minutes * 60000).toISOString();
+
+const oauthWith = (fiveHour: number, fiveHourResetsAt = inMinutes(30)): OAuthUtilization => ({
+  fiveHour: { utilization: fiveHour, resetsAt: fiveHourResetsAt, formattedTimeRemaining: '30m' },
+  sevenDay: { utilization: 40, resetsAt: inMinutes(3 * 24 * 60), formattedTimeRemaining: '3d' },
+  isAvailable: true,
+});
+
+const settings: ResetNotificationSettings = {
+  enabled: true,
+  minutesBefore: 0,
+  onlyWhenBlocked: true,
+};
+
+describe('blockedLimits', () => {
+  it('lists exhausted limits, the one resetting last first', () => {
+    const oauth = {
+      ...oauthWith(100),
+      sevenDay: { ...oauthWith(100).sevenDay, utilization: 100 },
+    };
+    expect(blockedLimits(oauth).map((limit) => limit.limit)).toEqual(['sevenDay', 'fiveHour']);
+    expect(blockedLimits(oauthWith(99))).toEqual([]);
+    expect(blockedLimits(undefined)).toEqual([]);
+  });
+});
+
+describe('ResetNotifier', () => {
+  let notify: ReturnType<typeof vi.fn>;
+  let onReset: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    notify = vi.fn();
+    onReset = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies when a blocked limit resets', () => {
+    const notifier = new ResetNotifier(notify, settings, onReset);
+    notifier.update(oauthWith(100), now);
+
+    vi.advanceTimersByTime(30 * 60000 - 1);
+    expect(notify).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(notify).toHaveBeenCalledWith(
+      'Claude Meter: Limit Available',
+      'Your 5-hour limit has reset. Claude Code is available again.'
+    );
+    expect(onReset).toHaveBeenCalledWith('fiveHour');
+  });
+
+  it('names the limit that still blocks Claude Code', () => {
+    const notifier = new ResetNotifier(notify, settings, onReset);
+    const oauth = oauthWith(100);
+    notifier.update({ ...oauth, sevenDay: { ...oauth.sevenDay, utilization: 100 } }, now);
+
+    vi.advanceTimersByTime(30 * 60000);
+    expect(notify).toHaveBeenCalledWith(
+      'Claude Meter: Limit Reset',
+      'Your 5-hour limit has reset, but the Weekly limit is still used up for 2d 23h.'
+    );
+    expect(onReset).toHaveBeenCalledWith('fiveHour');
+    notifier.stop();
+  });
+
+  it('only watches limits at 100% unless told otherwise', () => {
+    const notifier = new ResetNotifier(notify, settings);
+    notifier.update(oauthWith(80), now);
+    expect(notifier.getArmedLimits()).toEqual([]);
+
+    notifier.updateSettings({ ...settings, onlyWhenBlocked: false });
+    notifier.update(oauthWith(80), now);
+    expect(notifier.getArmedLimits()).toEqual(['fiveHour', 'sevenDay']);
+    notifier.stop();
+  });
+
+  it('re-arms when resetsAt moves', () => {
+    const notifier = new ResetNotifier(notify, settings);
+    notifier.update(oauthWith(100, inMinutes(30)), now);
+    notifier.update(oauthWith(100, inMinutes(45)), now);
+
+    vi.advanceTimersByTime(30 * 60000);
+    expect(notify).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(15 * 60000);
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a heads-up before the reset', () => {
+    const notifier = new ResetNotifier(notify, { ...settings, minutesBefore: 10 });
+    notifier.update(oauthWith(100), now);
+
+    vi.advanceTimersByTime(20 * 60000);
+    expect(notify).toHaveBeenCalledWith(
+      'Claude Meter: Limit Resetting Soon',
+      'Your 5-hour limit resets in 10 min.'
+    );
+    notifier.stop();
+  });
+
+  it('disarms when the limit is no longer blocked or notifications are off', () => {
+    const notifier = new ResetNotifier(notify, settings);
+    notifier.update(oauthWith(100), now);
+    notifier.update(oauthWith(20), now);
+    expect(notifier.getArmedLimits()).toEqual([]);
+
+    notifier.updateSettings({ ...settings, enabled: false });
+    notifier.update(oauthWith(100), now);
+    vi.advanceTimersByTime(60 * 60000);
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { type SessionBlock, type SessionEntry, currentSession } from '../../services/sessionWindow';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-01-18T12:00:00Z');
+const at = (hoursAgo: number) => new Date(now.getTime() - hoursAgo * HOUR_MS);
+
+const entry = (hoursAgo: number, cost: number, model = 'claude-sonnet-4'): SessionEntry => ({
+  timestamp: at(hoursAgo),
+  usage: {
+    inputTokens: cost * 100,
+    outputTokens: cost * 50,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: cost * 850,
+  },
+  costUSD: cost,
+  model,
+});
+
+const block = (startHoursAgo: number, entries: SessionEntry[], isActive = false): SessionBlock => ({
+  startTime: at(startHoursAgo),
+  endTime: at(startHoursAgo - 5),
+  actualEndTime: entries[entries.length - 1]?.timestamp,
+  isActive,
+  entries,
+});
+
+// Started 5h10m ago and still running: the old start-time check skipped it entirely
+const longBlock = block(
+  5 + 1 / 6,
+  [entry(5, 10), entry(3, 2), entry(0.5, 1, 'claude-opus-4')],
+  true
+);
+
+describe('currentSession', () => {
+  it('aligns the window to the OAuth reset time', () => {
+    const session = currentSession([longBlock], '2026-01-18T14:00:00Z', now);
+
+    expect(session).toMatchObject({
+      start: '2026-01-18T09:00:00.000Z',
+      end: '2026-01-18T14:00:00.000Z',
+      alignedTo: 'oauth',
+      lastActivity: '2026-01-18T11:30:00.000Z',
+      totalCost: 3,
+      totalTokens: 3000,
+    });
+    expect(session.models).toEqual({
+      'claude-sonnet-4': { tokens: 2000, cost: 2 },
+      'claude-opus-4': { tokens: 1000, cost: 1 },
+    });
+  });
+
+  it('counts only the overlapping part of earlier blocks', () => {
+    // 06:00-11:00 block against the 09:00-14:00 window
+    const earlier = block(6, [entry(5.5, 20), entry(2.75, 4)]);
+    const session = currentSession([earlier], '2026-01-18T14:00:00Z', now);
+
+    expect(session.totalCost).toBe(4);
+    expect(session.lastActivity).toBe('2026-01-18T09:15:00.000Z');
+  });
+
+  it('falls back to the active block without an OAuth reset time', () => {
+    const session = currentSession([longBlock], undefined, now);
+
+    expect(session).toMatchObject({
+      start: at(5 + 1 / 6).toISOString(),
+      alignedTo: 'block',
+      totalCost: 13,
+    });
+  });
+
+  it('ignores a reset time that has already passed', () => {
+    expect(currentSession([longBlock], '2026-01-18T11:00:00Z', now).alignedTo).toBe('block');
+  });
+
+  it('uses the last five hours when nothing is active and skips gap blocks', () => {
+    const gap: SessionBlock = { ...block(4, [entry(4, 50)]), isGap: true };
+    const idle = block(6, [entry(5.5, 8), entry(2, 3)]);
+    const session = currentSession([idle, gap], undefined, now);
+
+    expect(session).toMatchObject({
+      start: '2026-01-18T07:00:00.000Z',
+      end: '2026-01-18T12:00:00.000Z',
+      alignedTo: 'rolling',
+      totalCost: 3,
+    });
+  });
+
+  it('reports an empty window', () => {
+    const session = currentSession([], undefined, now);
+
+    expect(session.totalCost).toBe(0);
+    expect(session.lastActivity).toBeUndefined();
+  });
+});
@@ -20,6 +20,71 @@ vi.mock('node:os', () => ({
   homedir: () => mockHomedir(),
 }));
 
+const defaultSettings: AppSettings = {
+  menuBarTemplate: '{percent}% · ${cost}',
+  menuBarCostSource: 'today',
+  notificationThresholds: {
+    warning: 70,
+    critical: 90,
+  },
+  localApi: {
+    enabled: false,
+    port: 7391,
+    metrics: false,
+  },
+  polling: {
+    intervalSeconds: 30,
+    idleIntervalSeconds: 300,
+    adaptive: true,
+  },
+  alerts: {
+    thresholdAlerts: true,
+    rules: [],
+  },
+  resetNotifications: {
+    enabled: true,
+    minutesBefore: 0,
+    onlyWhenBlocked: true,
+  },
+  delivery: {
+    channels: [],
+    maxAttempts: 3,
+  },
+  digest: {
+    enabled: false,
+    frequency: 'daily',
+    time: '09:00',
+    weekday: 1,
+    writeReport: true,
+  },
+  calendar: {
+    timezone: '',
+    weekStart: 1,
+  },
+  accounts: {
+    accounts: [],
+    activeAccountId: 'default',
+    menuBar: 'active',
+  },
+  trayIcon: {
+    enabled: true,
+    showWeekly: false,
+  },
+  window: {
+    mode: 'popover',
+    pinned: false,
+    bounds: {},
+  },
+  overlay: {
+    enabled: false,
+    corner: 'topRight',
+    opacity: 0.85,
+    showFiveHour: true,
+    showWeekly: true,
+    showCountdown: true,
+  },
+};
+
 describe('SettingsService', () => {
   let service: SettingsService;
   const mockHomeDir = '/mock/home';
@@ -40,19 +105,12 @@ describe('SettingsService', () => {
 
       const settings = await service.loadSettings();
 
-      expect(settings).toEqual({
-        menuBarDisplayMode: 'both',
-        menuBarCostSource: 'today',
-        notificationThresholds: {
-          warning: 70,
-          critical: 90,
-        },
-      });
+      expect(settings).toEqual(defaultSettings);
     });
 
     it('loads settings from file when it exists', async () => {
       const mockSettings = {
-        menuBarDisplayMode: 'percentage',
+        menuBarTemplate: '{5h}% · {7d}%',
         menuBarCostSource: 'sessionWindow',
         notificationThresholds: {
           warning: 80,
@@ -65,10 +123,10 @@ describe('SettingsService', () => {
 
       const settings = await service.loadSettings();
 
-      expect(settings).toEqual(mockSettings);
+      expect(settings).toEqual({ ...defaultSettings, ...mockSettings });
     });
 
-    it('migrates "alternate" display mode to "both"', async () => {
+    it('migrates "alternate" display mode to the percentage and cost template', async () => {
       const mockSettings = {
         menuBarDisplayMode: 'alternate',
         menuBarCostSource: 'today',
@@ -83,12 +141,32 @@ describe('SettingsService', () => {
 
       const settings = await service.loadSettings();
 
-      expect(settings.menuBarDisplayMode).toBe('both');
+      expect(settings.menuBarTemplate).toBe('{percent}% · ${cost}');
+      expect(settings).not.toHaveProperty('menuBarDisplayMode');
+    });
+
+    it('migrates the percentage and cost display modes', async () => {
+      mockExistsSync.mockReturnValue(true);
+
+      mockReadFileSync.mockReturnValue(JSON.stringify({ menuBarDisplayMode: 'percentage' }));
+      expect((await service.loadSettings()).menuBarTemplate).toBe('{percent}%');
+
+      mockReadFileSync.mockReturnValue(JSON.stringify({ menuBarDisplayMode: 'cost' }));
+      expect((await service.loadSettings()).menuBarTemplate).toBe('${cost}');
+    });
+
+    it('keeps a template over an old display mode', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({ menuBarDisplayMode: 'cost', menuBarTemplate: '{7d}%' })
+      );
+
+      expect((await service.loadSettings()).menuBarTemplate).toBe('{7d}%');
     });
 
     it('merges partial settings with defaults', async () => {
       const partialSettings = {
-        menuBarDisplayMode: 'cost',
+        menuBarTemplate: '${today}',
       };
 
       mockExistsSync.mockReturnValue(true);
@@ -97,12 +175,48 @@ describe('SettingsService', () => {
       const settings = await service.loadSettings();
 
       expect(settings).toEqual({
-        menuBarDisplayMode: 'cost',
-        menuBarCostSource: 'today', // from defaults
-        notificationThresholds: {
-          warning: 70, // from defaults
-          critical: 90, // from defaults
-        },
+        ...defaultSettings, // everything else from defaults
+        menuBarTemplate: '${today}',
+      });
+    });
+
+    it('fills in missing local API fields', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ localApi: { enabled: true } }));
+
+      const settings = await service.loadSettings();
+
+      expect(settings.localApi).toEqual({ enabled: true, port: 7391, metrics: false });
+    });
+
+    it('replaces a local API port outside 1024-65535 with the default', async () => {
+      mockExistsSync.mockReturnValue(true);
+      for (const port of [0, 80, 70000, '8080']) {
+        mockReadFileSync.mockReturnValue(JSON.stringify({ localApi: { enabled: true, port } }));
+
+        const settings = await service.loadSettings();
+
+        expect(settings.localApi.port).toBe(7391);
+      }
+    });
+
+    it('keeps configured accounts and fills in the rest', async () => {
+      const account = {
+        id: 'work',
+        name: 'Work',
+        credentialSource: 'auto',
+        configDir: '~/.claude-work',
+        dataDirs: [],
+      };
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ accounts: { accounts: [account] } }));
+
+      const settings = await service.loadSettings();
+
+      expect(settings.accounts).toEqual({
+        accounts: [account],
+        activeAccountId: 'default',
+        menuBar: 'active',
       });
     });
 
@@ -114,21 +228,14 @@ describe('SettingsService', () => {
 
       const settings = await service.loadSettings();
 
-      expect(settings).toEqual({
-        menuBarDisplayMode: 'both',
-        menuBarCostSource: 'today',
-        notificationThresholds: {
-          warning: 70,
-          critical: 90,
-        },
-      });
+      expect(settings).toEqual(defaultSettings);
     });
   });
 
   describe('saveSettings', () => {
     it('saves settings to file', async () => {
       const newSettings: Partial<AppSettings> = {
-        menuBarDisplayMode: 'percentage',
+        menuBarTemplate: '{percent}%',
       };
 
       mockExistsSync.mockReturnValue(false);
@@ -137,14 +244,14 @@ describe('SettingsService', () => {
 
       expect(mockWriteFileSync).toHaveBeenCalledWith(
         expect.stringContaining('.claude-meter/settings.json'),
-        expect.stringContaining('"menuBarDisplayMode": "percentage"'),
+        expect.stringContaining('"menuBarTemplate": "{percent}%"'),
         'utf8'
       );
     });
 
     it('merges new settings with existing settings', async () => {
       const existingSettings = {
-        menuBarDisplayMode: 'both',
+        menuBarTemplate: '{percent}% · ${cost}',
         menuBarCostSource: 'today',
         notificationThresholds: {
           warning: 70,
@@ -156,14 +263,15 @@ describe('SettingsService', () => {
       mockReadFileSync.mockReturnValue(JSON.stringify(existingSettings));
 
       const newSettings: Partial<AppSettings> = {
-        menuBarDisplayMode: 'cost',
+        menuBarTemplate: '${cost}',
       };
 
       await service.saveSettings(newSettings);
 
       const expectedSettings = {
+        ...defaultSettings,
         ...existingSettings,
-        menuBarDisplayMode: 'cost',
+        menuBarTemplate: '${cost}',
       };
 
       expect(mockWriteFileSync).toHaveBeenCalledWith(
@@ -180,7 +288,7 @@ describe('SettingsService', () => {
       });
 
       const newSettings: Partial<AppSettings> = {
-        menuBarDisplayMode: 'percentage',
+        menuBarTemplate: '{percent}%',
       };
 
       await expect(service.saveSettings(newSettings)).rejects.toThrow('Write error');
@@ -191,18 +299,11 @@ describe('SettingsService', () => {
     it('returns a copy of default settings', () => {
       const defaults = service.getDefaultSettings();
 
-      expect(defaults).toEqual({
-        menuBarDisplayMode: 'both',
-        menuBarCostSource: 'today',
-        notificationThresholds: {
-          warning: 70,
-          critical: 90,
-        },
-      });
+      expect(defaults).toEqual(defaultSettings);
 
       // Verify it's a copy, not a reference
-      defaults.menuBarDisplayMode = 'percentage';
-      expect(service.getDefaultSettings().menuBarDisplayMode).toBe('both');
+      defaults.menuBarTemplate = '{percent}%';
+      expect(service.getDefaultSettings().menuBarTemplate).toBe('{percent}% · ${cost}');
     });
   });
 
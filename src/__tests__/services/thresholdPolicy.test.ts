@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateLimits,
+  levelFor,
+  overallLevel,
+  thresholdsFor,
+  worstLevel,
+} from '../../services/thresholdPolicy';
+import type { NotificationThresholds, OAuthUtilization } from '../../types/usage';
+
+const oauth: OAuthUtilization = {
+  fiveHour: { utilization: 45, resetsAt: '', formattedTimeRemaining: '2h' },
+  sevenDay: { utilization: 72, resetsAt: '', formattedTimeRemaining: '3d' },
+  sevenDaySonnet: { utilization: 10, resetsAt: null, formattedTimeRemaining: 'N/A' },
+  extraUsage: { isEnabled: true, monthlyLimit: 50, usedCredits: 47, utilization: 94 },
+  isAvailable: true,
+};
+
+describe('thresholdPolicy', () => {
+  it('falls back to the global thresholds for limits without an override', () => {
+    const thresholds: NotificationThresholds = {
+      warning: 60,
+      critical: 80,
+      perLimit: { sevenDay: { warning: 85, critical: 95 } },
+    };
+
+    expect(thresholdsFor(thresholds, 'fiveHour')).toEqual({ warning: 60, critical: 80 });
+    expect(thresholdsFor(thresholds, 'sevenDay')).toEqual({ warning: 85, critical: 95 });
+    expect(thresholdsFor(undefined, 'fiveHour')).toEqual({ warning: 70, critical: 90 });
+  });
+
+  it('classifies utilization at the threshold boundaries', () => {
+    const levels = { warning: 70, critical: 90 };
+    expect(levelFor(69.9, levels)).toBe('safe');
+    expect(levelFor(70, levels)).toBe('warning');
+    expect(levelFor(90, levels)).toBe('critical');
+  });
+
+  it('evaluates every reported limit', () => {
+    expect(evaluateLimits(oauth, { warning: 70, critical: 90 })).toEqual([
+      { limit: 'fiveHour', label: '5-hour', utilization: 45, level: 'safe' },
+      { limit: 'sevenDay', label: 'Weekly', utilization: 72, level: 'warning' },
+      { limit: 'sevenDaySonnet', label: 'Sonnet weekly', utilization: 10, level: 'safe' },
+      { limit: 'extraUsage', label: 'Extra usage credits', utilization: 94, level: 'critical' },
+    ]);
+  });
+
+  it('skips extra usage when it is disabled and everything when OAuth is unavailable', () => {
+    const disabled = { ...oauth, extraUsage: { ...oauth.extraUsage, isEnabled: false } };
+    expect(evaluateLimits(disabled, undefined).map((s) => s.limit)).not.toContain('extraUsage');
+    expect(evaluateLimits({ ...oauth, isAvailable: false }, undefined)).toEqual([]);
+  });
+
+  it('reports the worst level across limits', () => {
+    expect(overallLevel(oauth, { warning: 70, critical: 90 })).toBe('critical');
+    expect(
+      overallLevel(oauth, {
+        warning: 70,
+        critical: 90,
+        perLimit: { extraUsage: { warning: 95, critical: 99 } },
+      })
+    ).toBe('warning');
+    expect(worstLevel([])).toBe('safe');
+  });
+});
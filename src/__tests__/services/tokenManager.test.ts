@@ -0,0 +1,209 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ClaudeCredentials } from '../../services/claudeOAuthService';
+import { CredentialChain, type CredentialProvider } from '../../services/credentialProviders';
+import { TokenManager } from '../../services/tokenManager';
+
+interface TokenRequest {
+  grant_type: string;
+  refresh_token: string;
+  client_id: string;
+}
+
+describe('TokenManager', () => {
+  let server: http.Server;
+  let tokenUrl: string;
+  let requests: TokenRequest[];
+  let respond: (res: http.ServerResponse) => void;
+  let stored: ClaudeCredentials;
+  let written: ClaudeCredentials[];
+
+  const provider: CredentialProvider = {
+    source: 'credentials-file',
+    isSupported: () => true,
+    read: async () => stored,
+    write: async (credentials) => {
+      written.push(credentials);
+    },
+  };
+
+  const createManager = () =>
+    new TokenManager({ chain: new CredentialChain([provider]), tokenUrl, clientId: 'test-client' });
+
+  beforeEach(async () => {
+    requests = [];
+    written = [];
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          access_token: 'new-access',
+          refresh_token: 'new-refresh',
+          expires_in: 3600,
+        })
+      );
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/oauth/token`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('returns the stored token while it is valid', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      },
+    };
+
+    const manager = createManager();
+
+    expect(await manager.getAccessToken()).toBe('access');
+    expect(manager.getState()).toBe('valid');
+    expect(manager.getSource()).toBe('credentials-file');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('refreshes a token that is about to expire and stores the rotated credentials', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 1000,
+      },
+    };
+
+    const manager = createManager();
+
+    expect(await manager.getAccessToken()).toBe('new-access');
+    expect(requests).toEqual([
+      { grant_type: 'refresh_token', refresh_token: 'refresh', client_id: 'test-client' },
+    ]);
+    expect(written[0].claudeAiOauth?.refreshToken).toBe('new-refresh');
+    expect(manager.getState()).toBe('valid');
+  });
+
+  it('accepts ISO string expiry timestamps', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      },
+    };
+
+    expect(await createManager().getAccessToken()).toBe('new-access');
+  });
+
+  it('refreshes after the API rejects the current token', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      },
+    };
+
+    const manager = createManager();
+    await manager.getAccessToken();
+
+    expect(await manager.forceRefresh('access')).toBe('new-access');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('reports expired credentials when the refresh is rejected', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'revoked',
+        expiresAt: Date.now() - 1000,
+      },
+    };
+    respond = (res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'invalid_grant' }));
+    };
+
+    const manager = createManager();
+
+    expect(await manager.getAccessToken()).toBeNull();
+    expect(manager.getState()).toBe('expired');
+  });
+
+  it('keeps using a token that has not expired yet when refresh fails', async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() + 60 * 1000,
+      },
+    };
+    respond = (res) => {
+      res.writeHead(503);
+      res.end();
+    };
+
+    const manager = createManager();
+
+    expect(await manager.getAccessToken()).toBe('access');
+    expect(manager.getState()).toBe('valid');
+  });
+
+  it("leaves credentials it can't store back for Claude Code to refresh", async () => {
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: Date.now() - 1000,
+      },
+    };
+    const readOnly: CredentialProvider = {
+      source: 'secret-service',
+      isSupported: () => true,
+      read: async () => stored,
+    };
+
+    const manager = new TokenManager({ chain: new CredentialChain([readOnly]), tokenUrl });
+
+    expect(await manager.getAccessToken()).toBeNull();
+    expect(manager.getState()).toBe('expired');
+    expect(manager.getError()?.kind).toBe('credentials_expired');
+    expect(await manager.forceRefresh('access')).toBeNull();
+    expect(requests).toHaveLength(0);
+
+    // Picks up the token once Claude Code has refreshed it
+    stored = {
+      claudeAiOauth: {
+        accessToken: 'refreshed-by-claude-code',
+        refreshToken: 'rotated',
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      },
+    };
+    expect(await manager.getAccessToken()).toBe('refreshed-by-claude-code');
+  });
+
+  it('reports missing credentials when no provider has any', async () => {
+    const manager = new TokenManager({ chain: new CredentialChain([]), tokenUrl });
+
+    expect(await manager.getAccessToken()).toBeNull();
+    expect(manager.getState()).toBe('missing');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { addModelUsage, addTokens, cacheEfficiency } from '../../services/tokenUsage';
+import type { DailyUsage, TokenBreakdown } from '../../types/usage';
+
+const tokens = (
+  inputTokens: number,
+  outputTokens: number,
+  cacheCreationTokens: number,
+  cacheReadTokens: number
+): TokenBreakdown => ({ inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens });
+
+const total = (breakdown: TokenBreakdown) =>
+  breakdown.inputTokens +
+  breakdown.outputTokens +
+  breakdown.cacheCreationTokens +
+  breakdown.cacheReadTokens;
+
+// Sonnet list prices: $3/M input, $15/M output, $3.75/M cache writes, $0.30/M cache reads,
+// so each category below costs $3
+const sonnet = tokens(1_000_000, 200_000, 800_000, 10_000_000);
+
+describe('addTokens', () => {
+  it('sums each category', () => {
+    expect(addTokens(tokens(1, 2, 3, 4), tokens(10, 20, 30, 40))).toEqual(tokens(11, 22, 33, 44));
+  });
+
+  it('keeps whichever side is present', () => {
+    expect(addTokens(undefined, tokens(1, 2, 3, 4))).toEqual(tokens(1, 2, 3, 4));
+    expect(addTokens(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('addModelUsage', () => {
+  it('adds tokens, cost and breakdown per model without touching the source', () => {
+    const source: DailyUsage['models'] = {
+      'claude-sonnet-4': { tokens: 10, cost: 1, breakdown: tokens(1, 2, 3, 4) },
+      'claude-opus-4': { tokens: 5, cost: 2 },
+    };
+    const target: DailyUsage['models'] = {
+      'claude-sonnet-4': { tokens: 10, cost: 1, breakdown: tokens(1, 2, 3, 4) },
+    };
+
+    addModelUsage(target, source);
+    addModelUsage(target, { 'claude-opus-4': { tokens: 5, cost: 2 } });
+
+    expect(target).toEqual({
+      'claude-sonnet-4': { tokens: 20, cost: 2, breakdown: tokens(2, 4, 6, 8) },
+      'claude-opus-4': { tokens: 10, cost: 4, breakdown: undefined },
+    });
+    expect(source['claude-opus-4']).toEqual({ tokens: 5, cost: 2 });
+  });
+});
+
+describe('cacheEfficiency', () => {
+  it('derives hit rate and savings from the model cost', () => {
+    const { models } = cacheEfficiency({
+      'claude-sonnet-4': { tokens: total(sonnet), cost: 12, breakdown: sonnet },
+    });
+
+    expect(models).toHaveLength(1);
+    expect(models[0].hitRate).toBeCloseTo(10 / 11.8);
+    // 10M cache reads at $3/M instead of $0.30/M
+    expect(models[0].estimatedSavings).toBeCloseTo(27);
+  });
+
+  it('sorts models by cost, skips those without a breakdown and sums savings', () => {
+    // Opus costs five times Sonnet per token
+    const opus = tokens(100_000, 0, 0, 900_000);
+    const { models, total: all } = cacheEfficiency({
+      'claude-sonnet-4': { tokens: total(sonnet), cost: 12, breakdown: sonnet },
+      'claude-opus-4': { tokens: total(opus), cost: 15 * 0.19, breakdown: opus },
+      legacy: { tokens: 100, cost: 50 },
+    });
+
+    expect(models.map((row) => row.model)).toEqual(['claude-sonnet-4', 'claude-opus-4']);
+    expect(models[1].hitRate).toBeCloseTo(0.9);
+    expect(models[1].estimatedSavings).toBeCloseTo(0.9 * 15 * 0.9);
+    expect(all.model).toBe('All models');
+    expect(all.breakdown).toEqual(tokens(1_100_000, 200_000, 800_000, 10_900_000));
+    expect(all.estimatedSavings).toBeCloseTo(27 + 12.15);
+  });
+
+  it('reports zeros when nothing was used', () => {
+    const { total: all } = cacheEfficiency({
+      idle: { tokens: 0, cost: 0, breakdown: tokens(0, 0, 0, 0) },
+    });
+
+    expect(all.hitRate).toBe(0);
+    expect(all.estimatedSavings).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import {
+  type TrayGauge,
+  encodePng,
+  gaugeFromMenuBar,
+  prefersTemplate,
+  renderGauge,
+  renderTrayIcon,
+} from '../../services/trayIcon';
+import type { MenuBarData } from '../../types/usage';
+
+/**
+ * Minimal PNG reader for the encoder's output (RGBA, filter type 0 on every row)
+ */
+const decodePng = (png: Buffer) => {
+  const chunks: { type: string; data: Buffer; crc: number }[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    chunks.push({
+      type: png.toString('ascii', offset + 4, offset + 8),
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: png.readUInt32BE(offset + 8 + length),
+    });
+    offset += length + 12;
+  }
+
+  const header = chunks[0].data;
+  const width = header.readUInt32BE(0);
+  const raw = inflateSync(
+    Buffer.concat(chunks.filter((c) => c.type === 'IDAT').map((c) => c.data))
+  );
+  const pixel = (x: number, y: number) => {
+    const offset = y * (width * 4 + 1) + 1 + x * 4;
+    return [...raw.subarray(offset, offset + 4)];
+  };
+
+  return { chunks, width, height: header.readUInt32BE(4), pixel };
+};
+
+const ring = (utilization: number, level: 'safe' | 'warning' | 'critical' = 'safe') => ({
+  utilization,
+  level,
+});
+
+describe('trayIcon', () => {
+  it('renders 1x and 2x PNGs', () => {
+    const icons = renderTrayIcon({ fiveHour: ring(40) }, 'dark');
+
+    expect(icons.map((icon) => icon.scaleFactor)).toEqual([1, 2]);
+    for (const { scaleFactor, png } of icons) {
+      expect(png.subarray(0, 8)).toEqual(Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]));
+      const { chunks, width, height } = decodePng(png);
+      expect(chunks.map((c) => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+      expect(chunks[2].crc).toBe(0xae426082);
+      expect([width, height]).toEqual([16 * scaleFactor, 16 * scaleFactor]);
+    }
+  });
+
+  it('fills the ring clockwise from 12 o’clock in the status color', () => {
+    const [, { png }] = renderTrayIcon({ fiveHour: ring(50) }, 'dark');
+    const { pixel } = decodePng(png);
+
+    // 3 o'clock is inside the first half, 9 o'clock is not
+    expect(pixel(29, 16)).toEqual([34, 197, 94, 255]);
+    expect(pixel(2, 16)).toEqual([255, 255, 255, 77]);
+    // The middle stays transparent
+    expect(pixel(16, 16)[3]).toBe(0);
+  });
+
+  it('colors critical limits and draws a light-background track', () => {
+    const [, { png }] = renderTrayIcon({ fiveHour: ring(95, 'critical') }, 'light');
+    const { pixel } = decodePng(png);
+
+    expect(pixel(2, 16)).toEqual([239, 68, 68, 255]);
+  });
+
+  it('draws only the track when utilization is unavailable', () => {
+    const { pixels } = renderGauge({ fiveHour: null }, 'light', 2);
+    const alphas = new Set<number>();
+    for (let i = 3; i < pixels.length; i += 4) alphas.add(pixels[i]);
+
+    expect(Math.max(...alphas)).toBe(64);
+  });
+
+  it('uses black with alpha only for template images', () => {
+    const { pixels } = renderGauge({ fiveHour: ring(70), sevenDay: ring(30) }, 'template', 2);
+
+    for (let i = 0; i < pixels.length; i += 4) {
+      expect([pixels[i], pixels[i + 1], pixels[i + 2]]).toEqual([0, 0, 0]);
+    }
+    expect(decodePng(encodePng(32, 32, pixels)).pixel(29, 16)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('adds the weekly limit as an inner ring', () => {
+    const gauge: TrayGauge = { fiveHour: ring(10), sevenDay: ring(60, 'warning') };
+    const { pixel } = decodePng(renderTrayIcon(gauge, 'dark')[1].png);
+
+    // Outer ring at 3 o'clock is past 10%, the inner ring is not past 60%
+    expect(pixel(29, 16)).toEqual([255, 255, 255, 77]);
+    expect(pixel(22, 16)).toEqual([245, 158, 11, 255]);
+  });
+
+  describe('gaugeFromMenuBar', () => {
+    const oauthUtilization = {
+      fiveHour: { utilization: 80, resetsAt: '', formattedTimeRemaining: '' },
+      sevenDay: { utilization: 40, resetsAt: '', formattedTimeRemaining: '' },
+      isAvailable: true,
+    };
+    const data: MenuBarData = {
+      percentageUsed: 80,
+      cost: 3,
+      status: 'warning',
+      limits: [
+        { limit: 'fiveHour', label: 'Personal: 5-hour', utilization: 20, level: 'safe' },
+        { limit: 'fiveHour', label: 'Work: 5-hour', utilization: 80, level: 'warning' },
+        { limit: 'sevenDay', label: 'Work: Weekly', utilization: 40, level: 'safe' },
+      ],
+      oauthUtilization,
+    };
+
+    it('uses the busiest entry per limit and the weekly ring only when asked', () => {
+      expect(gaugeFromMenuBar(data, false)).toEqual({
+        fiveHour: ring(80, 'warning'),
+        sevenDay: undefined,
+      });
+      expect(gaugeFromMenuBar(data, true).sevenDay).toEqual(ring(40));
+    });
+
+    it('has no readings without OAuth data', () => {
+      const unavailable = gaugeFromMenuBar(
+        { ...data, oauthUtilization: { ...oauthUtilization, isAvailable: false } },
+        true
+      );
+      expect(unavailable).toEqual({ fiveHour: null, sevenDay: null });
+    });
+  });
+
+  it('prefers a template image only while every limit is safe', () => {
+    expect(prefersTemplate({ fiveHour: ring(50), sevenDay: null })).toBe(true);
+    expect(prefersTemplate({ fiveHour: ring(50), sevenDay: ring(75, 'warning') })).toBe(false);
+  });
+});
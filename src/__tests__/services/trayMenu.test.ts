@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { formatCountdown } from '../../services/calendar';
+import {
+  type TrayMenuItem,
+  type TrayMenuState,
+  buildTrayMenu,
+  formatStatusText,
+  liveMenuItems,
+} from '../../services/trayMenu';
+import type { UsageStats } from '../../types/usage';
+
+const now = Date.parse('2026-01-18T12:00:00Z');
+const inMinutes = (minutes: number) => new Date(now + minutes * 60 * 1000).toISOString();
+
+const stats: UsageStats = {
+  today: {
+    date: '2026-01-18',
+    totalTokens: 3000,
+    totalCost: 4.5,
+    models: {
+      'claude-sonnet-4-5': { tokens: 2000, cost: 1.25 },
+      'claude-opus-4-1': { tokens: 1000, cost: 3.25 },
+    },
+  },
+  thisWeek: [],
+  oauthUtilization: {
+    fiveHour: { utilization: 45.4, resetsAt: inMinutes(150), formattedTimeRemaining: '2h 30m' },
+    sevenDay: {
+      utilization: 72,
+      resetsAt: inMinutes(3 * 24 * 60 + 300),
+      formattedTimeRemaining: '',
+    },
+    sevenDaySonnet: {
+      utilization: 10,
+      resetsAt: inMinutes(2 * 24 * 60 + 60),
+      formattedTimeRemaining: '',
+    },
+    sevenDayOpus: { utilization: 95, resetsAt: inMinutes(20), formattedTimeRemaining: '' },
+    extraUsage: { isEnabled: true, monthlyLimit: 50, usedCredits: 12, utilization: 24 },
+    isAvailable: true,
+  },
+};
+
+const state = (overrides: Partial<TrayMenuState> = {}): TrayMenuState => ({
+  stats,
+  thresholds: { warning: 70, critical: 90 },
+  menuBarTemplate: '{percent}% · ${cost}',
+  menuBarCostSource: 'today',
+  pollingPaused: false,
+  dashboard: false,
+  now,
+  ...overrides,
+});
+
+const labels = (items: TrayMenuItem[]) =>
+  items.flatMap((item) => ('label' in item && item.type === 'info' ? [item.label] : []));
+
+const submenu = (items: TrayMenuItem[], label: string) => {
+  const found = items.find((item) => item.type === 'submenu' && item.label === label);
+  return found?.type === 'submenu' ? found.items : [];
+};
+
+describe('trayMenu', () => {
+  it('lists every limit with its countdown and today per model', () => {
+    expect(labels(buildTrayMenu(state()))).toEqual([
+      '5-hour: 45% · resets in 2h 30m',
+      'Weekly: 72% · resets in 3d 5h',
+      'Sonnet weekly: 10% · resets in 2d 1h',
+      'Opus weekly: 95% · resets in 20m',
+      'Extra usage credits: 24% · 12 of 50 credits',
+      'Today: $4.50',
+      '    claude-opus-4-1: $3.25',
+      '    claude-sonnet-4-5: $1.25',
+    ]);
+  });
+
+  it('counts down from the current time', () => {
+    const later = labels(buildTrayMenu(state({ now: now + 45 * 60 * 1000 })));
+    expect(later[0]).toBe('5-hour: 45% · resets in 1h 45m');
+    expect(formatCountdown(inMinutes(-1), now)).toBe('Resetting...');
+  });
+
+  it('says when limits are unavailable', () => {
+    const menu = buildTrayMenu(state({ stats: null, account: 'Work' }));
+    expect(labels(menu)).toEqual(['Work', 'Limits unavailable', 'Today: --']);
+  });
+
+  it('checks the current title preset, cost source, pause state and window mode', () => {
+    const menu = buildTrayMenu(
+      state({
+        menuBarTemplate: '{percent}%',
+        menuBarCostSource: 'sessionWindow',
+        pollingPaused: true,
+        dashboard: true,
+      })
+    );
+
+    expect(submenu(menu, 'Menu Bar Title')).toEqual([
+      expect.objectContaining({ label: 'Percentage and Cost', checked: false }),
+      expect.objectContaining({
+        label: 'Percentage',
+        checked: true,
+        settings: { menuBarTemplate: '{percent}%' },
+      }),
+      expect.objectContaining({ label: 'Cost', checked: false }),
+    ]);
+    expect(submenu(menu, 'Cost Source')).toEqual([
+      expect.objectContaining({ id: 'cost:today', checked: false }),
+      expect.objectContaining({ id: 'cost:sessionWindow', checked: true }),
+    ]);
+    expect(menu).toContainEqual(expect.objectContaining({ id: 'pause', checked: true }));
+    expect(menu).toContainEqual(expect.objectContaining({ id: 'dashboard', checked: true }));
+  });
+
+  it('shows a custom title template as the checked choice', () => {
+    const titles = submenu(buildTrayMenu(state({ menuBarTemplate: '{5h}%' })), 'Menu Bar Title');
+    expect(titles[titles.length - 1]).toEqual({
+      type: 'radio',
+      id: 'title:custom',
+      label: 'Custom: {5h}%',
+      checked: true,
+      settings: null,
+    });
+  });
+
+  it('collects the items an open menu updates', () => {
+    const live = liveMenuItems(buildTrayMenu(state({ pollingPaused: true })));
+
+    expect(live).toContainEqual({ id: 'limit:fiveHour', label: '5-hour: 45% · resets in 2h 30m' });
+    expect(live).toContainEqual({ id: 'cost:today', label: "Today's Total", checked: true });
+    expect(live).toContainEqual({ id: 'pause', label: 'Pause Polling', checked: true });
+  });
+
+  it('copies the status rows as text', () => {
+    expect(formatStatusText(state({ account: 'Work' })).split('\n')).toEqual([
+      'Work',
+      '5-hour: 45% · resets in 2h 30m',
+      'Weekly: 72% · resets in 3d 5h',
+      'Sonnet weekly: 10% · resets in 2d 1h',
+      'Opus weekly: 95% · resets in 20m',
+      'Extra usage credits: 24% · 12 of 50 credits',
+      'Today: $4.50',
+      'claude-opus-4-1: $3.25',
+      'claude-sonnet-4-5: $1.25',
+    ]);
+  });
+});
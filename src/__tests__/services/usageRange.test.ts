@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeUsageRange } from '../../services/projectUsage';
+import { heatmapWeeks, rangeForPreset } from '../../services/usageRange';
+import type { DailyUsage } from '../../types/usage';
+
+const day = (date: string, cost: number): DailyUsage => ({
+  date,
+  totalTokens: cost * 1000,
+  totalCost: cost,
+  models: { 'claude-sonnet-4': { tokens: cost * 1000, cost } },
+});
+
+describe('rangeForPreset', () => {
+  const today = '2026-03-15';
+
+  it('covers whole calendar months', () => {
+    expect(rangeForPreset('thisMonth', today)).toEqual({ from: '2026-03-01', to: '2026-03-31' });
+    expect(rangeForPreset('lastMonth', today)).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+    expect(rangeForPreset('lastMonth', '2026-01-10')).toEqual({
+      from: '2025-12-01',
+      to: '2025-12-31',
+    });
+  });
+
+  it('counts rolling ranges back from today, inclusive', () => {
+    expect(rangeForPreset('last30', today)).toEqual({ from: '2026-02-14', to: '2026-03-15' });
+    expect(rangeForPreset('last90', today)).toEqual({ from: '2025-12-16', to: '2026-03-15' });
+  });
+});
+
+describe('heatmapWeeks', () => {
+  it('pads the range to whole weeks, Sunday first', () => {
+    // 1 March 2026 is a Sunday, 31 March a Tuesday
+    const weeks = heatmapWeeks(summarizeUsageRange('2026-03-01', '2026-03-31', []));
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    expect(weeks[0][0]).toMatchObject({ date: '2026-03-01', inRange: true });
+    expect(weeks[4][2]).toMatchObject({ date: '2026-03-31', inRange: true });
+    expect(weeks[4][3]).toMatchObject({ date: '2026-04-01', inRange: false });
+  });
+
+  it('starts rows on the configured week start', () => {
+    const weeks = heatmapWeeks(summarizeUsageRange('2026-03-01', '2026-03-31', []), 1);
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0][0]).toMatchObject({ date: '2026-02-23', inRange: false });
+    expect(weeks[0][6]).toMatchObject({ date: '2026-03-01', inRange: true });
+    expect(weeks[5][1]).toMatchObject({ date: '2026-03-31', inRange: true });
+    expect(weeks[5][6].date).toBe('2026-04-05');
+  });
+
+  it('scales levels to the most expensive day', () => {
+    const range = summarizeUsageRange('2026-03-02', '2026-03-04', [
+      day('2026-03-02', 8),
+      day('2026-03-03', 1),
+    ]);
+    const cells = heatmapWeeks(range)[0].filter((cell) => cell.inRange);
+
+    expect(cells.map((cell) => cell.level)).toEqual([4, 1, 0]);
+  });
+
+  it('returns nothing for an inverted range', () => {
+    expect(heatmapWeeks(summarizeUsageRange('2026-03-04', '2026-03-02', []))).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DisplayArea,
+  dashboardBounds,
+  fitToArea,
+  overlayBounds,
+  popoverBounds,
+} from '../../services/windowBounds';
+import type { OverlaySettings } from '../../types/usage';
+
+const laptop: DisplayArea = { id: 1, workArea: { x: 0, y: 25, width: 1440, height: 875 } };
+const side: DisplayArea = { id: 2, workArea: { x: 1440, y: 0, width: 1920, height: 1080 } };
+
+describe('windowBounds', () => {
+  it('puts the popover in the top right corner', () => {
+    expect(popoverBounds(side.workArea)).toEqual({ x: 2860, y: 10, width: 480, height: 600 });
+  });
+
+  it('fits bounds into a smaller area', () => {
+    const area = { x: 0, y: 0, width: 800, height: 600 };
+    expect(fitToArea({ x: 500, y: -50, width: 1000, height: 400 }, area)).toEqual({
+      x: 0,
+      y: 0,
+      width: 800,
+      height: 400,
+    });
+    expect(fitToArea({ x: 700, y: 500, width: 300, height: 300 }, area)).toEqual({
+      x: 500,
+      y: 300,
+      width: 300,
+      height: 300,
+    });
+  });
+
+  it('reopens where the dashboard was on the preferred display', () => {
+    const saved = {
+      '1': { x: 100, y: 100, width: 900, height: 700 },
+      '2': { x: 2000, y: 50, width: 1200, height: 1000 },
+    };
+
+    expect(dashboardBounds(saved, [laptop, side], side)).toEqual(saved['2']);
+    expect(dashboardBounds(saved, [laptop, side], laptop)).toEqual(saved['1']);
+  });
+
+  it('falls back to another connected display, then to the center', () => {
+    const saved = { '2': { x: 2000, y: 50, width: 1200, height: 1000 } };
+
+    expect(dashboardBounds(saved, [laptop, side], laptop)).toEqual(saved['2']);
+    expect(dashboardBounds(saved, [laptop], laptop)).toEqual({
+      x: 170,
+      y: 83,
+      width: 1100,
+      height: 760,
+    });
+  });
+
+  it('sizes the overlay to its rows and puts it in the chosen corner', () => {
+    const overlay: OverlaySettings = {
+      enabled: true,
+      corner: 'topRight',
+      opacity: 0.85,
+      showFiveHour: true,
+      showWeekly: true,
+      showCountdown: true,
+    };
+
+    expect(overlayBounds(laptop.workArea, overlay)).toEqual({
+      x: 1256,
+      y: 41,
+      width: 168,
+      height: 88,
+    });
+    expect(
+      overlayBounds(side.workArea, { ...overlay, corner: 'bottomLeft', showWeekly: false })
+    ).toEqual({ x: 1456, y: 1000, width: 168, height: 64 });
+  });
+});
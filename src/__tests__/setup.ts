@@ -18,6 +18,8 @@ global.window.electronAPI = {
   loadSettings: vi.fn(),
   saveSettings: vi.fn(),
   quitApp: vi.fn(),
+  exportUsage: vi.fn(),
+  getUsageRange: vi.fn(),
   onUsageUpdated: vi.fn(),
   removeUsageUpdatedListener: vi.fn(),
 };
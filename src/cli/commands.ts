@@ -0,0 +1,149 @@
+import type { AppSettings } from '../services/settingsService.js';
+import { overallLevel } from '../services/thresholdPolicy.js';
+import type { MenuBarData, UsageStats } from '../types/usage.js';
+import { formatErrors, formatStatus, formatToday, formatWeek } from './output.js';
+
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_WARNING = 2;
+export const EXIT_CRITICAL = 3;
+
+export type CliCommand = 'status' | 'today' | 'week';
+
+export interface CliOptions {
+  command: CliCommand | 'help';
+  json: boolean;
+}
+
+/**
+ * The parts of the core services the CLI needs (CCUsageService and SettingsService in practice)
+ */
+export interface CliDependencies {
+  usage: {
+    getUsageStats(): Promise<UsageStats>;
+    getMenuBarData(): Promise<MenuBarData>;
+    updateConfiguration(config: Partial<AppSettings>): void;
+  };
+  settings: {
+    loadSettings(): Promise<AppSettings>;
+  };
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export const USAGE = `Usage: claude-meter <command> [--json]
+
+Commands:
+  status   Rate limit utilization and today's cost (default)
+  today    Today's tokens and cost per model
+  week     Tokens and cost so far this week
+
+Options:
+  --json       Print JSON instead of a table
+  -h, --help   Show this help
+
+Exit codes:
+  0  below the configured warning threshold
+  1  invalid arguments or unexpected failure
+  2  warning threshold reached
+  3  critical threshold reached`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const COMMANDS: CliCommand[] = ['status', 'today', 'week'];
+
+export const parseArgs = (argv: string[]): CliOptions => {
+  const flags = argv.filter((arg) => arg.startsWith('-'));
+  const positionals = argv.filter((arg) => !arg.startsWith('-'));
+
+  for (const flag of flags) {
+    if (flag !== '--json' && flag !== '-h' && flag !== '--help') {
+      throw new CliUsageError(`Unknown option: ${flag}`);
+    }
+  }
+  if (positionals.length > 1) {
+    throw new CliUsageError(`Unexpected argument: ${positionals[1]}`);
+  }
+
+  const [command = 'status'] = positionals;
+  const help = command === 'help' || flags.includes('-h') || flags.includes('--help');
+  if (!help && !COMMANDS.includes(command as CliCommand)) {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+
+  return { command: help ? 'help' : (command as CliCommand), json: flags.includes('--json') };
+};
+
+/**
+ * Exit code for the worst rate limit against the configured (per-limit) thresholds
+ */
+export const exitCodeFor = (
+  stats: UsageStats,
+  thresholds: AppSettings['notificationThresholds']
+): number => {
+  const level = overallLevel(stats.oauthUtilization, thresholds);
+  if (level === 'critical') return EXIT_CRITICAL;
+  if (level === 'warning') return EXIT_WARNING;
+  return EXIT_OK;
+};
+
+export const runCli = async (argv: string[], deps: CliDependencies): Promise<number> => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    deps.stderr(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  if (options.command === 'help') {
+    deps.stdout(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    const settings = await deps.settings.loadSettings();
+    deps.usage.updateConfiguration({
+      menuBarCostSource: settings.menuBarCostSource,
+      notificationThresholds: settings.notificationThresholds,
+      calendar: settings.calendar,
+      accounts: settings.accounts,
+    });
+
+    const stats = await deps.usage.getUsageStats();
+    deps.stdout(await render(options, stats, deps));
+
+    if (!options.json && stats.errors?.length) {
+      deps.stderr(formatErrors(stats.errors));
+    }
+
+    return exitCodeFor(stats, settings.notificationThresholds);
+  } catch (error) {
+    deps.stderr(`claude-meter: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+};
+
+const render = async (
+  options: CliOptions,
+  stats: UsageStats,
+  deps: CliDependencies
+): Promise<string> => {
+  switch (options.command) {
+    case 'today':
+      return options.json ? JSON.stringify(stats.today, null, 2) : formatToday(stats.today);
+    case 'week':
+      return options.json ? JSON.stringify(stats.thisWeek, null, 2) : formatWeek(stats.thisWeek);
+    default: {
+      if (!options.json) return formatStatus(stats.oauthUtilization, stats.today);
+      const menuBar = await deps.usage.getMenuBarData();
+      return JSON.stringify({ ...menuBar, today: stats.today }, null, 2);
+    }
+  }
+};
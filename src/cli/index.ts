@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+import { CCUsageService } from '../services/ccusageService.js';
+import { quietLogger, setLogger } from '../services/logger.js';
+import { SettingsService } from '../services/settingsService.js';
+import { EXIT_ERROR, runCli } from './commands.js';
+
+/**
+ * Headless entry point (`claude-meter status|today|week [--json]`) for machines without a menu bar.
+ * Shares the core services with the Electron app but never loads `electron`.
+ */
+// Failures reach the user through the command's own error output, not service stack traces
+setLogger(quietLogger);
+
+runCli(process.argv.slice(2), {
+  usage: CCUsageService.getInstance(),
+  settings: SettingsService.getInstance(),
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('claude-meter:', error);
+    process.exitCode = EXIT_ERROR;
+  });
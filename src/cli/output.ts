@@ -0,0 +1,86 @@
+import { describeUsageError } from '../services/usageErrors.js';
+import type { DailyUsage, OAuthUtilization, UsageError } from '../types/usage.js';
+
+/**
+ * Render rows as a plain-text table with left-aligned columns
+ */
+export const renderTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? '').length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  return [line(headers), line(widths.map((w) => '-'.repeat(w))), ...rows.map(line)].join('\n');
+};
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');
+
+export const formatPercent = (value: number): string => `${Math.round(value)}%`;
+
+export const formatStatus = (oauth: OAuthUtilization | undefined, today: DailyUsage): string => {
+  const rows: string[][] = [];
+
+  if (oauth?.isAvailable) {
+    rows.push([
+      '5-hour',
+      formatPercent(oauth.fiveHour.utilization),
+      oauth.fiveHour.formattedTimeRemaining,
+    ]);
+    rows.push([
+      '7-day',
+      formatPercent(oauth.sevenDay.utilization),
+      oauth.sevenDay.formattedTimeRemaining,
+    ]);
+    if (oauth.sevenDaySonnet) {
+      rows.push([
+        '7-day Sonnet',
+        formatPercent(oauth.sevenDaySonnet.utilization),
+        oauth.sevenDaySonnet.formattedTimeRemaining,
+      ]);
+    }
+    if (oauth.sevenDayOpus) {
+      rows.push([
+        '7-day Opus',
+        formatPercent(oauth.sevenDayOpus.utilization),
+        oauth.sevenDayOpus.formattedTimeRemaining,
+      ]);
+    }
+  } else {
+    rows.push(['5-hour', '--', 'OAuth data unavailable']);
+  }
+
+  const limits = renderTable(['Limit', 'Used', 'Resets in'], rows);
+  const todayLine = `Today: ${formatCost(today.totalCost)} · ${formatTokens(today.totalTokens)} tokens`;
+  return `${limits}\n\n${todayLine}`;
+};
+
+export const formatToday = (today: DailyUsage): string => {
+  const rows = Object.entries(today.models)
+    .sort(([, a], [, b]) => b.cost - a.cost)
+    .map(([model, usage]) => [model, formatTokens(usage.tokens), formatCost(usage.cost)]);
+  rows.push(['Total', formatTokens(today.totalTokens), formatCost(today.totalCost)]);
+
+  return `${today.date}\n\n${renderTable(['Model', 'Tokens', 'Cost'], rows)}`;
+};
+
+export const formatWeek = (days: DailyUsage[]): string => {
+  const rows = days.map((day) => [
+    day.date,
+    formatTokens(day.totalTokens),
+    formatCost(day.totalCost),
+  ]);
+  const totalTokens = days.reduce((sum, day) => sum + day.totalTokens, 0);
+  const totalCost = days.reduce((sum, day) => sum + day.totalCost, 0);
+  rows.push(['Total', formatTokens(totalTokens), formatCost(totalCost)]);
+
+  return renderTable(['Date', 'Tokens', 'Cost'], rows);
+};
+
+export const formatErrors = (errors: UsageError[] | undefined): string =>
+  (errors ?? []).map((error) => `warning: ${describeUsageError(error)}`).join('\n');
@@ -0,0 +1,39 @@
+import type React from 'react';
+import type { AccountSettings } from '../types/usage';
+import { PLAN_LABELS } from './AccountsEditor';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface AccountSwitcherProps {
+  accounts: AccountSettings;
+  onSwitch: (accountId: string) => void;
+}
+
+/**
+ * Header picker for the account the popover shows; hidden until a second account is configured
+ */
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ accounts, onSwitch }) => {
+  if (accounts.accounts.length < 2) return null;
+
+  const activeId = accounts.accounts.some((account) => account.id === accounts.activeAccountId)
+    ? accounts.activeAccountId
+    : accounts.accounts[0].id;
+
+  return (
+    <Select value={activeId} onValueChange={onSwitch}>
+      <SelectTrigger
+        aria-label="Account"
+        className="h-8 w-36 bg-neutral-800 border-neutral-700 text-white text-xs"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {accounts.accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name}
+            {account.plan && ` · ${PLAN_LABELS[account.plan]}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,248 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import type { Account, AccountPlan, AccountSettings, CredentialSource } from '../types/usage';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface AccountsEditorProps {
+  accounts: AccountSettings;
+  onChange: (accounts: AccountSettings) => void;
+}
+
+export const PLAN_LABELS: Record<AccountPlan, string> = {
+  pro: 'Pro',
+  max5x: 'Max 5x',
+  max20x: 'Max 20x',
+  team: 'Team',
+  enterprise: 'Enterprise',
+};
+
+const credentialLabels: Record<Account['credentialSource'], string> = {
+  auto: 'Automatic',
+  keychain: 'macOS Keychain',
+  'credentials-file': 'Credentials file',
+  'secret-service': 'Secret Service',
+  env: 'Environment variable',
+};
+
+const inputClassName =
+  'w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-amber-500 focus:outline-none';
+const selectClassName = 'w-full bg-neutral-800 border-neutral-700 text-white';
+
+/**
+ * Text input saved on blur or Enter: every save rebuilds the account's services and reloads its usage
+ */
+const CommitInput: React.FC<{
+  value: string;
+  placeholder: string;
+  id: string;
+  onCommit: (value: string) => void;
+}> = ({ id, value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      id={id}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      className={inputClassName}
+    />
+  );
+};
+
+const createAccount = (id: string, name: string, configDir: string): Account => ({
+  id,
+  name,
+  credentialSource: 'auto',
+  configDir,
+  dataDirs: [],
+});
+
+const AccountRow: React.FC<{
+  account: Account;
+  onChange: (account: Account) => void;
+  onRemove: () => void;
+}> = ({ account, onChange, onRemove }) => {
+  const update = (changes: Partial<Account>) => onChange({ ...account, ...changes });
+
+  return (
+    <div className="space-y-2 py-3 border-b border-neutral-800 last:border-b-0">
+      <div className="flex items-center gap-2">
+        <input
+          aria-label="Account name"
+          value={account.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className={inputClassName}
+        />
+        <Select
+          value={account.plan ?? 'unknown'}
+          onValueChange={(value) =>
+            update({ plan: value === 'unknown' ? undefined : (value as AccountPlan) })
+          }
+        >
+          <SelectTrigger aria-label="Plan" className={`${selectClassName} w-32`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unknown">No plan</SelectItem>
+            {(Object.keys(PLAN_LABELS) as AccountPlan[]).map((plan) => (
+              <SelectItem key={plan} value={plan}>
+                {PLAN_LABELS[plan]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="text-neutral-400 hover:bg-white/10"
+        >
+          Remove
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs text-neutral-500">
+        <div className="space-y-1">
+          <label htmlFor={`account-${account.id}-config-dir`} className="block">
+            Config directory
+          </label>
+          <CommitInput
+            id={`account-${account.id}-config-dir`}
+            value={account.configDir}
+            placeholder="~/.claude"
+            onCommit={(configDir) => update({ configDir })}
+          />
+        </div>
+        <div className="space-y-1">
+          <span>Credentials</span>
+          <Select
+            value={account.credentialSource}
+            onValueChange={(value: Account['credentialSource']) =>
+              update({ credentialSource: value })
+            }
+          >
+            <SelectTrigger aria-label="Credentials" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(credentialLabels) as (CredentialSource | 'auto')[]).map((source) => (
+                <SelectItem key={source} value={source}>
+                  {credentialLabels[source]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 col-span-2">
+          <label htmlFor={`account-${account.id}-data-dirs`} className="block">
+            Usage data directories (comma-separated)
+          </label>
+          <CommitInput
+            id={`account-${account.id}-data-dirs`}
+            value={account.dataDirs.join(',')}
+            placeholder="Same as the config directory"
+            onCommit={(dirs) =>
+              update({
+                dataDirs: dirs
+                  .split(',')
+                  .map((dir) => dir.trim())
+                  .filter(Boolean),
+              })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const AccountsEditor: React.FC<AccountsEditorProps> = ({ accounts, onChange }) => {
+  const updateAccount = (index: number, account: Account) => {
+    onChange({
+      ...accounts,
+      accounts: accounts.accounts.map((a, i) => (i === index ? account : a)),
+    });
+  };
+
+  const addAccount = () => {
+    const added = createAccount(crypto.randomUUID(), 'Work', '~/.claude-work');
+    // The implicit default account becomes an explicit one; its id keeps its recorded history
+    const existing =
+      accounts.accounts.length > 0 ? accounts.accounts : [createAccount('default', 'Personal', '')];
+    onChange({ ...accounts, accounts: [...existing, added] });
+  };
+
+  return (
+    <div className="space-y-2">
+      {accounts.accounts.length === 0 ? (
+        <p className="text-sm text-neutral-400">
+          Using Claude Code's default credentials and ~/.claude
+        </p>
+      ) : (
+        <div>
+          {accounts.accounts.map((account, index) => (
+            <AccountRow
+              key={account.id}
+              account={account}
+              onChange={(updated) => updateAccount(index, updated)}
+              onRemove={() =>
+                onChange({
+                  ...accounts,
+                  accounts: accounts.accounts.filter((a) => a.id !== account.id),
+                })
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {accounts.accounts.length > 1 && (
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-sm text-neutral-400">Menu bar shows</span>
+          <Select
+            value={accounts.menuBar}
+            onValueChange={(value: AccountSettings['menuBar']) =>
+              onChange({ ...accounts, menuBar: value })
+            }
+          >
+            <SelectTrigger aria-label="Menu bar account" className={`${selectClassName} w-40`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active account</SelectItem>
+              <SelectItem value="aggregate">All accounts</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addAccount}
+        className="w-full bg-neutral-800 border-neutral-700 text-white hover:bg-neutral-700"
+      >
+        Add account
+      </Button>
+      <p className="text-xs text-neutral-500">
+        Each account reads the credentials Claude Code stored for its config directory (the
+        CLAUDE_CONFIG_DIR you sign in with) and the usage logs in its data directories. Switch the
+        account shown here from the header
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import type React from 'react';
+import { LIMIT_LABELS } from '../services/thresholdPolicy';
+import type {
+  AlertMetric,
+  AlertRule,
+  AlertSettings,
+  AlertSeverity,
+  LimitKey,
+} from '../types/usage';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+
+interface AlertRulesEditorProps {
+  alerts: AlertSettings;
+  onChange: (alerts: AlertSettings) => void;
+}
+
+const metricLabels: Record<AlertMetric, string> = {
+  utilization: 'Limit above',
+  todayCost: "Today's cost above",
+  resetsIn: 'Limit resets within',
+};
+
+const metricUnits: Record<AlertMetric, string> = {
+  utilization: '%',
+  todayCost: '$',
+  resetsIn: 'min',
+};
+
+// Limits the API reports a reset time for
+const resettableLimits: LimitKey[] = ['fiveHour', 'sevenDay', 'sevenDaySonnet', 'sevenDayOpus'];
+const utilizationLimits = Object.keys(LIMIT_LABELS) as LimitKey[];
+
+const inputClassName =
+  'w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-amber-500 focus:outline-none';
+const selectClassName = 'w-full bg-neutral-800 border-neutral-700 text-white';
+
+/**
+ * Switch a rule's metric, keeping its limit only when the new metric can watch it
+ */
+export const changeRuleMetric = (rule: AlertRule, metric: AlertMetric): AlertRule => {
+  if (metric === 'todayCost') return { ...rule, metric, limit: undefined };
+
+  const limits = metric === 'resetsIn' ? resettableLimits : utilizationLimits;
+  const limit = rule.limit && limits.includes(rule.limit) ? rule.limit : 'fiveHour';
+  return { ...rule, metric, limit };
+};
+
+const createRule = (): AlertRule => ({
+  id: crypto.randomUUID(),
+  name: 'Weekly above 80%',
+  enabled: true,
+  metric: 'utilization',
+  limit: 'sevenDay',
+  threshold: 80,
+  severity: 'warning',
+  cooldownMinutes: 60,
+  hysteresis: 5,
+});
+
+const AlertRuleRow: React.FC<{
+  rule: AlertRule;
+  onChange: (rule: AlertRule) => void;
+  onRemove: () => void;
+}> = ({ rule, onChange, onRemove }) => {
+  const update = (changes: Partial<AlertRule>) => onChange({ ...rule, ...changes });
+  const limits = rule.metric === 'resetsIn' ? resettableLimits : utilizationLimits;
+
+  const changeQuietHours = (field: 'start' | 'end', value: string) => {
+    const quietHours = { start: '22:00', end: '07:00', ...rule.quietHours, [field]: value };
+    update({ quietHours: value ? quietHours : undefined });
+  };
+
+  return (
+    <div className="space-y-2 py-3 border-b border-neutral-800 last:border-b-0">
+      <div className="flex items-center gap-2">
+        <input
+          aria-label="Rule name"
+          value={rule.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className={inputClassName}
+        />
+        <Switch
+          aria-label={`Enable ${rule.name}`}
+          checked={rule.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="text-neutral-400 hover:bg-white/10"
+        >
+          Remove
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_5rem] gap-2">
+        <Select
+          value={rule.metric}
+          onValueChange={(value: AlertMetric) => onChange(changeRuleMetric(rule, value))}
+        >
+          <SelectTrigger aria-label="Metric" className={selectClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(metricLabels) as AlertMetric[]).map((metric) => (
+              <SelectItem key={metric} value={metric}>
+                {metricLabels[metric]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {rule.metric === 'todayCost' ? (
+          <span />
+        ) : (
+          <Select value={rule.limit} onValueChange={(value: LimitKey) => update({ limit: value })}>
+            <SelectTrigger aria-label="Limit" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {limits.map((limit) => (
+                <SelectItem key={limit} value={limit}>
+                  {LIMIT_LABELS[limit]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            aria-label="Threshold"
+            value={rule.threshold}
+            onChange={(e) => update({ threshold: Number.parseFloat(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+          <span className="text-xs text-neutral-400">{metricUnits[rule.metric]}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-xs text-neutral-500">
+        <div className="space-y-1">
+          <span>Severity</span>
+          <Select
+            value={rule.severity}
+            onValueChange={(value: AlertSeverity) => update({ severity: value })}
+          >
+            <SelectTrigger aria-label="Severity" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="info">Info</SelectItem>
+              <SelectItem value="warning">Warning</SelectItem>
+              <SelectItem value="critical">Critical</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="space-y-1">
+          <span>Cooldown (min)</span>
+          <input
+            type="number"
+            min="0"
+            value={rule.cooldownMinutes}
+            onChange={(e) => update({ cooldownMinutes: Number.parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Hysteresis</span>
+          <input
+            type="number"
+            min="0"
+            value={rule.hysteresis}
+            onChange={(e) => update({ hysteresis: Number.parseFloat(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </label>
+        <div className="space-y-1">
+          <span>Quiet hours</span>
+          <div className="flex gap-1">
+            <input
+              type="time"
+              aria-label="Quiet from"
+              value={rule.quietHours?.start ?? ''}
+              onChange={(e) => changeQuietHours('start', e.target.value)}
+              className={inputClassName}
+            />
+            <input
+              type="time"
+              aria-label="Quiet until"
+              value={rule.quietHours?.end ?? ''}
+              onChange={(e) => changeQuietHours('end', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ alerts, onChange }) => {
+  const updateRule = (index: number, rule: AlertRule) => {
+    onChange({ ...alerts, rules: alerts.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor="threshold-alerts" className="text-sm text-neutral-400">
+          Notify at warning and critical thresholds
+        </label>
+        <Switch
+          id="threshold-alerts"
+          checked={alerts.thresholdAlerts}
+          onCheckedChange={(thresholdAlerts) => onChange({ ...alerts, thresholdAlerts })}
+        />
+      </div>
+
+      {alerts.rules.length > 0 && (
+        <div className="pt-2 border-t border-neutral-800">
+          {alerts.rules.map((rule, index) => (
+            <AlertRuleRow
+              key={rule.id}
+              rule={rule}
+              onChange={(updated) => updateRule(index, updated)}
+              onRemove={() =>
+                onChange({ ...alerts, rules: alerts.rules.filter((r) => r.id !== rule.id) })
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...alerts, rules: [...alerts.rules, createRule()] })}
+        className="w-full bg-neutral-800 border-neutral-700 text-white hover:bg-neutral-700"
+      >
+        Add alert rule
+      </Button>
+      <p className="text-xs text-neutral-500">
+        Each rule fires once when its condition is met, then waits for the value to move back by the
+        hysteresis amount and for its cooldown before firing again. Rules stay silent during their
+        quiet hours
+      </p>
+    </div>
+  );
+};
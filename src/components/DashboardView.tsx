@@ -0,0 +1,21 @@
+import type React from 'react';
+import type { NotificationThresholds, UsageStats } from '../types/usage';
+import { HistoryView } from './HistoryView';
+import { StatusView } from './StatusView';
+
+interface DashboardViewProps {
+  stats: UsageStats;
+  thresholds: NotificationThresholds;
+  weekStart: number;
+}
+
+/**
+ * Status and history side by side for the dashboard window; one column when it is narrow
+ */
+export const DashboardView: React.FC<DashboardViewProps> = ({ stats, thresholds, weekStart }) => (
+  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+    <StatusView stats={stats} thresholds={thresholds} />
+    {/* Keyed by account so date-range queries reload after a switch */}
+    <HistoryView key={stats.accountId} stats={stats} weekStart={weekStart} />
+  </div>
+);
@@ -0,0 +1,219 @@
+import type React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  DeliveryChannel,
+  DeliveryChannelType,
+  DeliveryLogEntry,
+  DeliverySettings,
+} from '../types/usage';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+
+interface DeliveryChannelsEditorProps {
+  delivery: DeliverySettings;
+  onChange: (delivery: DeliverySettings) => void;
+}
+
+const typeLabels: Record<DeliveryChannelType, string> = {
+  webhook: 'JSON webhook',
+  slack: 'Slack webhook',
+  command: 'Command',
+};
+
+const targetPlaceholders: Record<DeliveryChannelType, string> = {
+  webhook: 'https://example.com/hooks/claude-meter',
+  slack: 'https://hooks.slack.com/services/...',
+  command: 'say "$CLAUDE_METER_MESSAGE"',
+};
+
+const inputClassName =
+  'w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-amber-500 focus:outline-none';
+
+const createChannel = (): DeliveryChannel => ({
+  id: crypto.randomUUID(),
+  name: 'Webhook',
+  type: 'webhook',
+  enabled: true,
+  target: '',
+  template: '{{title}}: {{body}}',
+});
+
+const DeliveryChannelRow: React.FC<{
+  channel: DeliveryChannel;
+  onChange: (channel: DeliveryChannel) => void;
+  onRemove: () => void;
+  onTest: () => void;
+}> = ({ channel, onChange, onRemove, onTest }) => {
+  const update = (changes: Partial<DeliveryChannel>) => onChange({ ...channel, ...changes });
+
+  return (
+    <div className="space-y-2 py-3 border-b border-neutral-800 last:border-b-0">
+      <div className="flex items-center gap-2">
+        <input
+          aria-label="Channel name"
+          value={channel.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className={inputClassName}
+        />
+        <Switch
+          aria-label={`Enable ${channel.name}`}
+          checked={channel.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onTest}
+          disabled={!channel.target}
+          className="text-neutral-400 hover:bg-white/10"
+        >
+          Test
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="text-neutral-400 hover:bg-white/10"
+        >
+          Remove
+        </Button>
+      </div>
+      <div className="grid grid-cols-[9rem_1fr] gap-2">
+        <Select
+          value={channel.type}
+          onValueChange={(value: DeliveryChannelType) => update({ type: value })}
+        >
+          <SelectTrigger
+            aria-label="Channel type"
+            className="w-full bg-neutral-800 border-neutral-700 text-white"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(typeLabels) as DeliveryChannelType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {typeLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input
+          aria-label={channel.type === 'command' ? 'Command' : 'URL'}
+          value={channel.target}
+          placeholder={targetPlaceholders[channel.type]}
+          onChange={(e) => update({ target: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+      <input
+        aria-label="Message template"
+        value={channel.template}
+        onChange={(e) => update({ template: e.target.value })}
+        className={inputClassName}
+      />
+    </div>
+  );
+};
+
+export const DeliveryChannelsEditor: React.FC<DeliveryChannelsEditorProps> = ({
+  delivery,
+  onChange,
+}) => {
+  const [log, setLog] = useState<DeliveryLogEntry[]>([]);
+
+  const loadLog = useCallback(() => {
+    window.electronAPI
+      ?.getDeliveryLog?.(5)
+      .then(setLog)
+      .catch((error) => console.error('Failed to load delivery log:', error));
+  }, []);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const testChannel = (channel: DeliveryChannel) => {
+    window.electronAPI
+      ?.testDeliveryChannel?.(channel)
+      .then(loadLog)
+      .catch((error) => console.error('Failed to test delivery channel:', error));
+  };
+
+  const updateChannel = (index: number, channel: DeliveryChannel) => {
+    onChange({
+      ...delivery,
+      channels: delivery.channels.map((c, i) => (i === index ? channel : c)),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {delivery.channels.map((channel, index) => (
+        <DeliveryChannelRow
+          key={channel.id}
+          channel={channel}
+          onChange={(updated) => updateChannel(index, updated)}
+          onRemove={() =>
+            onChange({
+              ...delivery,
+              channels: delivery.channels.filter((c) => c.id !== channel.id),
+            })
+          }
+          onTest={() => testChannel(channel)}
+        />
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...delivery, channels: [...delivery.channels, createChannel()] })}
+        className="w-full bg-neutral-800 border-neutral-700 text-white hover:bg-neutral-700"
+      >
+        Add delivery channel
+      </Button>
+
+      <div className="flex items-center justify-between pt-2">
+        <label htmlFor="delivery-attempts" className="text-sm text-neutral-400">
+          Attempts per delivery
+        </label>
+        <input
+          id="delivery-attempts"
+          type="number"
+          min="1"
+          max="10"
+          value={delivery.maxAttempts}
+          onChange={(e) =>
+            onChange({ ...delivery, maxAttempts: Number.parseInt(e.target.value) || 1 })
+          }
+          className="w-20 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-amber-500 focus:outline-none"
+        />
+      </div>
+
+      <p className="text-xs text-neutral-500">
+        Templates can use {'{{title}}'}, {'{{body}}'}, {'{{severity}}'} and {'{{timestamp}}'}.
+        Commands also get them as CLAUDE_METER_* environment variables and JSON on stdin
+      </p>
+
+      {log.length > 0 && (
+        <div className="pt-2 border-t border-neutral-800 space-y-1">
+          <p className="text-xs text-neutral-500">Recent deliveries</p>
+          {log.map((entry) => (
+            <div
+              key={`${entry.timestamp}-${entry.channelId}`}
+              className="flex justify-between text-xs"
+            >
+              <span className="text-neutral-400 truncate max-w-[60%]">
+                {entry.channelName} · {entry.title}
+              </span>
+              <span className={entry.ok ? 'text-green-400' : 'text-red-400'}>
+                {entry.ok ? 'delivered' : (entry.error ?? 'failed')}
+                {entry.attempts > 1 && ` (${entry.attempts} tries)`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import type React from 'react';
+import { useState } from 'react';
+import { dayKey, resolveTimeZone } from '../services/calendar';
+import { rangeForPreset } from '../services/usageRange';
+import type { ExportFormat } from '../types/usage';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+type ExportRange = 'lastMonth' | 'thisMonth' | 'custom';
+
+const inputClassName =
+  'w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none';
+
+interface ExportPanelProps {
+  timeZone: string; // Configured calendar time zone; empty uses the system zone
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ timeZone }) => {
+  const today = dayKey(new Date(), resolveTimeZone(timeZone));
+  const [range, setRange] = useState<ExportRange>('lastMonth');
+  const [custom, setCustom] = useState(() => rangeForPreset('thisMonth', today));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const { from, to } = range === 'custom' ? custom : rangeForPreset(range, today);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setStatus(null);
+    try {
+      const result = await window.electronAPI.exportUsage({ from, to, format });
+      if (result.success) {
+        setStatus({ ok: true, text: result.message ?? 'Exported' });
+      } else if (!result.canceled) {
+        setStatus({ ok: false, text: result.error ?? 'Export failed' });
+      }
+    } catch (error) {
+      setStatus({ ok: false, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <span className="text-sm text-neutral-400 block mb-2">Range</span>
+          <Select value={range} onValueChange={(value: ExportRange) => setRange(value)}>
+            <SelectTrigger
+              aria-label="Export range"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lastMonth">Last month</SelectItem>
+              <SelectItem value="thisMonth">This month</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <span className="text-sm text-neutral-400 block mb-2">Format</span>
+          <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+            <SelectTrigger
+              aria-label="Export format"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="jsonl">JSON Lines</SelectItem>
+              <SelectItem value="markdown">Markdown report</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {range === 'custom' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="export-from" className="text-sm text-neutral-400 block mb-2">
+              From
+            </label>
+            <input
+              id="export-from"
+              type="date"
+              value={custom.from}
+              max={custom.to}
+              onChange={(e) => setCustom({ ...custom, from: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-to" className="text-sm text-neutral-400 block mb-2">
+              To
+            </label>
+            <input
+              id="export-to"
+              type="date"
+              value={custom.to}
+              min={custom.from}
+              onChange={(e) => setCustom({ ...custom, to: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleExport}
+        disabled={exporting || !from || !to || from > to}
+        className="w-full bg-neutral-800 border-neutral-700 text-white hover:bg-neutral-700"
+      >
+        {exporting ? 'Exporting...' : `Export ${from} to ${to}`}
+      </Button>
+
+      {status && (
+        <p className={`text-xs ${status.ok ? 'text-green-400' : 'text-red-400'}`}>{status.text}</p>
+      )}
+      <p className="text-xs text-neutral-500">
+        Daily totals, per-model costs and recorded utilization history. Costs are estimated from
+        token counts
+      </p>
+    </div>
+  );
+};
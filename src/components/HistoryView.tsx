@@ -0,0 +1,319 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { formatCurrency, formatNumber } from '../lib/format';
+import { type CacheEfficiency, cacheEfficiency } from '../services/tokenUsage';
+import { describeUsageError } from '../services/usageErrors';
+import { RANGE_PRESET_LABELS, heatmapWeeks, rangeForPreset } from '../services/usageRange';
+import type { TokenBreakdown, UsageRange, UsageRangePreset, UsageStats } from '../types/usage';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface HistoryViewProps {
+  stats: UsageStats;
+  weekStart: number; // First heatmap row, 0 = Sunday
+}
+
+const levelColors = [
+  'bg-neutral-800',
+  'bg-amber-900',
+  'bg-amber-700',
+  'bg-amber-500',
+  'bg-amber-300',
+];
+
+const inputClassName =
+  'w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none';
+
+const Heatmap: React.FC<{ range: UsageRange; weekStart: number }> = ({ range, weekStart }) => {
+  const weeks = heatmapWeeks(range, weekStart);
+
+  return (
+    <div className="flex gap-1 overflow-x-auto" role="img" aria-label="Daily cost heatmap">
+      {weeks.map((week) => (
+        <div key={week[0].date} className="flex flex-col gap-1">
+          {week.map((cell) =>
+            cell.inRange ? (
+              <div
+                key={cell.date}
+                data-level={cell.level}
+                title={`${cell.date}: ${formatCurrency(cell.cost)} · ${formatNumber(cell.tokens)} tokens`}
+                className={`h-3 w-3 rounded-sm ${levelColors[cell.level]}`}
+              />
+            ) : (
+              <div key={cell.date} className="h-3 w-3" />
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ModelTable: React.FC<{ range: UsageRange }> = ({ range }) => {
+  const models = Object.entries(range.models).sort(([, a], [, b]) => b.cost - a.cost);
+  if (models.length === 0) {
+    return <p className="text-sm text-neutral-500">No usage in this range</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-neutral-500 text-left">
+          <th className="font-normal pb-1">Model</th>
+          <th className="font-normal pb-1 text-right">Tokens</th>
+          <th className="font-normal pb-1 text-right">Cost</th>
+          <th className="font-normal pb-1 text-right">Share</th>
+        </tr>
+      </thead>
+      <tbody>
+        {models.map(([model, usage]) => (
+          <tr key={model} className="border-t border-neutral-800">
+            <td className="py-1 text-neutral-400 truncate max-w-[10rem]">{model}</td>
+            <td className="py-1 text-right text-neutral-300">{formatNumber(usage.tokens)}</td>
+            <td className="py-1 text-right text-white">{formatCurrency(usage.cost)}</td>
+            <td className="py-1 text-right text-neutral-400">
+              {range.totalCost > 0 ? Math.round((usage.cost / range.totalCost) * 100) : 0}%
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const tokenTypes: { key: keyof TokenBreakdown; label: string; color: string }[] = [
+  { key: 'inputTokens', label: 'Input', color: 'bg-blue-500' },
+  { key: 'outputTokens', label: 'Output', color: 'bg-purple-500' },
+  { key: 'cacheCreationTokens', label: 'Cache write', color: 'bg-amber-500' },
+  { key: 'cacheReadTokens', label: 'Cache read', color: 'bg-green-500' },
+];
+
+const percent = (part: number, total: number): string =>
+  `${total > 0 ? Math.round((part / total) * 100) : 0}%`;
+
+const CacheRow: React.FC<{ row: CacheEfficiency }> = ({ row }) => {
+  const total = tokenTypes.reduce((sum, type) => sum + row.breakdown[type.key], 0);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-neutral-400 truncate max-w-[50%]">{row.model}</span>
+        <span className="text-white">
+          {percent(row.hitRate, 1)} hit · saved {formatCurrency(row.estimatedSavings)}
+        </span>
+      </div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-neutral-800">
+        {tokenTypes.map((type) => (
+          <div
+            key={type.key}
+            className={type.color}
+            style={{ width: percent(row.breakdown[type.key], total) }}
+            title={`${type.label}: ${formatNumber(row.breakdown[type.key])} (${percent(row.breakdown[type.key], total)})`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CacheEfficiencyCard: React.FC<{ range: UsageRange }> = ({ range }) => {
+  const { models, total } = cacheEfficiency(range.models);
+  if (models.length === 0) return null;
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg text-white">Cache Efficiency</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-neutral-400">Cache hit rate</p>
+            <p className="text-xl font-bold text-white">{percent(total.hitRate, 1)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-neutral-400">Saved by cache reads</p>
+            <p className="text-xl font-bold text-white">{formatCurrency(total.estimatedSavings)}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-neutral-500">
+          {tokenTypes.map((type) => (
+            <span key={type.key} className="flex items-center gap-1">
+              <span className={`inline-block h-2 w-2 rounded-full ${type.color}`} />
+              {type.label}
+            </span>
+          ))}
+        </div>
+        {models.map((row) => (
+          <CacheRow key={row.model} row={row} />
+        ))}
+        <p className="text-xs text-neutral-500">
+          Hit rate is the share of prompt tokens read from the cache. Savings compare cache reads
+          with the full input price, estimated from each model's cost
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ stats, weekStart }) => {
+  // Today in the configured time zone
+  const today = stats.today.date;
+  const [preset, setPreset] = useState<UsageRangePreset>('thisMonth');
+  const [custom, setCustom] = useState(() => rangeForPreset('last30', today));
+  const [range, setRange] = useState<UsageRange | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { from, to } = preset === 'custom' ? custom : rangeForPreset(preset, today);
+
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+
+    let cancelled = false;
+    setRange(null);
+    setError(null);
+
+    window.electronAPI
+      ?.getUsageRange({ from, to })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.ok) {
+          setRange(result.data);
+        } else {
+          setError(describeUsageError(result.error));
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  const extraUsage = stats.oauthUtilization?.extraUsage;
+  const activeDays = range?.days.filter((day) => day.totalTokens > 0).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={preset} onValueChange={(value: UsageRangePreset) => setPreset(value)}>
+            <SelectTrigger
+              aria-label="History range"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_PRESET_LABELS) as UsageRangePreset[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {RANGE_PRESET_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {preset === 'custom' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="history-from" className="text-sm text-neutral-400 block mb-2">
+                  From
+                </label>
+                <input
+                  id="history-from"
+                  type="date"
+                  value={custom.from}
+                  max={custom.to}
+                  onChange={(e) => setCustom({ ...custom, from: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="history-to" className="text-sm text-neutral-400 block mb-2">
+                  To
+                </label>
+                <input
+                  id="history-to"
+                  type="date"
+                  value={custom.to}
+                  min={custom.from}
+                  onChange={(e) => setCustom({ ...custom, to: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!error && !range && <p className="text-sm text-neutral-500">Loading history...</p>}
+
+          {range && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-neutral-400">Cost</p>
+                  <p className="text-xl font-bold text-white">{formatCurrency(range.totalCost)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-neutral-400">Tokens</p>
+                  <p className="text-xl font-bold text-white">{formatNumber(range.totalTokens)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-neutral-400">Active days</p>
+                  <p className="text-xl font-bold text-white">{activeDays}</p>
+                </div>
+              </div>
+              {activeDays > 0 && (
+                <p className="text-xs text-neutral-500">
+                  {formatCurrency(range.totalCost / activeDays)} per active day
+                </p>
+              )}
+              <Heatmap range={range} weekStart={weekStart} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {extraUsage?.isEnabled && preset === 'thisMonth' && (
+        <Card className="bg-neutral-900/80 border-neutral-800">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg text-white">Extra Usage This Month</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-neutral-400">Credits used</span>
+              <span className="text-white">
+                {extraUsage.usedCredits ?? 0}
+                {extraUsage.monthlyLimit !== null && ` of ${extraUsage.monthlyLimit}`}
+              </span>
+            </div>
+            <Progress value={extraUsage.utilization ?? 0} className="h-2" />
+            <p className="text-xs text-neutral-500">
+              The monthly extra-usage credit limit reported by the API, next to this month's
+              estimated spend above
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {range && (
+        <Card className="bg-neutral-900/80 border-neutral-800">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg text-white">By Model</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ModelTable range={range} />
+          </CardContent>
+        </Card>
+      )}
+
+      {range && <CacheEfficiencyCard range={range} />}
+    </div>
+  );
+};
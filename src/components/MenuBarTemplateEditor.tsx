@@ -0,0 +1,90 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import {
+  MENU_BAR_TOKENS,
+  SAMPLE_MENU_BAR_DATA,
+  renderTemplate,
+  validateTemplate,
+} from '../services/menuBarTemplate';
+import type { MenuBarData } from '../types/usage';
+
+interface MenuBarTemplateEditorProps {
+  template: string;
+  onChange: (template: string) => void;
+}
+
+/**
+ * Title template with a preview from the latest poll (sample data until there is one)
+ */
+export const MenuBarTemplateEditor: React.FC<MenuBarTemplateEditorProps> = ({
+  template,
+  onChange,
+}) => {
+  // Only valid templates are saved; the draft keeps what is being typed
+  const [draft, setDraft] = useState(template);
+  const [data, setData] = useState<MenuBarData>(SAMPLE_MENU_BAR_DATA);
+  const errors = validateTemplate(draft);
+
+  // Follow changes made elsewhere (the tray menu's presets)
+  useEffect(() => {
+    setDraft(template);
+  }, [template]);
+
+  useEffect(() => {
+    window.electronAPI
+      ?.getMenuBarData?.()
+      .then(setData)
+      .catch((error) => console.error('Failed to load menu bar data:', error));
+  }, []);
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    if (validateTemplate(value).length === 0) onChange(value);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="menu-bar-template" className="text-sm text-neutral-400 block">
+        Title
+      </label>
+      <input
+        id="menu-bar-template"
+        type="text"
+        value={draft}
+        spellCheck={false}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`w-full bg-neutral-800 border rounded-md px-3 py-2 font-mono text-sm text-white focus:outline-none ${
+          errors.length === 0 ? 'border-neutral-700 focus:border-amber-500' : 'border-red-500'
+        }`}
+      />
+      {errors.length > 0 ? (
+        <ul className="text-xs text-red-400 space-y-0.5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="flex items-center justify-between rounded-md bg-neutral-950 px-3 py-1.5">
+          <span className="text-xs text-neutral-500">Preview</span>
+          <span data-testid="menu-bar-preview" className="text-sm text-white tabular-nums">
+            {renderTemplate(draft, data)}
+          </span>
+        </div>
+      )}
+      <details className="text-xs text-neutral-500">
+        <summary className="cursor-pointer">Available tokens</summary>
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {Object.entries(MENU_BAR_TOKENS).map(([name, token]) => (
+            <div key={name} className="contents">
+              <dt className="font-mono text-neutral-300">{`{${name}}`}</dt>
+              <dd>{token.description}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="mt-2">
+          Write {'{{'} and {'}}'} for literal braces. Values that are unavailable show as --
+        </p>
+      </details>
+    </div>
+  );
+};
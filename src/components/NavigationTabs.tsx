@@ -1,7 +1,7 @@
 import type React from 'react';
 import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
 
-export type ViewType = 'status' | 'settings';
+export type ViewType = 'status' | 'projects' | 'history' | 'settings';
 
 interface NavigationTabsProps {
   currentView: ViewType;
@@ -21,6 +21,30 @@ const StatusIcon = () => (
   </svg>
 );
 
+const ProjectsIcon = () => (
+  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <title>Projects</title>
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={1.5}
+      d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z"
+    />
+  </svg>
+);
+
+const HistoryIcon = () => (
+  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <title>History</title>
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={1.5}
+      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+    />
+  </svg>
+);
+
 const SettingsIcon = () => (
   <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <title>Settings</title>
@@ -40,6 +64,16 @@ const tabs = [
     name: 'Status',
     icon: StatusIcon,
   },
+  {
+    id: 'projects' as ViewType,
+    name: 'Projects',
+    icon: ProjectsIcon,
+  },
+  {
+    id: 'history' as ViewType,
+    name: 'History',
+    icon: HistoryIcon,
+  },
   {
     id: 'settings' as ViewType,
     name: 'Settings',
@@ -58,7 +92,7 @@ export const NavigationTabs: React.FC<NavigationTabsProps> = ({
       onValueChange={(value) => onNavigate(value as ViewType)}
       className={`${className} w-full`}
     >
-      <TabsList className="grid w-full grid-cols-2 gap-1">
+      <TabsList className="grid w-full grid-cols-4 gap-1">
         {tabs.map((tab) => {
           const IconComponent = tab.icon;
           return (
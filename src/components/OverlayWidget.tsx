@@ -0,0 +1,92 @@
+import type React from 'react';
+import { formatCountdown } from '../services/calendar';
+import { levelFor, thresholdsFor } from '../services/thresholdPolicy';
+import type {
+  LimitKey,
+  NotificationThresholds,
+  OverlaySettings,
+  UsageLevel,
+  UsageStats,
+} from '../types/usage';
+
+interface OverlayWidgetProps {
+  stats: UsageStats | null;
+  thresholds: NotificationThresholds;
+  overlay: OverlaySettings;
+  now: number;
+}
+
+const gaugeColors: Record<UsageLevel, string> = {
+  safe: 'bg-green-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+const Gauge: React.FC<{
+  label: string;
+  limit: LimitKey;
+  utilization: number | undefined;
+  thresholds: NotificationThresholds;
+}> = ({ label, limit, utilization, thresholds }) => {
+  const level =
+    utilization === undefined ? 'safe' : levelFor(utilization, thresholdsFor(thresholds, limit));
+
+  return (
+    <div className="flex items-center gap-2 h-6" data-level={level}>
+      <span className="w-5 text-neutral-400">{label}</span>
+      <div className="flex-1 h-1.5 rounded-full bg-neutral-700 overflow-hidden">
+        <div
+          className={`h-full ${gaugeColors[level]}`}
+          style={{ width: `${Math.min(utilization ?? 0, 100)}%` }}
+        />
+      </div>
+      <span className="w-10 text-right tabular-nums">
+        {utilization === undefined ? '--' : `${Math.round(utilization)}%`}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Contents of the floating overlay: 5-hour and weekly gauges and the time until the 5-hour reset
+ */
+export const OverlayWidget: React.FC<OverlayWidgetProps> = ({
+  stats,
+  thresholds,
+  overlay,
+  now,
+}) => {
+  const oauth = stats?.oauthUtilization?.isAvailable ? stats.oauthUtilization : undefined;
+  const countdown = oauth?.fiveHour.resetsAt ? formatCountdown(oauth.fiveHour.resetsAt, now) : '';
+
+  return (
+    <div
+      className="h-screen w-screen rounded-lg bg-neutral-900 px-3 py-2 text-xs text-white"
+      style={{ opacity: overlay.opacity }}
+    >
+      {overlay.showFiveHour && (
+        <Gauge
+          label="5h"
+          limit="fiveHour"
+          utilization={oauth?.fiveHour.utilization}
+          thresholds={thresholds}
+        />
+      )}
+      {overlay.showWeekly && (
+        <Gauge
+          label="7d"
+          limit="sevenDay"
+          utilization={oauth?.sevenDay.utilization}
+          thresholds={thresholds}
+        />
+      )}
+      {overlay.showCountdown && (
+        <p className="h-6 leading-6 text-neutral-400 tabular-nums">
+          {countdown === 'Resetting...' && countdown}
+          {countdown !== 'Resetting...' &&
+            (countdown ? `Resets in ${countdown}` : 'Reset time unknown')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { formatCurrency, formatNumber } from '../lib/format';
+import { describeUsageError } from '../services/usageErrors';
+import { rangeForPreset } from '../services/usageRange';
+import type { ProjectUsage, UsageStats } from '../types/usage';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+type ProjectRange = 'today' | 'week' | 'custom';
+
+interface ProjectsViewProps {
+  stats: UsageStats;
+}
+
+const ProjectRow: React.FC<{
+  project: ProjectUsage;
+  totalCost: number;
+  expanded: boolean;
+  onToggle: () => void;
+}> = ({ project, totalCost, expanded, onToggle }) => {
+  const share = totalCost > 0 ? (project.totalCost / totalCost) * 100 : 0;
+  const models = Object.entries(project.models).sort(([, a], [, b]) => b.cost - a.cost);
+
+  return (
+    <div className="space-y-2 py-2 border-b border-neutral-800 last:border-b-0">
+      <button
+        type="button"
+        onClick={onToggle}
+        aria-expanded={expanded}
+        className="w-full text-left space-y-1"
+        title={project.project}
+      >
+        <div className="flex justify-between text-sm">
+          <span className="text-white truncate max-w-[60%]">{project.name}</span>
+          <span className="text-white">
+            {formatNumber(project.totalTokens)} · {formatCurrency(project.totalCost)}
+          </span>
+        </div>
+        <Progress value={share} className="h-1" />
+        <p className="text-xs text-neutral-500 truncate">
+          {models.map(([model]) => model).join(', ')}
+        </p>
+      </button>
+
+      {expanded && (
+        <div className="pl-3 space-y-3">
+          <div className="space-y-1">
+            <p className="text-xs text-neutral-500">By Model</p>
+            {models.map(([model, usage]) => (
+              <div key={model} className="flex justify-between text-xs">
+                <span className="text-neutral-400 truncate max-w-[60%]">{model}</span>
+                <span className="text-neutral-300">
+                  {formatNumber(usage.tokens)} · {formatCurrency(usage.cost)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-neutral-500">By Day</p>
+            {project.days.map((day) => (
+              <div key={day.date} className="flex justify-between text-xs">
+                <span className="text-neutral-400">{day.date}</span>
+                <span className="text-neutral-300">
+                  {formatNumber(day.totalTokens)} · {formatCurrency(day.totalCost)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ProjectsView: React.FC<ProjectsViewProps> = ({ stats }) => {
+  const [range, setRange] = useState<ProjectRange>('today');
+  // Default custom range: the last 30 days, in the configured time zone
+  const [from, setFrom] = useState(() => rangeForPreset('last30', stats.today.date).from);
+  const [to, setTo] = useState(stats.today.date);
+  const [customProjects, setCustomProjects] = useState<ProjectUsage[] | null>(null);
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (range !== 'custom' || !from || !to || from > to) return;
+
+    let cancelled = false;
+    setCustomProjects(null);
+    setCustomError(null);
+
+    window.electronAPI
+      ?.getProjectUsage({ from, to })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.ok) {
+          setCustomProjects(result.data);
+        } else {
+          setCustomError(describeUsageError(result.error));
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setCustomError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, from, to]);
+
+  const projects =
+    range === 'today'
+      ? (stats.projects?.today ?? [])
+      : range === 'week'
+        ? (stats.projects?.thisWeek ?? [])
+        : customProjects;
+  const totalCost = (projects ?? []).reduce((sum, p) => sum + p.totalCost, 0);
+  const totalTokens = (projects ?? []).reduce((sum, p) => sum + p.totalTokens, 0);
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Projects</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={range} onValueChange={(value: ProjectRange) => setRange(value)}>
+            <SelectTrigger
+              aria-label="Range"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="today">Today</SelectItem>
+              <SelectItem value="week">This week</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {range === 'custom' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="projects-from" className="text-sm text-neutral-400 block mb-2">
+                  From
+                </label>
+                <input
+                  id="projects-from"
+                  type="date"
+                  value={from}
+                  max={to}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="projects-to" className="text-sm text-neutral-400 block mb-2">
+                  To
+                </label>
+                <input
+                  id="projects-to"
+                  type="date"
+                  value={to}
+                  min={from}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-neutral-400">Tokens</p>
+              <p className="text-xl font-bold text-white">{formatNumber(totalTokens)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-400">Cost</p>
+              <p className="text-xl font-bold text-white">{formatCurrency(totalCost)}</p>
+            </div>
+          </div>
+
+          {customError && <p className="text-sm text-red-400">{customError}</p>}
+          {!customError && projects === null && (
+            <p className="text-sm text-neutral-500">Loading projects...</p>
+          )}
+          {projects?.length === 0 && (
+            <p className="text-sm text-neutral-500">No usage in this range</p>
+          )}
+
+          {projects && projects.length > 0 && (
+            <div className="pt-2 border-t border-neutral-800">
+              {projects.map((project) => (
+                <ProjectRow
+                  key={project.project}
+                  project={project}
+                  totalCost={totalCost}
+                  expanded={expanded === project.project}
+                  onToggle={() =>
+                    setExpanded((current) => (current === project.project ? null : project.project))
+                  }
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,13 +1,452 @@
 import type React from 'react';
-import type { UserConfiguration } from '../types/usage';
+import { useEffect, useState } from 'react';
+import { isValidTimeZone, systemTimeZone } from '../services/calendar';
+import { usesCostSource } from '../services/menuBarTemplate';
+import { LIMIT_KEYS, LIMIT_LABELS, thresholdsFor } from '../services/thresholdPolicy';
+import type {
+  CalendarSettings,
+  DigestFrequency,
+  DigestSettings,
+  LimitKey,
+  NotificationThresholds,
+  OverlayCorner,
+  OverlaySettings,
+  TrayIconSettings,
+  UserConfiguration,
+  WindowMode,
+  WindowSettings,
+} from '../types/usage';
+import { AccountsEditor } from './AccountsEditor';
+import { AlertRulesEditor } from './AlertRulesEditor';
+import { DeliveryChannelsEditor } from './DeliveryChannelsEditor';
+import { ExportPanel } from './ExportPanel';
+import { MenuBarTemplateEditor } from './MenuBarTemplateEditor';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
 
 interface SettingsPanelProps {
   preferences: UserConfiguration;
   onUpdatePreferences: (preferences: Partial<UserConfiguration>) => void;
 }
 
+const PerLimitThresholds: React.FC<{
+  thresholds: NotificationThresholds;
+  onChange: (thresholds: NotificationThresholds) => void;
+}> = ({ thresholds, onChange }) => {
+  const update = (limit: LimitKey, field: 'warning' | 'critical', value: number) => {
+    onChange({
+      ...thresholds,
+      perLimit: {
+        ...thresholds.perLimit,
+        [limit]: { ...thresholdsFor(thresholds, limit), [field]: value },
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-xs text-neutral-500">
+        <span>Limit</span>
+        <span>Warning %</span>
+        <span>Critical %</span>
+      </div>
+      {LIMIT_KEYS.map((limit) => {
+        const levels = thresholdsFor(thresholds, limit);
+        return (
+          <div key={limit} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+            <span className="text-sm text-neutral-400">{LIMIT_LABELS[limit]}</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              aria-label={`${LIMIT_LABELS[limit]} warning`}
+              value={levels.warning}
+              onChange={(e) => update(limit, 'warning', Number.parseInt(e.target.value) || 0)}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-amber-500 focus:outline-none"
+            />
+            <input
+              type="number"
+              min="0"
+              max="100"
+              aria-label={`${LIMIT_LABELS[limit]} critical`}
+              value={levels.critical}
+              onChange={(e) => update(limit, 'critical', Number.parseInt(e.target.value) || 0)}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-white focus:border-red-500 focus:outline-none"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DigestSettingsEditor: React.FC<{
+  digest: DigestSettings;
+  onChange: (digest: DigestSettings) => void;
+}> = ({ digest, onChange }) => {
+  const update = (changes: Partial<DigestSettings>) => onChange({ ...digest, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label htmlFor="digest-enabled" className="text-sm text-neutral-400">
+          Send a usage digest
+        </label>
+        <Switch
+          id="digest-enabled"
+          checked={digest.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+      {digest.enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <span className="text-sm text-neutral-400 block mb-2">Frequency</span>
+            <Select
+              value={digest.frequency}
+              onValueChange={(frequency: DigestFrequency) => update({ frequency })}
+            >
+              <SelectTrigger
+                aria-label="Digest frequency"
+                className="w-full bg-neutral-800 border-neutral-700 text-white"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="digest-time" className="text-sm text-neutral-400 block mb-2">
+              At
+            </label>
+            <input
+              id="digest-time"
+              type="time"
+              value={digest.time}
+              onChange={(e) => update({ time: e.target.value || '09:00' })}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+      {digest.enabled && digest.frequency === 'weekly' && (
+        <div>
+          <span className="text-sm text-neutral-400 block mb-2">On</span>
+          <Select
+            value={String(digest.weekday)}
+            onValueChange={(value) => update({ weekday: Number(value) })}
+          >
+            <SelectTrigger
+              aria-label="Digest weekday"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((day, index) => (
+                <SelectItem key={day} value={String(index)}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {digest.enabled && (
+        <div className="flex items-center justify-between">
+          <label htmlFor="digest-report" className="text-sm text-neutral-400">
+            Save a Markdown report
+          </label>
+          <Switch
+            id="digest-report"
+            checked={digest.writeReport}
+            onCheckedChange={(writeReport) => update({ writeReport })}
+          />
+        </div>
+      )}
+      <p className="text-xs text-neutral-500">
+        Recaps the previous day (or week): tokens, cost per model, peak 5-hour usage and weekly
+        progress. Reports are saved to ~/.claude-meter/reports
+      </p>
+    </div>
+  );
+};
+
+const TrayIconOptions: React.FC<{
+  trayIcon: TrayIconSettings;
+  onChange: (trayIcon: TrayIconSettings) => void;
+}> = ({ trayIcon, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <label htmlFor="tray-icon-enabled" className="text-sm text-neutral-400">
+        Show a usage gauge as the icon
+      </label>
+      <Switch
+        id="tray-icon-enabled"
+        checked={trayIcon.enabled}
+        onCheckedChange={(enabled) => onChange({ ...trayIcon, enabled })}
+      />
+    </div>
+    {trayIcon.enabled && (
+      <div className="flex items-center justify-between">
+        <label htmlFor="tray-icon-weekly" className="text-sm text-neutral-400">
+          Add the weekly limit as an inner ring
+        </label>
+        <Switch
+          id="tray-icon-weekly"
+          checked={trayIcon.showWeekly}
+          onCheckedChange={(showWeekly) => onChange({ ...trayIcon, showWeekly })}
+        />
+      </div>
+    )}
+    <p className="text-xs text-neutral-500">
+      The ring fills with the 5-hour utilization and turns amber or red at your thresholds. Linux
+      and Windows trays show no title, so the gauge is the only reading there
+    </p>
+  </div>
+);
+
+const WindowOptions: React.FC<{
+  windowSettings: WindowSettings;
+  onChange: (windowSettings: WindowSettings) => void;
+}> = ({ windowSettings, onChange }) => (
+  <div className="space-y-2">
+    <div>
+      <span className="text-sm text-neutral-400 block mb-2">Mode</span>
+      <Select
+        value={windowSettings.mode}
+        onValueChange={(mode: WindowMode) => onChange({ ...windowSettings, mode })}
+      >
+        <SelectTrigger
+          aria-label="Window mode"
+          className="w-full bg-neutral-800 border-neutral-700 text-white"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="popover">Menu bar popover</SelectItem>
+          <SelectItem value="dashboard">Dashboard window</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+    {windowSettings.mode === 'dashboard' && (
+      <div className="flex items-center justify-between">
+        <label htmlFor="window-pinned" className="text-sm text-neutral-400">
+          Keep on top of other windows
+        </label>
+        <Switch
+          id="window-pinned"
+          checked={windowSettings.pinned}
+          onCheckedChange={(pinned) => onChange({ ...windowSettings, pinned })}
+        />
+      </div>
+    )}
+    <p className="text-xs text-neutral-500">
+      The dashboard is a normal window that stays open and shows status and history side by side. It
+      reopens where you left it on each display
+    </p>
+  </div>
+);
+
+const OVERLAY_CORNERS: { value: OverlayCorner; label: string }[] = [
+  { value: 'topLeft', label: 'Top left' },
+  { value: 'topRight', label: 'Top right' },
+  { value: 'bottomLeft', label: 'Bottom left' },
+  { value: 'bottomRight', label: 'Bottom right' },
+];
+
+const OVERLAY_METRICS: { key: 'showFiveHour' | 'showWeekly' | 'showCountdown'; label: string }[] = [
+  { key: 'showFiveHour', label: '5-hour gauge' },
+  { key: 'showWeekly', label: 'Weekly gauge' },
+  { key: 'showCountdown', label: 'Time until the 5-hour reset' },
+];
+
+const OverlayOptions: React.FC<{
+  overlay: OverlaySettings;
+  onChange: (overlay: OverlaySettings) => void;
+}> = ({ overlay, onChange }) => (
+  <div className="space-y-4">
+    <div className="flex items-center justify-between">
+      <label htmlFor="overlay-enabled" className="text-sm text-neutral-400">
+        Show a floating overlay
+      </label>
+      <Switch
+        id="overlay-enabled"
+        checked={overlay.enabled}
+        onCheckedChange={(enabled) => onChange({ ...overlay, enabled })}
+      />
+    </div>
+    {overlay.enabled && (
+      <>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <span className="text-sm text-neutral-400 block mb-2">Corner</span>
+            <Select
+              value={overlay.corner}
+              onValueChange={(corner: OverlayCorner) => onChange({ ...overlay, corner })}
+            >
+              <SelectTrigger
+                aria-label="Overlay corner"
+                className="w-full bg-neutral-800 border-neutral-700 text-white"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OVERLAY_CORNERS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="overlay-opacity" className="text-sm text-neutral-400 block mb-2">
+              Opacity ({Math.round(overlay.opacity * 100)}%)
+            </label>
+            <input
+              id="overlay-opacity"
+              type="range"
+              min={20}
+              max={100}
+              step={5}
+              value={Math.round(overlay.opacity * 100)}
+              onChange={(e) => onChange({ ...overlay, opacity: Number(e.target.value) / 100 })}
+              className="w-full accent-amber-500 mt-2"
+            />
+          </div>
+        </div>
+        {OVERLAY_METRICS.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between">
+            <label htmlFor={`overlay-${key}`} className="text-sm text-neutral-400">
+              {label}
+            </label>
+            <Switch
+              id={`overlay-${key}`}
+              checked={overlay[key]}
+              onCheckedChange={(checked) => onChange({ ...overlay, [key]: checked })}
+            />
+          </div>
+        ))}
+      </>
+    )}
+    <p className="text-xs text-neutral-500">
+      A small always-on-top readout that clicks pass through, shown over full-screen windows too.
+      Handy on desktops without a tray
+    </p>
+  </div>
+);
+
+const LocalApiPortInput: React.FC<{
+  port: number;
+  onChange: (port: number) => void;
+}> = ({ port, onChange }) => {
+  // Saved on blur or Enter: every save restarts the server, so 8, 80 and 808 must not be
+  const [draft, setDraft] = useState(String(port));
+  const value = Number(draft);
+  const valid = Number.isInteger(value) && value >= 1024 && value <= 65535;
+
+  useEffect(() => {
+    setDraft(String(port));
+  }, [port]);
+
+  const commit = () => {
+    if (valid && value !== port) onChange(value);
+  };
+
+  return (
+    <div>
+      <label htmlFor="local-api-port" className="text-sm text-neutral-400 block mb-2">
+        Port
+      </label>
+      <input
+        id="local-api-port"
+        type="number"
+        min="1024"
+        max="65535"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        className={`w-full bg-neutral-800 border rounded-md px-3 py-2 text-white focus:outline-none ${
+          valid ? 'border-neutral-700 focus:border-amber-500' : 'border-red-500'
+        }`}
+      />
+      {!valid && <p className="text-xs text-red-400 mt-1">Use a port from 1024 to 65535</p>}
+    </div>
+  );
+};
+
+const CalendarSettingsEditor: React.FC<{
+  calendar: CalendarSettings;
+  onChange: (calendar: CalendarSettings) => void;
+}> = ({ calendar, onChange }) => {
+  // Only complete zone names are saved; the draft keeps what is being typed
+  const [timezone, setTimezone] = useState(calendar.timezone);
+  const valid = timezone === '' || isValidTimeZone(timezone);
+
+  const handleTimezoneChange = (value: string) => {
+    setTimezone(value);
+    if (value === '' || isValidTimeZone(value)) onChange({ ...calendar, timezone: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="calendar-timezone" className="text-sm text-neutral-400 block mb-2">
+            Time zone
+          </label>
+          <input
+            id="calendar-timezone"
+            type="text"
+            value={timezone}
+            placeholder={systemTimeZone()}
+            onChange={(e) => handleTimezoneChange(e.target.value.trim())}
+            className={`w-full bg-neutral-800 border rounded-md px-3 py-2 text-white focus:outline-none ${
+              valid ? 'border-neutral-700 focus:border-amber-500' : 'border-red-500'
+            }`}
+          />
+        </div>
+        <div>
+          <span className="text-sm text-neutral-400 block mb-2">Week starts on</span>
+          <Select
+            value={String(calendar.weekStart)}
+            onValueChange={(value) => onChange({ ...calendar, weekStart: Number(value) })}
+          >
+            <SelectTrigger
+              aria-label="Week starts on"
+              className="w-full bg-neutral-800 border-neutral-700 text-white"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((day, index) => (
+                <SelectItem key={day} value={String(index)}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {!valid && <p className="text-xs text-red-400">Unknown time zone</p>}
+      <p className="text-xs text-neutral-500">
+        Decides where one day ends for today's usage, history, summaries and exports. Leave the time
+        zone empty to follow the system (an IANA name such as America/New_York)
+      </p>
+    </div>
+  );
+};
+
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   preferences,
   onUpdatePreferences,
@@ -21,32 +460,31 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   return (
     <div className="space-y-4 p-4">
+      {/* Accounts */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Accounts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AccountsEditor
+            accounts={preferences.accounts}
+            onChange={(accounts) => handlePreferenceChange('accounts', accounts)}
+          />
+        </CardContent>
+      </Card>
+
       {/* Menu Bar Display */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-white">Menu Bar Display</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div>
-            <span className="text-sm text-neutral-400 block mb-2">Display Mode</span>
-            <Select
-              value={preferences.menuBarDisplayMode}
-              onValueChange={(value: 'both' | 'percentage' | 'cost') =>
-                handlePreferenceChange('menuBarDisplayMode', value)
-              }
-            >
-              <SelectTrigger className="w-full bg-neutral-800 border-neutral-700 text-white">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="both">Both (45% · $2.35)</SelectItem>
-                <SelectItem value="percentage">Percentage only (45%)</SelectItem>
-                <SelectItem value="cost">Cost only ($2.35)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          <MenuBarTemplateEditor
+            template={preferences.menuBarTemplate}
+            onChange={(template) => handlePreferenceChange('menuBarTemplate', template)}
+          />
 
-          {preferences.menuBarDisplayMode !== 'percentage' && (
+          {usesCostSource(preferences.menuBarTemplate) && (
             <div>
               <span className="text-sm text-neutral-400 block mb-2">Cost Source</span>
               <Select
@@ -68,6 +506,37 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </p>
             </div>
           )}
+
+          <TrayIconOptions
+            trayIcon={preferences.trayIcon}
+            onChange={(trayIcon) => handlePreferenceChange('trayIcon', trayIcon)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Window */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Window</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <WindowOptions
+            windowSettings={preferences.window}
+            onChange={(windowSettings) => handlePreferenceChange('window', windowSettings)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Overlay */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Overlay</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OverlayOptions
+            overlay={preferences.overlay}
+            onChange={(overlay) => handlePreferenceChange('overlay', overlay)}
+          />
         </CardContent>
       </Card>
 
@@ -123,12 +592,283 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </div>
             </div>
           </div>
+          <div className="flex items-center justify-between">
+            <label htmlFor="per-limit-thresholds" className="text-sm text-neutral-400">
+              Separate thresholds per limit
+            </label>
+            <Switch
+              id="per-limit-thresholds"
+              checked={preferences.notificationThresholds.perLimit !== undefined}
+              onCheckedChange={(enabled) =>
+                handlePreferenceChange('notificationThresholds', {
+                  warning: preferences.notificationThresholds.warning,
+                  critical: preferences.notificationThresholds.critical,
+                  ...(enabled ? { perLimit: {} } : {}),
+                })
+              }
+            />
+          </div>
+          {preferences.notificationThresholds.perLimit && (
+            <PerLimitThresholds
+              thresholds={preferences.notificationThresholds}
+              onChange={(thresholds) =>
+                handlePreferenceChange('notificationThresholds', thresholds)
+              }
+            />
+          )}
           <p className="text-xs text-neutral-500">
             Receive notifications when usage reaches these thresholds
           </p>
         </CardContent>
       </Card>
 
+      {/* Alerts */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Alerts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AlertRulesEditor
+            alerts={preferences.alerts}
+            onChange={(alerts) => handlePreferenceChange('alerts', alerts)}
+          />
+          <div className="space-y-4 pt-4 border-t border-neutral-800">
+            <div className="flex items-center justify-between">
+              <label htmlFor="reset-notifications" className="text-sm text-neutral-400">
+                Notify when a limit resets
+              </label>
+              <Switch
+                id="reset-notifications"
+                checked={preferences.resetNotifications.enabled}
+                onCheckedChange={(enabled) =>
+                  handlePreferenceChange('resetNotifications', {
+                    ...preferences.resetNotifications,
+                    enabled,
+                  })
+                }
+              />
+            </div>
+            {preferences.resetNotifications.enabled && (
+              <div className="flex items-center justify-between">
+                <label htmlFor="reset-only-blocked" className="text-sm text-neutral-400">
+                  Only for limits at 100%
+                </label>
+                <Switch
+                  id="reset-only-blocked"
+                  checked={preferences.resetNotifications.onlyWhenBlocked}
+                  onCheckedChange={(onlyWhenBlocked) =>
+                    handlePreferenceChange('resetNotifications', {
+                      ...preferences.resetNotifications,
+                      onlyWhenBlocked,
+                    })
+                  }
+                />
+              </div>
+            )}
+            {preferences.resetNotifications.enabled && (
+              <div>
+                <label
+                  htmlFor="reset-minutes-before"
+                  className="text-sm text-neutral-400 block mb-2"
+                >
+                  Heads-up before reset
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="reset-minutes-before"
+                    type="number"
+                    min="0"
+                    value={preferences.resetNotifications.minutesBefore}
+                    onChange={(e) =>
+                      handlePreferenceChange('resetNotifications', {
+                        ...preferences.resetNotifications,
+                        minutesBefore: Number.parseInt(e.target.value) || 0,
+                      })
+                    }
+                    className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                  />
+                  <span className="text-neutral-400">min</span>
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-neutral-500">
+              Fires at the exact reset time reported by the API. The menu bar shows ⛔ while a limit
+              is exhausted
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Calendar */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Calendar</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CalendarSettingsEditor
+            calendar={preferences.calendar}
+            onChange={(calendar) => handlePreferenceChange('calendar', calendar)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Summary */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DigestSettingsEditor
+            digest={preferences.digest}
+            onChange={(digest) => handlePreferenceChange('digest', digest)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Delivery */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Delivery</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DeliveryChannelsEditor
+            delivery={preferences.delivery}
+            onChange={(delivery) => handlePreferenceChange('delivery', delivery)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Refresh */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Refresh</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="polling-interval" className="text-sm text-neutral-400 block mb-2">
+                Every
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="polling-interval"
+                  type="number"
+                  min="10"
+                  value={preferences.polling.intervalSeconds}
+                  onChange={(e) =>
+                    handlePreferenceChange('polling', {
+                      ...preferences.polling,
+                      intervalSeconds: Number.parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                />
+                <span className="text-neutral-400">s</span>
+              </div>
+            </div>
+            <div>
+              <label
+                htmlFor="polling-idle-interval"
+                className="text-sm text-neutral-400 block mb-2"
+              >
+                When idle
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="polling-idle-interval"
+                  type="number"
+                  min="10"
+                  value={preferences.polling.idleIntervalSeconds}
+                  disabled={!preferences.polling.adaptive}
+                  onChange={(e) =>
+                    handlePreferenceChange('polling', {
+                      ...preferences.polling,
+                      idleIntervalSeconds: Number.parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-white focus:border-amber-500 focus:outline-none disabled:opacity-50"
+                />
+                <span className="text-neutral-400">s</span>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label htmlFor="polling-adaptive" className="text-sm text-neutral-400">
+              Adaptive refresh
+            </label>
+            <Switch
+              id="polling-adaptive"
+              checked={preferences.polling.adaptive}
+              onCheckedChange={(adaptive) =>
+                handlePreferenceChange('polling', { ...preferences.polling, adaptive })
+              }
+            />
+          </div>
+          <p className="text-xs text-neutral-500">
+            Adaptive refresh polls twice as often while usage climbs or nears the warning threshold,
+            and slows down when Claude Code has been idle for 10 minutes. Failed requests back off
+            exponentially
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Export */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Export</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ExportPanel timeZone={preferences.calendar.timezone} />
+        </CardContent>
+      </Card>
+
+      {/* Local API */}
+      <Card className="bg-neutral-900/80 border-neutral-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-white">Local API</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <label htmlFor="local-api-enabled" className="text-sm text-neutral-400">
+              Serve usage on localhost
+            </label>
+            <Switch
+              id="local-api-enabled"
+              checked={preferences.localApi.enabled}
+              onCheckedChange={(enabled) =>
+                handlePreferenceChange('localApi', { ...preferences.localApi, enabled })
+              }
+            />
+          </div>
+          {preferences.localApi.enabled && (
+            <LocalApiPortInput
+              port={preferences.localApi.port}
+              onChange={(port) =>
+                handlePreferenceChange('localApi', { ...preferences.localApi, port })
+              }
+            />
+          )}
+          {preferences.localApi.enabled && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="local-api-metrics" className="text-sm text-neutral-400">
+                Prometheus metrics at /metrics
+              </label>
+              <Switch
+                id="local-api-metrics"
+                checked={preferences.localApi.metrics}
+                onCheckedChange={(metrics) =>
+                  handlePreferenceChange('localApi', { ...preferences.localApi, metrics })
+                }
+              />
+            </div>
+          )}
+          <p className="text-xs text-neutral-500">
+            JSON and server-sent events on 127.0.0.1 for shell prompts and editor plugins. Requests
+            need the token from ~/.claude-meter/api-token
+          </p>
+        </CardContent>
+      </Card>
+
       {/* About */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardContent className="py-4">
@@ -139,7 +879,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
             <div className="flex justify-between">
               <span className="text-neutral-400">Refresh interval</span>
-              <span className="text-neutral-300">30 seconds</span>
+              <span className="text-neutral-300">
+                {`${preferences.polling.intervalSeconds} seconds`}
+              </span>
             </div>
           </div>
         </CardContent>
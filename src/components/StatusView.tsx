@@ -1,31 +1,50 @@
 import type React from 'react';
-import type { UsageStats } from '../types/usage';
+import { formatCurrency, formatNumber } from '../lib/format';
+import { clockTime, resolveTimeZone } from '../services/calendar';
+import { levelFor, thresholdsFor } from '../services/thresholdPolicy';
+import { describeUsageError, uniqueErrors } from '../services/usageErrors';
+import type {
+  CredentialSource,
+  CurrentSession,
+  LimitKey,
+  NotificationThresholds,
+  UsageErrorSource,
+  UsageLevel,
+  UsageStats,
+} from '../types/usage';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
 
 interface StatusViewProps {
   stats: UsageStats;
+  thresholds?: NotificationThresholds;
+  timeZone?: string; // calendar.timezone; empty for the system zone
 }
 
-const formatNumber = (num: number): string => {
-  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
-  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
-  return num.toLocaleString();
+const credentialSourceLabels: Record<CredentialSource, string> = {
+  env: 'environment variable',
+  keychain: 'macOS Keychain',
+  'credentials-file': 'credentials file',
+  'secret-service': 'Secret Service',
 };
 
-const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+const errorSourceLabels: Record<UsageErrorSource, string> = {
+  oauth: 'OAuth API',
+  credentials: 'Credentials',
+  ccusage: 'Local usage files',
 };
 
-const getStatusColor = (percentage: number): string => {
-  if (percentage >= 90) return 'bg-red-500';
-  if (percentage >= 70) return 'bg-amber-500';
-  return 'bg-green-500';
+const statusColors: Record<UsageLevel, string> = {
+  safe: 'bg-green-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+const statusTextColors: Record<UsageLevel, string> = {
+  safe: 'text-white',
+  warning: 'text-amber-400',
+  critical: 'text-red-400',
 };
 
 // Simple sparkline component
@@ -57,19 +76,110 @@ const Sparkline: React.FC<{ data: number[]; className?: string }> = ({ data, cla
   );
 };
 
-export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
+const sessionSourceLabels: Record<CurrentSession['alignedTo'], string> = {
+  oauth: 'Window from the 5-hour limit reset time',
+  block: 'Window estimated from local activity',
+  rolling: 'Last five hours (no active session)',
+};
+
+const CurrentSessionCard: React.FC<{ session: CurrentSession; timeZone: string }> = ({
+  session,
+  timeZone,
+}) => {
+  const models = Object.entries(session.models).sort(([, a], [, b]) => b.cost - a.cost);
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg text-white">Current Session</CardTitle>
+        <p className="text-xs text-neutral-500">
+          {clockTime(session.start, timeZone)} – {clockTime(session.end, timeZone)} ·{' '}
+          {sessionSourceLabels[session.alignedTo]}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-neutral-400">Tokens</p>
+            <p className="text-2xl font-bold text-white">{formatNumber(session.totalTokens)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-neutral-400">Cost</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(session.totalCost)}</p>
+          </div>
+        </div>
+
+        {models.length > 0 && (
+          <div className="space-y-1 pt-2 mt-4 border-t border-neutral-800">
+            {models.map(([model, data]) => (
+              <div key={model} className="flex justify-between text-sm">
+                <span className="text-neutral-400 truncate max-w-[60%]">{model}</span>
+                <span className="text-white">
+                  {formatNumber(data.tokens)} · {formatCurrency(data.cost)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {session.lastActivity && (
+          <p className="text-xs text-neutral-500 mt-2">
+            Last activity {clockTime(session.lastActivity, timeZone)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export const StatusView: React.FC<StatusViewProps> = ({ stats, thresholds, timeZone }) => {
+  const zone = resolveTimeZone(timeZone);
+  const levelOf = (limit: LimitKey, utilization: number): UsageLevel =>
+    levelFor(utilization, thresholdsFor(thresholds, limit));
   const oauth = stats.oauthUtilization;
   const hasOAuth = oauth?.isAvailable;
+  const errors = uniqueErrors(stats.errors ?? []);
+  const hasLocalDataError = errors.some((error) => error.source === 'ccusage');
 
   return (
     <div className="space-y-4 p-4">
+      {/* Diagnostics */}
+      {errors.length > 0 && (
+        <Alert className="bg-red-950/40 border-red-900/60 text-red-200">
+          <AlertTitle className="text-sm">Some data could not be loaded</AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1">
+              {errors.map((error) => (
+                <li key={`${error.source}-${error.kind}`} className="text-xs">
+                  <span className="font-medium">{describeUsageError(error)}</span>
+                  <span className="text-red-300/70">
+                    {' '}
+                    · {errorSourceLabels[error.source]} · {clockTime(error.timestamp, zone)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Current Limits - OAuth API Data */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-white">Current Limits</CardTitle>
-          {!hasOAuth && (
+          {!hasOAuth && oauth?.credentialsExpired && (
+            <p className="text-sm text-red-400">
+              Claude Code credentials expired - sign in to Claude Code again
+            </p>
+          )}
+          {!hasOAuth && !oauth?.credentialsExpired && (
             <p className="text-sm text-amber-400">OAuth data unavailable - connect Claude Code</p>
           )}
+          {hasOAuth && oauth.credentialSource && (
+            <p className="text-xs text-neutral-500">
+              Credentials via{' '}
+              {oauth.credentialLocation ?? credentialSourceLabels[oauth.credentialSource]}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
           {hasOAuth ? (
@@ -85,7 +195,9 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
                   <Progress
                     value={oauth.fiveHour.utilization}
                     className="h-3"
-                    indicatorClassName={getStatusColor(oauth.fiveHour.utilization)}
+                    indicatorClassName={
+                      statusColors[levelOf('fiveHour', oauth.fiveHour.utilization)]
+                    }
                   />
                   <p className="text-xs text-neutral-500">
                     resets in {oauth.fiveHour.formattedTimeRemaining}
@@ -101,7 +213,9 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
                   <Progress
                     value={oauth.sevenDay.utilization}
                     className="h-3"
-                    indicatorClassName={getStatusColor(oauth.sevenDay.utilization)}
+                    indicatorClassName={
+                      statusColors[levelOf('sevenDay', oauth.sevenDay.utilization)]
+                    }
                   />
                   <p className="text-xs text-neutral-500">
                     resets in {oauth.sevenDay.formattedTimeRemaining}
@@ -117,7 +231,9 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
                     {oauth.sevenDaySonnet && (
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-neutral-400">Sonnet</span>
-                        <span className="text-sm font-medium text-white">
+                        <span
+                          className={`text-sm font-medium ${statusTextColors[levelOf('sevenDaySonnet', oauth.sevenDaySonnet.utilization)]}`}
+                        >
                           {oauth.sevenDaySonnet.utilization.toFixed(0)}%
                         </span>
                       </div>
@@ -125,7 +241,9 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
                     {oauth.sevenDayOpus && (
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-neutral-400">Opus</span>
-                        <span className="text-sm font-medium text-white">
+                        <span
+                          className={`text-sm font-medium ${statusTextColors[levelOf('sevenDayOpus', oauth.sevenDayOpus.utilization)]}`}
+                        >
                           {oauth.sevenDayOpus.utilization.toFixed(0)}%
                         </span>
                       </div>
@@ -143,10 +261,18 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
         </CardContent>
       </Card>
 
+      {/* Current Session */}
+      {stats.currentSession && (
+        <CurrentSessionCard session={stats.currentSession} timeZone={zone} />
+      )}
+
       {/* Today's Usage */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-white">Today's Usage</CardTitle>
+          {hasLocalDataError && (
+            <p className="text-sm text-amber-400">Local usage data unavailable - totals may be 0</p>
+          )}
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 gap-4 mb-4">
@@ -223,7 +349,10 @@ export const StatusView: React.FC<StatusViewProps> = ({ stats }) => {
               <div className="flex justify-between text-xs text-neutral-500 mt-1">
                 {stats.thisWeek.slice(0, 7).map((day) => (
                   <span key={day.date}>
-                    {new Date(day.date).toLocaleDateString('en', { weekday: 'short' }).charAt(0)}
+                    {/* Date-only strings parse as UTC midnight */}
+                    {new Date(day.date)
+                      .toLocaleDateString('en', { weekday: 'short', timeZone: 'UTC' })
+                      .charAt(0)}
                   </span>
                 ))}
               </div>
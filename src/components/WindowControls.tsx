@@ -0,0 +1,72 @@
+import type React from 'react';
+import type { WindowSettings } from '../types/usage';
+import { Button } from './ui/button';
+
+interface WindowControlsProps {
+  windowSettings: WindowSettings;
+  onChange: (windowSettings: WindowSettings) => void;
+}
+
+/**
+ * Header buttons to detach the popover into the dashboard window, pin it and attach it back
+ */
+export const WindowControls: React.FC<WindowControlsProps> = ({ windowSettings, onChange }) => {
+  if (windowSettings.mode === 'popover') {
+    return (
+      <Button
+        onClick={() => onChange({ ...windowSettings, mode: 'dashboard' })}
+        variant="ghost"
+        size="icon"
+        className="p-1 hover:bg-white/10"
+        title="Open as dashboard window"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+          />
+        </svg>
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        onClick={() => onChange({ ...windowSettings, pinned: !windowSettings.pinned })}
+        variant="ghost"
+        size="icon"
+        className={`p-1 hover:bg-white/10 ${windowSettings.pinned ? 'text-amber-400' : ''}`}
+        title={windowSettings.pinned ? 'Unpin from top' : 'Keep on top'}
+        aria-pressed={windowSettings.pinned}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 4h6m-5 0v6l-3 4h10l-3-4V4m-2 10v6"
+          />
+        </svg>
+      </Button>
+      <Button
+        onClick={() => onChange({ ...windowSettings, mode: 'popover' })}
+        variant="ghost"
+        size="icon"
+        className="p-1 hover:bg-white/10"
+        title="Attach to menu bar"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 6h16M8 10h8v8H8z"
+          />
+        </svg>
+      </Button>
+    </>
+  );
+};
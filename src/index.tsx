@@ -1,12 +1,14 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import Overlay from './Overlay';
 import './styles/index.css';
 
 const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
 
 root.render(
   <React.StrictMode>
-    <App />
+    {/* main.ts loads the same page with #overlay for the floating overlay window */}
+    {window.location.hash === '#overlay' ? <Overlay /> : <App />}
   </React.StrictMode>
 );
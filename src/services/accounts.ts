@@ -0,0 +1,89 @@
+import { createHash } from 'node:crypto';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Account, AccountSettings } from '../types/usage.js';
+import {
+  CredentialChain,
+  type CredentialProvider,
+  CredentialsFileProvider,
+  EnvCredentialProvider,
+  KEYCHAIN_SERVICE,
+  KeychainCredentialProvider,
+  SecretServiceCredentialProvider,
+} from './credentialProviders.js';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * The account used until any are configured: Claude Code's default credentials and ~/.claude
+ */
+export const DEFAULT_ACCOUNT: Account = {
+  id: DEFAULT_ACCOUNT_ID,
+  name: 'Default',
+  credentialSource: 'auto',
+  configDir: '',
+  dataDirs: [],
+};
+
+export const listAccounts = (settings: AccountSettings): Account[] =>
+  settings.accounts.length > 0 ? settings.accounts : [DEFAULT_ACCOUNT];
+
+/**
+ * The selected account, falling back to the first one when the selection was removed
+ */
+export const activeAccount = (settings: AccountSettings): Account => {
+  const accounts = listAccounts(settings);
+  return accounts.find((account) => account.id === settings.activeAccountId) ?? accounts[0];
+};
+
+/**
+ * Directories are typed in settings, so trim them and expand a leading "~"
+ */
+const expandHome = (input: string): string => {
+  const dir = input.trim();
+  return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.slice(1)) : dir;
+};
+
+/**
+ * Keychain item Claude Code stores credentials in. A custom CLAUDE_CONFIG_DIR gets its own item,
+ * suffixed with the first 8 hex digits of the directory's SHA-256
+ */
+export const keychainServiceFor = (configDir: string): string => {
+  if (!configDir.trim()) return KEYCHAIN_SERVICE;
+  const hash = createHash('sha256').update(expandHome(configDir)).digest('hex').slice(0, 8);
+  return `${KEYCHAIN_SERVICE}-${hash}`;
+};
+
+/**
+ * Providers for an account's credentials. The environment token is only used by the account on
+ * the default config dir (unless picked explicitly), since it cannot tell accounts apart.
+ */
+export const credentialChainFor = (account: Account): CredentialChain => {
+  const configDir = expandHome(account.configDir);
+  const service = keychainServiceFor(configDir);
+  const providers: CredentialProvider[] = [
+    new EnvCredentialProvider(),
+    new KeychainCredentialProvider(service),
+    new CredentialsFileProvider(configDir ? path.join(configDir, '.credentials.json') : undefined),
+    new SecretServiceCredentialProvider(undefined, service),
+  ];
+
+  if (account.credentialSource !== 'auto') {
+    return new CredentialChain(
+      providers.filter((provider) => provider.source === account.credentialSource)
+    );
+  }
+  return new CredentialChain(
+    configDir ? providers.filter((provider) => provider.source !== 'env') : providers
+  );
+};
+
+/**
+ * Claude data directories ccusage should read for the account; undefined lets ccusage use its
+ * defaults (CLAUDE_CONFIG_DIR, then ~/.config/claude and ~/.claude)
+ */
+export const usagePathsFor = (account: Account): string[] | undefined => {
+  const dirs = account.dataDirs.some((dir) => dir.trim()) ? account.dataDirs : [account.configDir];
+  const paths = dirs.map(expandHome).filter(Boolean);
+  return paths.length > 0 ? paths : undefined;
+};
@@ -0,0 +1,198 @@
+import type {
+  AlertRule,
+  AlertSeverity,
+  LimitKey,
+  NotificationThresholds,
+  UsageStats,
+} from '../types/usage.js';
+import { clockTime, systemTimeZone } from './calendar.js';
+import { LIMIT_KEYS, LIMIT_LABELS, limitUtilizations, thresholdsFor } from './thresholdPolicy.js';
+
+const THRESHOLD_COOLDOWN_MINUTES = 5;
+const THRESHOLD_HYSTERESIS = 5;
+
+/**
+ * Values alert rules are evaluated against, taken from one poll
+ */
+export interface AlertSnapshot {
+  utilization: Partial<Record<LimitKey, number>>;
+  todayCost: number;
+  resetsInMinutes: Partial<Record<LimitKey, number>>;
+}
+
+export interface FiredAlert {
+  rule: AlertRule;
+  value: number;
+  message: string;
+}
+
+interface RuleState {
+  armed: boolean; // false after firing until the value moves back past the hysteresis band
+  lastFiredAt: number;
+}
+
+const minutesUntil = (iso: string | null | undefined, now: number): number | undefined => {
+  if (!iso) return undefined;
+  const time = Date.parse(iso);
+  if (Number.isNaN(time) || time < now) return undefined;
+  return (time - now) / 60000;
+};
+
+export const buildAlertSnapshot = (stats: UsageStats, now: number): AlertSnapshot => {
+  const oauth = stats.oauthUtilization;
+  const resetsInMinutes: Partial<Record<LimitKey, number>> = {};
+
+  if (oauth?.isAvailable) {
+    const resets: Partial<Record<LimitKey, string | null>> = {
+      fiveHour: oauth.fiveHour.resetsAt,
+      sevenDay: oauth.sevenDay.resetsAt,
+      sevenDaySonnet: oauth.sevenDaySonnet?.resetsAt,
+      sevenDayOpus: oauth.sevenDayOpus?.resetsAt,
+    };
+    for (const [limit, resetsAt] of Object.entries(resets)) {
+      const minutes = minutesUntil(resetsAt, now);
+      if (minutes !== undefined) resetsInMinutes[limit as LimitKey] = minutes;
+    }
+  }
+
+  return {
+    utilization: limitUtilizations(oauth),
+    todayCost: stats.today.totalCost,
+    resetsInMinutes,
+  };
+};
+
+/**
+ * Built-in rules for the warning/critical notification thresholds of every limit
+ */
+export const thresholdRules = (thresholds: NotificationThresholds): AlertRule[] =>
+  LIMIT_KEYS.flatMap((limit) => {
+    const levels = thresholdsFor(thresholds, limit);
+    return (['warning', 'critical'] as const).map((severity) => ({
+      id: `threshold:${limit}:${severity}`,
+      name: `${LIMIT_LABELS[limit]} ${severity}`,
+      enabled: true,
+      metric: 'utilization' as const,
+      limit,
+      threshold: levels[severity],
+      severity,
+      cooldownMinutes: THRESHOLD_COOLDOWN_MINUTES,
+      hysteresis: THRESHOLD_HYSTERESIS,
+    }));
+  });
+
+const toMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * Whether `date` falls inside the quiet hours on the clock of `timeZone`; ranges may wrap midnight
+ */
+export const isInQuietHours = (
+  quietHours: AlertRule['quietHours'],
+  date: Date,
+  timeZone: string
+): boolean => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = toMinutes(clockTime(date, timeZone));
+  if (start === null || end === null || current === null || start === end) return false;
+
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+export const ruleValue = (rule: AlertRule, snapshot: AlertSnapshot): number | undefined => {
+  switch (rule.metric) {
+    case 'todayCost':
+      return snapshot.todayCost;
+    case 'utilization':
+      return rule.limit ? snapshot.utilization[rule.limit] : undefined;
+    case 'resetsIn':
+      return rule.limit ? snapshot.resetsInMinutes[rule.limit] : undefined;
+  }
+};
+
+export const describeAlert = (rule: AlertRule, value: number): string => {
+  const label = rule.limit ? LIMIT_LABELS[rule.limit] : '';
+  switch (rule.metric) {
+    case 'todayCost':
+      return `Today's cost is $${value.toFixed(2)}`;
+    case 'utilization':
+      return `${label} limit is at ${Math.round(value)}%`;
+    case 'resetsIn':
+      return `${label} limit resets in ${Math.max(1, Math.round(value))} min`;
+  }
+};
+
+/**
+ * resetsIn fires when the time left drops to the threshold; everything else when it rises to it
+ */
+const checkCondition = (rule: AlertRule, value: number): { met: boolean; rearmed: boolean } =>
+  rule.metric === 'resetsIn'
+    ? { met: value <= rule.threshold, rearmed: value > rule.threshold + rule.hysteresis }
+    : { met: value >= rule.threshold, rearmed: value < rule.threshold - rule.hysteresis };
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const worstSeverity = (alerts: FiredAlert[]): AlertSeverity =>
+  alerts.reduce<AlertSeverity>(
+    (worst, alert) =>
+      SEVERITY_RANK[alert.rule.severity] > SEVERITY_RANK[worst] ? alert.rule.severity : worst,
+    'info'
+  );
+
+/**
+ * Evaluates alert rules poll by poll. Each rule fires when its condition becomes true, then
+ * stays quiet until the value moves back past the hysteresis band and its cooldown has passed.
+ * Quiet hours hold a firing back without disarming it, so it fires once they end.
+ */
+export class AlertEngine {
+  private states = new Map<string, RuleState>();
+  private timeZone = systemTimeZone(); // Clock for quiet hours
+
+  setTimeZone(timeZone: string): void {
+    this.timeZone = timeZone;
+  }
+
+  evaluate(rules: AlertRule[], snapshot: AlertSnapshot, now: Date = new Date()): FiredAlert[] {
+    const fired: FiredAlert[] = [];
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+      const value = ruleValue(rule, snapshot);
+      if (value !== undefined && this.shouldFire(rule, value, now)) {
+        fired.push({ rule, value, message: describeAlert(rule, value) });
+      }
+    }
+
+    // Forget rules that were deleted
+    const ids = new Set(rules.map((rule) => rule.id));
+    for (const id of this.states.keys()) {
+      if (!ids.has(id)) this.states.delete(id);
+    }
+
+    return fired;
+  }
+
+  private shouldFire(rule: AlertRule, value: number, now: Date): boolean {
+    const state = this.states.get(rule.id) ?? { armed: true, lastFiredAt: 0 };
+    this.states.set(rule.id, state);
+
+    const { met, rearmed } = checkCondition(rule, value);
+    if (!met) {
+      if (rearmed) state.armed = true;
+      return false;
+    }
+
+    const cooledDown = now.getTime() - state.lastFiredAt >= rule.cooldownMinutes * 60000;
+    if (!state.armed || !cooledDown || isInQuietHours(rule.quietHours, now, this.timeZone))
+      return false;
+
+    state.armed = false;
+    state.lastFiredAt = now.getTime();
+    return true;
+  }
+}
@@ -0,0 +1,86 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// No relative imports: the renderer bundles this module too
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const systemTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The configured IANA time zone, or the system zone when it is empty or unknown
+ */
+export const resolveTimeZone = (timeZone?: string): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : systemTimeZone();
+
+/**
+ * Calendar day (YYYY-MM-DD) an instant falls on in `timeZone`
+ */
+export const dayKey = (date: Date | number | string, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+
+/**
+ * Wall-clock time ("HH:MM") of an instant in `timeZone`
+ */
+export const clockTime = (date: Date | number | string, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, 'HH:mm');
+
+/**
+ * Day keys are plain calendar dates, so arithmetic on them is done in UTC
+ */
+export const addDays = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * 0 = Sunday
+ */
+export const weekdayOf = (day: string): number => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+export const startOfWeek = (day: string, weekStart: number): string =>
+  addDays(day, -((weekdayOf(day) - weekStart + 7) % 7));
+
+/**
+ * Instant the wall-clock `time` ("HH:MM") happens on `day` in `timeZone`
+ */
+export const zonedTime = (day: string, time: string, timeZone: string): Date =>
+  fromZonedTime(`${day}T${time}:00`, timeZone);
+
+/**
+ * First and last instant of an inclusive day range; days are 23 or 25 hours long across DST changes
+ */
+export const dayBounds = (
+  from: string,
+  to: string,
+  timeZone: string
+): { start: Date; end: Date } => ({
+  start: zonedTime(from, '00:00', timeZone),
+  end: new Date(zonedTime(addDays(to, 1), '00:00', timeZone).getTime() - 1),
+});
+
+/**
+ * "2026-01-17 14:05 EST"
+ */
+export const formatDayTime = (date: Date | number | string, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, 'yyyy-MM-dd HH:mm zzz');
+
+/**
+ * Time until `resetsAt`, counted from `now` so open menus and the overlay keep ticking between polls.
+ * Also backs `formattedTimeRemaining`, so every countdown reads the same.
+ */
+export const formatCountdown = (resetsAt: string, now: number): string => {
+  const diff = Date.parse(resetsAt) - now;
+  if (diff <= 0) return 'Resetting...';
+
+  const hours = Math.floor(diff / (60 * 60 * 1000));
+  const minutes = Math.floor((diff % (60 * 60 * 1000)) / (60 * 1000));
+  if (hours > 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
@@ -1,39 +1,43 @@
 import { loadDailyUsageData, loadSessionBlockData } from 'ccusage/data-loader';
 import type {
+  Account,
+  AccountSettings,
   DailyUsage,
+  FetchResult,
   MenuBarData,
+  NotificationThresholds,
   OAuthUtilization,
+  ProjectUsage,
+  ProjectUsageQuery,
+  UsageError,
+  UsageErrorKind,
+  UsageRange,
   UsageStats,
   UserConfiguration,
 } from '../types/usage.js';
-import { ClaudeOAuthService } from './claudeOAuthService.js';
-
-interface ModelBreakdown {
-  modelName: string;
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationTokens: number;
-  cacheReadTokens: number;
-  cost: number;
-}
-
-interface DailyDataEntry {
-  date: string;
-  inputTokens: number;
-  outputTokens: number;
-  cacheCreationTokens: number;
-  cacheReadTokens: number;
-  totalCost: number;
-  modelBreakdowns: ModelBreakdown[];
-}
+import { DEFAULT_ACCOUNT_ID, activeAccount, listAccounts, usagePathsFor } from './accounts.js';
+import { dayKey, resolveTimeZone, startOfWeek } from './calendar.js';
+import { ClaudeOAuthService, type ClaudeUsageLimit } from './claudeOAuthService.js';
+import { logger } from './logger.js';
+import {
+  type DailyDataEntry,
+  aggregateProjects,
+  mergeByDate,
+  summarizeUsageRange,
+  toDailyUsage,
+} from './projectUsage.js';
+import { type SessionBlock, currentSession } from './sessionWindow.js';
+import { DEFAULT_THRESHOLDS, evaluateLimits, worstLevel } from './thresholdPolicy.js';
+import { createUsageError, uniqueErrors } from './usageErrors.js';
 
-interface SessionBlock {
-  id: string;
-  startTime: Date;
-  endTime: Date;
-  isActive: boolean;
-  isGap?: boolean;
-  costUSD: number;
+/**
+ * An account's OAuth service and its most recent stats
+ */
+interface AccountUsage {
+  account: Account;
+  oauthService: ClaudeOAuthService;
+  cachedStats: UsageStats | null;
+  lastUpdate: number;
 }
 
 /**
@@ -41,17 +45,19 @@ interface SessionBlock {
  */
 export class CCUsageService {
   private static instance: CCUsageService;
-  private cachedStats: UsageStats | null = null;
-  private lastUpdate = 0;
   private readonly CACHE_DURATION = 3000; // 3 seconds
-  private oauthService: ClaudeOAuthService;
+  private accounts: AccountUsage[] = [];
+  private activeAccountId = DEFAULT_ACCOUNT_ID;
 
   // User configuration
   private menuBarCostSource: 'today' | 'sessionWindow' = 'today';
-  private sessionBlocks: SessionBlock[] = [];
+  private menuBarAccount: AccountSettings['menuBar'] = 'active';
+  private thresholds: NotificationThresholds = DEFAULT_THRESHOLDS;
+  private timeZone = resolveTimeZone();
+  private weekStart = 1; // 0 = Sunday
 
   constructor() {
-    this.oauthService = ClaudeOAuthService.getInstance();
+    this.setAccounts({ accounts: [], activeAccountId: DEFAULT_ACCOUNT_ID, menuBar: 'active' });
   }
 
   static getInstance(): CCUsageService {
@@ -65,65 +71,192 @@ export class CCUsageService {
     if (config.menuBarCostSource !== undefined) {
       this.menuBarCostSource = config.menuBarCostSource;
     }
+    if (config.notificationThresholds !== undefined) {
+      this.thresholds = config.notificationThresholds;
+    }
+    if (config.calendar !== undefined) {
+      this.timeZone = resolveTimeZone(config.calendar.timezone);
+      this.weekStart = config.calendar.weekStart;
+    }
+    if (config.accounts !== undefined) {
+      this.setAccounts(config.accounts);
+    }
     // Clear cache to force refresh
-    this.cachedStats = null;
+    for (const usage of this.accounts) {
+      usage.cachedStats = null;
+    }
   }
 
-  async getUsageStats(): Promise<UsageStats> {
-    const now = Date.now();
+  private setAccounts(settings: AccountSettings): void {
+    this.accounts = listAccounts(settings).map((account) => ({
+      account,
+      oauthService: ClaudeOAuthService.forAccount(account),
+      cachedStats: null,
+      lastUpdate: 0,
+    }));
+    ClaudeOAuthService.pruneAccounts(this.getAccounts());
+    this.activeAccountId = activeAccount(settings).id;
+    this.menuBarAccount = settings.menuBar;
+  }
+
+  getAccounts(): Account[] {
+    return this.accounts.map((usage) => usage.account);
+  }
+
+  /**
+   * Account the popover, notifications and date-range queries report on
+   */
+  getActiveAccount(): Account {
+    return this.usageFor().account;
+  }
+
+  private usageFor(accountId = this.activeAccountId): AccountUsage {
+    return this.accounts.find((usage) => usage.account.id === accountId) ?? this.accounts[0];
+  }
+
+  /**
+   * Failed OAuth fetches by error kind for the active account
+   */
+  getOAuthErrorCounts(): Partial<Record<UsageErrorKind, number>> {
+    return this.usageFor().oauthService.getErrorCounts();
+  }
+
+  /**
+   * IANA time zone that daily usage is bucketed in
+   */
+  getTimeZone(): string {
+    return this.timeZone;
+  }
 
+  /**
+   * Stats for an account, the active one by default
+   */
+  async getUsageStats(accountId?: string): Promise<UsageStats> {
+    const usage = this.usageFor(accountId);
     // Return cached data if fresh
-    if (this.cachedStats && now - this.lastUpdate < this.CACHE_DURATION) {
-      return this.cachedStats;
+    if (usage.cachedStats && Date.now() - usage.lastUpdate < this.CACHE_DURATION) {
+      return usage.cachedStats;
     }
+    return this.loadUsageStats(usage, false);
+  }
 
-    try {
-      // Fetch data in parallel
-      const [blocks, dailyData, oauthData] = await Promise.all([
+  /**
+   * The active account's last loaded stats, without fetching
+   */
+  getCachedStats(): UsageStats | null {
+    return this.usageFor().cachedStats;
+  }
+
+  /**
+   * Reload every account, bypassing the OAuth cache (called by the polling scheduler and manual
+   * refresh), and return the active account's stats
+   */
+  async refresh(): Promise<UsageStats> {
+    await Promise.all(this.accounts.map((usage) => this.loadUsageStats(usage, true)));
+    return this.getUsageStats();
+  }
+
+  private async loadUsageStats(usage: AccountUsage, force: boolean): Promise<UsageStats> {
+    const now = Date.now();
+    const paths = usagePathsFor(usage.account);
+
+    // Fetch data in parallel; each source reports its own failure
+    const [blocksResult, dailyResult, oauthResult] = await Promise.all([
+      this.loadFromCCUsage(paths, (claudePath) =>
         loadSessionBlockData({
+          claudePath,
           sessionDurationHours: 5,
           mode: 'calculate',
-        }),
+        })
+      ),
+      // Grouped by project; daily totals are merged back together below
+      this.loadFromCCUsage(paths, (claudePath) =>
         loadDailyUsageData({
+          claudePath,
           mode: 'calculate',
-        }),
-        this.oauthService.getUsageData(),
-      ]);
-
-      // Store blocks for session window cost calculation
-      this.sessionBlocks = blocks || [];
-
-      // Process daily data
-      const processedDaily = this.processDailyData(dailyData || []);
-      const todayStr = new Date().toISOString().split('T')[0];
-      const today = processedDaily.find((d) => d.date === todayStr) || this.getEmptyDay();
-
-      // Get last 7 days
-      const thisWeek = processedDaily.filter((d) => {
-        const date = new Date(d.date);
-        const weekAgo = new Date();
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        return date >= weekAgo;
-      });
-
-      const stats: UsageStats = {
-        today,
-        thisWeek,
-        oauthUtilization: oauthData ? this.formatOAuthData(oauthData) : undefined,
-      };
+          groupByProject: true,
+          timezone: this.timeZone,
+        })
+      ),
+      usage.oauthService.fetchUsageData({ force }),
+    ]);
+
+    const errors: UsageError[] = [];
+    for (const result of [oauthResult, blocksResult, dailyResult]) {
+      if (!result.ok) errors.push(result.error);
+    }
 
-      this.cachedStats = stats;
-      this.lastUpdate = now;
+    const sessionBlocks: SessionBlock[] = blocksResult.ok ? blocksResult.data : [];
+
+    // Process daily data
+    const dailyEntries: DailyDataEntry[] = dailyResult.ok ? dailyResult.data : [];
+    const processedDaily = this.processDailyData(dailyEntries);
+    const todayStr = dayKey(now, this.timeZone);
+    const today = processedDaily.find((d) => d.date === todayStr) || this.getEmptyDay(todayStr);
+
+    // This week so far, from the configured first day of the week
+    const weekStart = startOfWeek(todayStr, this.weekStart);
+    const thisWeek = processedDaily
+      .filter((d) => d.date >= weekStart && d.date <= todayStr)
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const weekDates = new Set(thisWeek.map((d) => d.date));
+    const oauthUtilization = this.formatOAuthData(
+      usage.oauthService,
+      oauthResult.ok ? oauthResult.data : null
+    );
+
+    const stats: UsageStats = {
+      today,
+      thisWeek,
+      projects: {
+        today: aggregateProjects(dailyEntries, (date) => date === todayStr),
+        thisWeek: aggregateProjects(dailyEntries, (date) => weekDates.has(date)),
+      },
+      oauthUtilization,
+      currentSession: currentSession(
+        sessionBlocks,
+        oauthUtilization.isAvailable ? oauthUtilization.fiveHour.resetsAt : undefined,
+        new Date(now)
+      ),
+      errors: uniqueErrors(errors),
+      accountId: usage.account.id,
+    };
 
-      return stats;
-    } catch (error) {
-      console.error('Error fetching usage stats:', error);
-      return this.getEmptyStats();
-    }
+    usage.cachedStats = stats;
+    usage.lastUpdate = now;
+
+    return stats;
   }
 
+  /**
+   * Tray data for the active account, or summed across accounts when the menu bar shows the
+   * aggregate: costs add up, and the busiest account's limits stand for the percentage
+   */
   async getMenuBarData(): Promise<MenuBarData> {
-    const stats = await this.getUsageStats();
+    if (this.menuBarAccount === 'active' || this.accounts.length < 2) {
+      return this.getAccountMenuBarData(this.usageFor());
+    }
+
+    const all = await Promise.all(this.accounts.map((usage) => this.getAccountMenuBarData(usage)));
+    const busiest = all.reduce((a, b) => (b.percentageUsed > a.percentageUsed ? b : a));
+
+    return {
+      ...busiest,
+      cost: all.reduce((sum, data) => sum + data.cost, 0),
+      todayCost: all.reduce((sum, data) => sum + (data.todayCost ?? 0), 0),
+      sessionCost: all.reduce((sum, data) => sum + (data.sessionCost ?? 0), 0),
+      status: worstLevel(all.map((data) => data.status)),
+      limits: all.flatMap((data) =>
+        (data.limits ?? []).map((limit) => ({ ...limit, label: `${data.account}: ${limit.label}` }))
+      ),
+      errors: uniqueErrors(all.flatMap((data) => data.errors ?? [])),
+      account: 'All accounts',
+    };
+  }
+
+  private async getAccountMenuBarData(usage: AccountUsage): Promise<MenuBarData> {
+    const stats = await this.getUsageStats(usage.account.id);
 
     // Get percentage from OAuth (real data) or default to 0
     const percentageUsed = stats.oauthUtilization?.isAvailable
@@ -131,42 +264,99 @@ export class CCUsageService {
       : 0;
 
     // Get cost based on user preference
-    let cost = stats.today.totalCost;
-    if (this.menuBarCostSource === 'sessionWindow') {
-      cost = this.getSessionWindowCost();
-    }
+    const todayCost = stats.today.totalCost;
+    const sessionCost = stats.currentSession?.totalCost ?? 0;
+    const cost = this.menuBarCostSource === 'sessionWindow' ? sessionCost : todayCost;
+
+    const limits = evaluateLimits(stats.oauthUtilization, this.thresholds);
 
     return {
       percentageUsed,
       cost,
-      status: this.getStatus(percentageUsed),
+      todayCost,
+      sessionCost,
+      status: worstLevel(limits.map((limit) => limit.level)),
+      limits,
       oauthUtilization: stats.oauthUtilization,
+      errors: stats.errors,
+      account: usage.account.name,
     };
   }
 
+  /**
+   * Per-project usage for an inclusive date range (YYYY-MM-DD)
+   */
+  async getProjectUsage(query: ProjectUsageQuery): Promise<FetchResult<ProjectUsage[]>> {
+    const result = await this.loadFromCCUsage(
+      usagePathsFor(this.getActiveAccount()),
+      (claudePath) =>
+        loadDailyUsageData({
+          claudePath,
+          mode: 'calculate',
+          groupByProject: true,
+          timezone: this.timeZone,
+          since: query.from.replace(/-/g, ''),
+          until: query.to.replace(/-/g, ''),
+        })
+    );
+    return result.ok ? { ok: true, data: aggregateProjects(result.data) } : result;
+  }
+
+  /**
+   * Daily totals with per-model breakdown for an inclusive date range (YYYY-MM-DD), oldest first
+   */
+  async getDailyUsage(query: ProjectUsageQuery): Promise<FetchResult<DailyUsage[]>> {
+    const result = await this.loadFromCCUsage(
+      usagePathsFor(this.getActiveAccount()),
+      (claudePath) =>
+        loadDailyUsageData({
+          claudePath,
+          mode: 'calculate',
+          timezone: this.timeZone,
+          since: query.from.replace(/-/g, ''),
+          until: query.to.replace(/-/g, ''),
+        })
+    );
+    if (!result.ok) return result;
+
+    const days = this.processDailyData(result.data);
+    return { ok: true, data: days.sort((a, b) => a.date.localeCompare(b.date)) };
+  }
+
+  /**
+   * Totals and per-model breakdown for an inclusive date range (YYYY-MM-DD)
+   */
+  async getUsageRange(query: ProjectUsageQuery): Promise<FetchResult<UsageRange>> {
+    const result = await this.getDailyUsage(query);
+    return result.ok
+      ? { ok: true, data: summarizeUsageRange(query.from, query.to, result.data) }
+      : result;
+  }
+
+  /**
+   * Run a ccusage loader once per data directory (once with ccusage's defaults when there are
+   * none), turning exceptions into a parse_error result
+   */
+  private async loadFromCCUsage<T>(
+    paths: string[] | undefined,
+    loader: (claudePath: string | undefined) => Promise<T[]>
+  ): Promise<FetchResult<T[]>> {
+    try {
+      const results = await Promise.all((paths ?? [undefined]).map(loader));
+      return { ok: true, data: results.flat() };
+    } catch (error) {
+      logger.error('Error loading ccusage data:', error);
+      const message = error instanceof Error ? error.message : 'Failed to load usage data';
+      return { ok: false, error: createUsageError('parse_error', 'ccusage', message) };
+    }
+  }
+
   private processDailyData(data: DailyDataEntry[]): DailyUsage[] {
-    return data.map((day) => ({
-      date: day.date,
-      totalTokens:
-        day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens,
-      totalCost: day.totalCost,
-      models: day.modelBreakdowns
-        .filter((mb) => mb.modelName !== '<synthetic>')
-        .reduce(
-          (acc, mb) => {
-            acc[mb.modelName] = {
-              tokens:
-                mb.inputTokens + mb.outputTokens + mb.cacheCreationTokens + mb.cacheReadTokens,
-              cost: mb.cost,
-            };
-            return acc;
-          },
-          {} as { [key: string]: { tokens: number; cost: number } }
-        ),
-    }));
+    return mergeByDate(data.map(toDailyUsage));
   }
 
   private formatOAuthData(
+    oauthService: ClaudeOAuthService,
     data: Awaited<ReturnType<ClaudeOAuthService['getUsageData']>>
   ): OAuthUtilization {
     if (!data) {
@@ -174,6 +364,7 @@ export class CCUsageService {
         fiveHour: { utilization: 0, resetsAt: '', formattedTimeRemaining: 'Unknown' },
         sevenDay: { utilization: 0, resetsAt: '', formattedTimeRemaining: 'Unknown' },
         isAvailable: false,
+        credentialsExpired: oauthService.getAuthState() === 'expired',
       };
     }
 
@@ -184,34 +375,25 @@ export class CCUsageService {
       fiveHour: {
         utilization: data.five_hour.utilization,
         resetsAt: data.five_hour.resets_at || '',
-        formattedTimeRemaining: this.oauthService.formatTimeUntilReset(fiveHourResetDate),
+        formattedTimeRemaining: oauthService.formatTimeUntilReset(fiveHourResetDate),
       },
       sevenDay: {
         utilization: data.seven_day.utilization,
         resetsAt: data.seven_day.resets_at || '',
-        formattedTimeRemaining: this.oauthService.formatTimeUntilReset(sevenDayResetDate),
+        formattedTimeRemaining: oauthService.formatTimeUntilReset(sevenDayResetDate),
       },
       isAvailable: true,
+      credentialSource: oauthService.getCredentialSource() ?? undefined,
+      credentialLocation: oauthService.getCredentialLocation() ?? undefined,
     };
 
     // Add model-specific limits if available
     if (data.seven_day_sonnet) {
-      result.sevenDaySonnet = {
-        utilization: data.seven_day_sonnet.utilization,
-      };
+      result.sevenDaySonnet = this.formatModelLimit(oauthService, data.seven_day_sonnet);
     }
 
     if (data.seven_day_opus && data.seven_day_opus.utilization > 0) {
-      const opusResetDate = data.seven_day_opus.resets_at
-        ? new Date(data.seven_day_opus.resets_at)
-        : null;
-      result.sevenDayOpus = {
-        utilization: data.seven_day_opus.utilization,
-        resetsAt: data.seven_day_opus.resets_at,
-        formattedTimeRemaining: opusResetDate
-          ? this.oauthService.formatTimeUntilReset(opusResetDate)
-          : 'N/A',
-      };
+      result.sevenDayOpus = this.formatModelLimit(oauthService, data.seven_day_opus);
     }
 
     // Add extra usage info
@@ -227,41 +409,25 @@ export class CCUsageService {
     return result;
   }
 
-  private getSessionWindowCost(): number {
-    if (!this.sessionBlocks || this.sessionBlocks.length === 0) return 0;
-
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - 5 * 60 * 60 * 1000);
-    let total = 0;
-
-    for (const block of this.sessionBlocks) {
-      if (block.isGap) continue;
-      if (block.startTime >= windowStart) {
-        total += block.costUSD || 0;
-      }
-    }
-    return total;
-  }
-
-  private getStatus(percentageUsed: number): 'safe' | 'warning' | 'critical' {
-    if (percentageUsed >= 90) return 'critical';
-    if (percentageUsed >= 70) return 'warning';
-    return 'safe';
+  private formatModelLimit(
+    oauthService: ClaudeOAuthService,
+    limit: ClaudeUsageLimit
+  ): { utilization: number; resetsAt: string | null; formattedTimeRemaining: string } {
+    return {
+      utilization: limit.utilization,
+      resetsAt: limit.resets_at,
+      formattedTimeRemaining: limit.resets_at
+        ? oauthService.formatTimeUntilReset(new Date(limit.resets_at))
+        : 'N/A',
+    };
   }
 
-  private getEmptyDay(): DailyUsage {
+  private getEmptyDay(date: string): DailyUsage {
     return {
-      date: new Date().toISOString().split('T')[0],
+      date,
       totalTokens: 0,
       totalCost: 0,
       models: {},
     };
   }
-
-  private getEmptyStats(): UsageStats {
-    return {
-      today: this.getEmptyDay(),
-      thisWeek: [],
-    };
-  }
 }
@@ -1,7 +1,18 @@
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
+import type {
+  Account,
+  CredentialSource,
+  FetchResult,
+  UsageError,
+  UsageErrorKind,
+} from '../types/usage.js';
+import { credentialChainFor } from './accounts.js';
+import { formatCountdown } from './calendar.js';
+import { HistoryService } from './historyService.js';
+import { logger } from './logger.js';
+import { type AuthState, TokenManager } from './tokenManager.js';
+import { createUsageError, kindForStatus, parseRetryAfter } from './usageErrors.js';
 
-const execAsync = promisify(exec);
+const USAGE_URL = 'https://api.anthropic.com/api/oauth/usage';
 
 export interface ClaudeUsageLimit {
   utilization: number; // Percentage of limit used (0-100)
@@ -26,15 +37,31 @@ export interface ClaudeCredentials {
   claudeAiOauth?: {
     accessToken: string;
     refreshToken?: string;
-    expiresAt?: string;
+    expiresAt?: number | string; // Epoch milliseconds (ISO string in older versions)
   };
 }
 
 export class ClaudeOAuthService {
   private static instance: ClaudeOAuthService;
+  private static accountInstances = new Map<string, ClaudeOAuthService>();
   private cachedUsage: ClaudeUsageData | null = null;
   private lastFetch = 0;
+  private lastError: UsageError | null = null;
+  private errorCounts: Partial<Record<UsageErrorKind, number>> = {};
   private readonly CACHE_DURATION = 30000; // 30 seconds
+  private historyService: HistoryService;
+  private tokenManager: TokenManager;
+  private usageUrl: string;
+
+  constructor(
+    tokenManager: TokenManager = new TokenManager(),
+    historyService: HistoryService = HistoryService.getInstance(),
+    usageUrl = USAGE_URL
+  ) {
+    this.historyService = historyService;
+    this.tokenManager = tokenManager;
+    this.usageUrl = usageUrl;
+  }
 
   static getInstance(): ClaudeOAuthService {
     if (!ClaudeOAuthService.instance) {
@@ -44,75 +71,165 @@ export class ClaudeOAuthService {
   }
 
   /**
-   * Retrieve Claude Code OAuth access token from macOS Keychain
+   * Service for one account's credentials and history. Instances are reused while the account's
+   * credential settings stay the same, so caches and backoff survive unrelated settings changes
    */
-  private async getAccessToken(): Promise<string | null> {
-    try {
-      const { stdout } = await execAsync(
-        'security find-generic-password -s "Claude Code-credentials" -w 2>/dev/null'
+  static forAccount(account: Account): ClaudeOAuthService {
+    const key = ClaudeOAuthService.accountKey(account);
+    let service = ClaudeOAuthService.accountInstances.get(key);
+    if (!service) {
+      service = new ClaudeOAuthService(
+        new TokenManager({ chain: credentialChainFor(account) }),
+        HistoryService.forAccount(account.id)
       );
+      ClaudeOAuthService.accountInstances.set(key, service);
+    }
+    return service;
+  }
 
-      const credentials: ClaudeCredentials = JSON.parse(stdout.trim());
+  /**
+   * Drop instances for accounts that were removed or whose credentials settings changed
+   */
+  static pruneAccounts(accounts: Account[]): void {
+    const keys = new Set(accounts.map((account) => ClaudeOAuthService.accountKey(account)));
+    for (const key of ClaudeOAuthService.accountInstances.keys()) {
+      if (!keys.has(key)) ClaudeOAuthService.accountInstances.delete(key);
+    }
+  }
 
-      if (credentials.claudeAiOauth?.accessToken) {
-        return credentials.claudeAiOauth.accessToken;
-      }
+  private static accountKey(account: Account): string {
+    return JSON.stringify([account.id, account.credentialSource, account.configDir]);
+  }
 
-      console.error('No OAuth access token found in credentials');
-      return null;
-    } catch (error) {
-      console.error('Failed to retrieve Claude Code credentials from Keychain:', error);
-      return null;
-    }
+  private requestUsage(accessToken: string): Promise<Response> {
+    return fetch(this.usageUrl, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        'anthropic-beta': 'oauth-2025-04-20',
+      },
+    });
   }
 
   /**
-   * Fetch usage limits from Claude's OAuth API
+   * Fetch usage limits from Claude's OAuth API, reporting why when they can't be fetched.
+   * `force` skips the success cache (used by the polling scheduler) but still honors Retry-After.
    */
-  async getUsageData(): Promise<ClaudeUsageData | null> {
+  async fetchUsageData(options: { force?: boolean } = {}): Promise<FetchResult<ClaudeUsageData>> {
     const now = Date.now();
 
     // Return cached data if still fresh
-    if (this.cachedUsage && now - this.lastFetch < this.CACHE_DURATION) {
-      return this.cachedUsage;
+    if (!options.force && this.cachedUsage && now - this.lastFetch < this.CACHE_DURATION) {
+      return { ok: true, data: this.cachedUsage };
+    }
+
+    // Don't hammer the API after a failure, and respect Retry-After
+    if (this.lastError) {
+      const retryAfterMs = (this.lastError.retryAfter ?? 0) * 1000;
+      const waitMs = options.force ? retryAfterMs : Math.max(this.CACHE_DURATION, retryAfterMs);
+      if (now - new Date(this.lastError.timestamp).getTime() < waitMs) {
+        return { ok: false, error: this.lastError };
+      }
+    }
+
+    const result = await this.requestUsageData();
+    if (result.ok) {
+      this.cachedUsage = result.data;
+      this.lastFetch = now;
+      this.lastError = null;
+
+      // Persist every fresh sample so utilization can be charted over time
+      this.historyService.record(result.data);
+    } else {
+      logger.error(`OAuth usage unavailable (${result.error.kind}): ${result.error.message}`);
+      this.lastError = result.error;
+      this.errorCounts[result.error.kind] = (this.errorCounts[result.error.kind] ?? 0) + 1;
     }
 
-    const accessToken = await this.getAccessToken();
+    return result;
+  }
+
+  /**
+   * Fetch usage limits from Claude's OAuth API
+   */
+  async getUsageData(): Promise<ClaudeUsageData | null> {
+    const result = await this.fetchUsageData();
+    return result.ok ? result.data : null;
+  }
+
+  private async requestUsageData(): Promise<FetchResult<ClaudeUsageData>> {
+    const accessToken = await this.tokenManager.getAccessToken();
     if (!accessToken) {
-      return null;
+      return {
+        ok: false,
+        error:
+          this.tokenManager.getError() ??
+          createUsageError('credentials_missing', 'credentials', 'No OAuth access token'),
+      };
     }
 
+    let response: Response;
     try {
-      const response = await fetch('https://api.anthropic.com/api/oauth/usage', {
-        method: 'GET',
-        headers: {
-          Accept: 'application/json',
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-          'anthropic-beta': 'oauth-2025-04-20',
-        },
-      });
-
-      if (!response.ok) {
-        console.error(`OAuth usage API returned ${response.status}: ${response.statusText}`);
-        return null;
-      }
+      response = await this.requestWithRefresh(accessToken);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Request failed';
+      return { ok: false, error: createUsageError('network', 'oauth', message) };
+    }
+
+    return this.parseUsageResponse(response);
+  }
+
+  /**
+   * Request usage; when the token is rejected, refresh it once and retry
+   */
+  private async requestWithRefresh(accessToken: string): Promise<Response> {
+    const response = await this.requestUsage(accessToken);
+    if (response.status !== 401) return response;
+
+    const refreshedToken = await this.tokenManager.forceRefresh(accessToken);
+    const retried =
+      refreshedToken && refreshedToken !== accessToken
+        ? await this.requestUsage(refreshedToken)
+        : response;
+    if (retried.status === 401) {
+      this.tokenManager.markExpired();
+    }
+    return retried;
+  }
+
+  private async parseUsageResponse(response: Response): Promise<FetchResult<ClaudeUsageData>> {
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: createUsageError(
+          kindForStatus(response.status),
+          'oauth',
+          `OAuth usage API returned ${response.status}: ${response.statusText}`,
+          {
+            status: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+          }
+        ),
+      };
+    }
 
+    try {
       const data: ClaudeUsageData = await response.json();
 
       // Validate the response structure
       if (!data.five_hour || !data.seven_day) {
-        console.error('Invalid usage data structure:', data);
-        return null;
+        return {
+          ok: false,
+          error: createUsageError('invalid_response', 'oauth', 'Usage response missing limits'),
+        };
       }
 
-      this.cachedUsage = data;
-      this.lastFetch = now;
-
-      return data;
+      return { ok: true, data };
     } catch (error) {
-      console.error('Failed to fetch OAuth usage data:', error);
-      return null;
+      const message = error instanceof Error ? error.message : 'Invalid JSON';
+      return { ok: false, error: createUsageError('invalid_response', 'oauth', message) };
     }
   }
 
@@ -146,35 +263,43 @@ export class ClaudeOAuthService {
    * Format time remaining until reset
    */
   formatTimeUntilReset(resetsAt: Date): string {
-    const now = new Date();
-    const diff = resetsAt.getTime() - now.getTime();
-
-    if (diff <= 0) {
-      return 'Resetting...';
-    }
+    return formatCountdown(resetsAt.toISOString(), Date.now());
+  }
 
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  /**
+   * Check if OAuth credentials are available
+   */
+  async hasCredentials(): Promise<boolean> {
+    const token = await this.tokenManager.getAccessToken();
+    return token !== null;
+  }
 
-    if (hours > 24) {
-      const days = Math.floor(hours / 24);
-      const remainingHours = hours % 24;
-      return `${days}d ${remainingHours}h`;
-    }
+  /**
+   * Provider that supplied the most recently used access token
+   */
+  getCredentialSource(): CredentialSource | null {
+    return this.tokenManager.getSource();
+  }
 
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    }
+  /**
+   * Path the most recent credentials were read from, for file-based providers
+   */
+  getCredentialLocation(): string | null {
+    return this.tokenManager.getLocation();
+  }
 
-    return `${minutes}m`;
+  /**
+   * Whether credentials are present, valid, or expired beyond refresh
+   */
+  getAuthState(): AuthState {
+    return this.tokenManager.getState();
   }
 
   /**
-   * Check if OAuth credentials are available
+   * Failed fetch attempts by error kind since startup (cached failures are not counted twice)
    */
-  async hasCredentials(): Promise<boolean> {
-    const token = await this.getAccessToken();
-    return token !== null;
+  getErrorCounts(): Partial<Record<UsageErrorKind, number>> {
+    return { ...this.errorCounts };
   }
 
   /**
@@ -183,5 +308,6 @@ export class ClaudeOAuthService {
   clearCache(): void {
     this.cachedUsage = null;
     this.lastFetch = 0;
+    this.lastError = null;
   }
 }
@@ -0,0 +1,261 @@
+import { execFile, spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import type { CredentialSource, UsageError } from '../types/usage.js';
+import type { ClaudeCredentials } from './claudeOAuthService.js';
+import { logger } from './logger.js';
+import { UsageFetchError, createUsageError } from './usageErrors.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run a command with `input` on stdin, so secrets never show up in the process list
+ */
+const runWithInput = (command: string, args: string[], input: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+    });
+    child.stdin.end(input);
+  });
+
+export const KEYCHAIN_SERVICE = 'Claude Code-credentials';
+
+// `security` exit codes
+const SECURITY_ITEM_NOT_FOUND = 44;
+const SECURITY_INTERACTION_NOT_ALLOWED = 36; // Keychain locked
+const SECURITY_AUTH_DENIED = 128; // User denied the access prompt
+
+/**
+ * A place Claude Code credentials can be read from
+ */
+export interface CredentialProvider {
+  readonly source: CredentialSource;
+  // Where the credentials are read from, when that is a path worth showing (e.g. a file)
+  readonly location?: string;
+  isSupported(): boolean;
+  read(): Promise<ClaudeCredentials | null>;
+  // Optional: store refreshed credentials back into the source
+  write?(credentials: ClaudeCredentials): Promise<void>;
+}
+
+export interface ResolvedCredentials {
+  credentials: ClaudeCredentials;
+  source: CredentialSource;
+  provider: CredentialProvider;
+}
+
+/**
+ * Parse a credentials payload, accepting only ones that carry an access token
+ */
+const parseCredentials = (raw: string): ClaudeCredentials | null => {
+  const credentials: ClaudeCredentials = JSON.parse(raw.trim());
+  return credentials.claudeAiOauth?.accessToken ? credentials : null;
+};
+
+/**
+ * Explicit override via environment variable
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  readonly source = 'env' as const;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  async read(): Promise<ClaudeCredentials | null> {
+    const accessToken = this.env.CLAUDE_METER_OAUTH_TOKEN || this.env.CLAUDE_CODE_OAUTH_TOKEN;
+    return accessToken ? { claudeAiOauth: { accessToken } } : null;
+  }
+}
+
+/**
+ * macOS Keychain entry written by Claude Code
+ */
+export class KeychainCredentialProvider implements CredentialProvider {
+  readonly source = 'keychain' as const;
+  private service: string;
+  private command: string;
+
+  constructor(service = KEYCHAIN_SERVICE, command = 'security') {
+    this.service = service;
+    this.command = command;
+  }
+
+  isSupported(): boolean {
+    return process.platform === 'darwin';
+  }
+
+  async read(): Promise<ClaudeCredentials | null> {
+    try {
+      const { stdout } = await execFileAsync(this.command, [
+        'find-generic-password',
+        '-s',
+        this.service,
+        '-w',
+      ]);
+      return parseCredentials(stdout);
+    } catch (error) {
+      const code = (error as { code?: number }).code;
+      if (code === SECURITY_ITEM_NOT_FOUND) {
+        return null;
+      }
+      if (code === SECURITY_INTERACTION_NOT_ALLOWED || code === SECURITY_AUTH_DENIED) {
+        throw new UsageFetchError(
+          createUsageError(
+            'keychain_locked',
+            'credentials',
+            `Keychain access failed (security exit code ${code})`
+          )
+        );
+      }
+      throw error;
+    }
+  }
+
+  async write(credentials: ClaudeCredentials): Promise<void> {
+    // Update the item in place: same account, and any other keys Claude Code keeps in it
+    const [{ stdout: attributes }, { stdout: secret }] = await Promise.all([
+      execFileAsync(this.command, ['find-generic-password', '-s', this.service]),
+      execFileAsync(this.command, ['find-generic-password', '-s', this.service, '-w']),
+    ]);
+    const account = /"acct"<blob>="([^"]*)"/.exec(attributes)?.[1] ?? os.userInfo().username;
+    const existing = JSON.parse(secret.trim());
+
+    // A trailing `-w` without a value makes `security` read the secret (and its retype) from stdin
+    const json = JSON.stringify({ ...existing, claudeAiOauth: credentials.claudeAiOauth });
+    await runWithInput(
+      this.command,
+      ['add-generic-password', '-U', '-s', this.service, '-a', account, '-w'],
+      `${json}\n${json}\n`
+    );
+  }
+}
+
+/**
+ * Plaintext credentials file Claude Code uses on Linux (and as a fallback elsewhere)
+ */
+export class CredentialsFileProvider implements CredentialProvider {
+  readonly source = 'credentials-file' as const;
+  readonly location: string;
+
+  constructor(filePath?: string) {
+    // CLAUDE_CONFIG_DIR may list several directories; credentials live in the first
+    const configDir =
+      process.env.CLAUDE_CONFIG_DIR?.split(',')[0]?.trim() || path.join(os.homedir(), '.claude');
+    this.location = filePath ?? path.join(configDir, '.credentials.json');
+  }
+
+  isSupported(): boolean {
+    return fs.existsSync(this.location);
+  }
+
+  async read(): Promise<ClaudeCredentials | null> {
+    return parseCredentials(fs.readFileSync(this.location, 'utf8'));
+  }
+
+  async write(credentials: ClaudeCredentials): Promise<void> {
+    // Preserve any other keys Claude Code keeps in the file
+    const existing = JSON.parse(fs.readFileSync(this.location, 'utf8'));
+    fs.writeFileSync(
+      this.location,
+      JSON.stringify({ ...existing, claudeAiOauth: credentials.claudeAiOauth }, null, 2),
+      { encoding: 'utf8', mode: 0o600 }
+    );
+  }
+}
+
+/**
+ * freedesktop Secret Service, queried through `secret-tool` (or a compatible stand-in)
+ */
+export class SecretServiceCredentialProvider implements CredentialProvider {
+  readonly source = 'secret-service' as const;
+  private command: string;
+  private service: string;
+
+  constructor(
+    command = process.env.CLAUDE_METER_SECRET_TOOL || 'secret-tool',
+    service = KEYCHAIN_SERVICE
+  ) {
+    this.command = command;
+    this.service = service;
+  }
+
+  isSupported(): boolean {
+    // A custom command (e.g. a local stand-in) is allowed on any platform
+    return process.platform === 'linux' || this.command !== 'secret-tool';
+  }
+
+  async read(): Promise<ClaudeCredentials | null> {
+    try {
+      const { stdout } = await execFileAsync(this.command, ['lookup', 'service', this.service]);
+      return parseCredentials(stdout);
+    } catch (error) {
+      // secret-tool isn't installed, so there's no Secret Service to read from
+      if ((error as { code?: unknown }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Tries each provider in order and returns the first usable credentials
+ */
+export class CredentialChain {
+  private providers: CredentialProvider[];
+  private lastError: UsageError | null = null;
+
+  constructor(providers?: CredentialProvider[]) {
+    this.providers = providers ?? [
+      new EnvCredentialProvider(),
+      new KeychainCredentialProvider(),
+      new CredentialsFileProvider(),
+      new SecretServiceCredentialProvider(),
+    ];
+  }
+
+  async resolve(): Promise<ResolvedCredentials | null> {
+    this.lastError = null;
+
+    for (const provider of this.providers) {
+      if (!provider.isSupported()) continue;
+
+      try {
+        const credentials = await provider.read();
+        if (credentials) {
+          return { credentials, source: provider.source, provider };
+        }
+      } catch (error) {
+        logger.error(`Credential provider "${provider.source}" failed:`, error);
+        if (error instanceof UsageFetchError && !this.lastError) {
+          this.lastError = error.usageError;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * First structured failure from the last resolve() that found nothing, e.g. a locked Keychain
+   */
+  getLastError(): UsageError | null {
+    return this.lastError;
+  }
+}
@@ -0,0 +1,69 @@
+import type { UserConfiguration } from '../types/usage.js';
+
+/**
+ * Setting defaults shared by SettingsService and the renderer. The menu bar template default is
+ * DEFAULT_MENU_BAR_TEMPLATE, added by each side so this module stays free of value imports.
+ */
+export const DEFAULT_SETTINGS: Omit<UserConfiguration, 'menuBarTemplate'> = {
+  menuBarCostSource: 'today',
+  notificationThresholds: {
+    warning: 70,
+    critical: 90,
+  },
+  localApi: {
+    enabled: false,
+    port: 7391,
+    metrics: false,
+  },
+  polling: {
+    intervalSeconds: 30,
+    idleIntervalSeconds: 300,
+    adaptive: true,
+  },
+  alerts: {
+    thresholdAlerts: true,
+    rules: [],
+  },
+  resetNotifications: {
+    enabled: true,
+    minutesBefore: 0,
+    onlyWhenBlocked: true,
+  },
+  delivery: {
+    channels: [],
+    maxAttempts: 3,
+  },
+  digest: {
+    enabled: false,
+    frequency: 'daily',
+    time: '09:00',
+    weekday: 1,
+    writeReport: true,
+  },
+  calendar: {
+    timezone: '',
+    weekStart: 1,
+  },
+  accounts: {
+    accounts: [],
+    activeAccountId: 'default',
+    menuBar: 'active',
+  },
+  trayIcon: {
+    enabled: true,
+    showWeekly: false,
+  },
+  window: {
+    mode: 'popover',
+    pinned: false,
+    bounds: {},
+  },
+  overlay: {
+    enabled: false,
+    corner: 'topRight',
+    opacity: 0.85,
+    showFiveHour: true,
+    showWeekly: true,
+    showCountdown: true,
+  },
+};
@@ -0,0 +1,246 @@
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  AlertMessage,
+  DeliveryChannel,
+  DeliveryLogEntry,
+  DeliverySettings,
+} from '../types/usage.js';
+import { logger } from './logger.js';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_LOG_ENTRIES = 500;
+
+export const DEFAULT_TEMPLATE = '{{title}}: {{body}}';
+
+/**
+ * Fill in {{title}}, {{body}}, {{severity}} and {{timestamp}}; unknown variables become empty
+ */
+export const renderTemplate = (template: string, message: AlertMessage): string => {
+  const values: Record<string, string> = { ...message };
+  return (template || DEFAULT_TEMPLATE).replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (_, key: string) => values[key] ?? ''
+  );
+};
+
+/**
+ * JSON payload for HTTP channels: Slack incoming webhooks only take `text`
+ */
+export const buildPayload = (channel: DeliveryChannel, message: AlertMessage): string => {
+  const text = renderTemplate(channel.template, message);
+  return JSON.stringify(channel.type === 'slack' ? { text } : { ...message, text });
+};
+
+/**
+ * A failed delivery attempt; 4xx responses other than 429 are not worth retrying
+ */
+export class DeliveryError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+// Network failures and anything unexpected are treated as transient
+const toDeliveryError = (error: unknown): DeliveryError =>
+  error instanceof DeliveryError
+    ? error
+    : new DeliveryError(error instanceof Error ? error.message : String(error), true);
+
+export interface DeliveryServiceOptions {
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Sends alerts to webhooks, Slack-compatible incoming webhooks and local commands, retrying
+ * with exponential backoff and recording every delivery in ~/.claude-meter/delivery-log.jsonl
+ */
+export class DeliveryService {
+  private static instance: DeliveryService;
+  private logPath: string;
+  private settings: DeliverySettings = { channels: [], maxAttempts: 3 };
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    logPath = path.join(os.homedir(), '.claude-meter', 'delivery-log.jsonl'),
+    options: DeliveryServiceOptions = {}
+  ) {
+    this.logPath = logPath;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  static getInstance(): DeliveryService {
+    if (!DeliveryService.instance) {
+      DeliveryService.instance = new DeliveryService();
+    }
+    return DeliveryService.instance;
+  }
+
+  setSettings(settings: DeliverySettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Deliver to every enabled channel in parallel
+   */
+  async deliver(message: AlertMessage): Promise<DeliveryLogEntry[]> {
+    const channels = this.settings.channels.filter((channel) => channel.enabled);
+    return Promise.all(channels.map((channel) => this.deliverTo(channel, message)));
+  }
+
+  async deliverTo(channel: DeliveryChannel, message: AlertMessage): Promise<DeliveryLogEntry> {
+    const { attempts, status, error } = await this.sendWithRetry(channel, message);
+
+    const entry: DeliveryLogEntry = {
+      timestamp: new Date().toISOString(),
+      channelId: channel.id,
+      channelName: channel.name,
+      type: channel.type,
+      title: message.title,
+      ok: !error,
+      attempts,
+      ...(status !== undefined ? { status } : {}),
+      ...(error ? { error: error.message } : {}),
+    };
+    this.appendLog(entry);
+
+    if (error) {
+      logger.error(`Delivery to ${channel.name} failed:`, error.message);
+    }
+    return entry;
+  }
+
+  /**
+   * Most recent deliveries first
+   */
+  getLog(limit = 50): DeliveryLogEntry[] {
+    return this.readLog().slice(-limit).reverse();
+  }
+
+  private async sendWithRetry(
+    channel: DeliveryChannel,
+    message: AlertMessage
+  ): Promise<{ attempts: number; status?: number; error?: DeliveryError }> {
+    const maxAttempts = Math.max(1, this.settings.maxAttempts);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { attempts: attempt, status: await this.send(channel, message) };
+      } catch (caught) {
+        const error = toDeliveryError(caught);
+        if (!error.retryable || attempt >= maxAttempts) {
+          return { attempts: attempt, status: error.status, error };
+        }
+      }
+      await this.sleep(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  private send(channel: DeliveryChannel, message: AlertMessage): Promise<number> {
+    return channel.type === 'command'
+      ? this.runCommand(channel, message)
+      : this.post(channel, message);
+  }
+
+  private async post(channel: DeliveryChannel, message: AlertMessage): Promise<number> {
+    let response: Response;
+    try {
+      response = await fetch(channel.target, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'claude-meter' },
+        body: buildPayload(channel, message),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw toDeliveryError(error);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new DeliveryError(`HTTP ${response.status}`, retryable, response.status);
+    }
+    return response.status;
+  }
+
+  /**
+   * Run the command through the shell with the message in env vars and as JSON on stdin
+   */
+  private runCommand(channel: DeliveryChannel, message: AlertMessage): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        '/bin/sh',
+        ['-c', channel.target],
+        {
+          timeout: REQUEST_TIMEOUT_MS,
+          env: {
+            ...process.env,
+            CLAUDE_METER_TITLE: message.title,
+            CLAUDE_METER_BODY: message.body,
+            CLAUDE_METER_SEVERITY: message.severity,
+            CLAUDE_METER_TIMESTAMP: message.timestamp,
+            CLAUDE_METER_MESSAGE: renderTemplate(channel.template, message),
+          },
+        },
+        (error) => {
+          if (!error) {
+            resolve(0);
+            return;
+          }
+          const code = typeof error.code === 'number' ? error.code : undefined;
+          reject(new DeliveryError(error.message.split('\n')[0], true, code));
+        }
+      );
+      child.stdin?.on('error', () => {
+        // The command may exit without reading stdin
+      });
+      child.stdin?.end(JSON.stringify(message));
+    });
+  }
+
+  private readLog(): DeliveryLogEntry[] {
+    let content: string;
+    try {
+      if (!fs.existsSync(this.logPath)) return [];
+      content = fs.readFileSync(this.logPath, 'utf8');
+    } catch (error) {
+      logger.error('Error reading delivery log:', error);
+      return [];
+    }
+
+    const entries: DeliveryLogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return entries;
+  }
+
+  private appendLog(entry: DeliveryLogEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+      fs.appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`, 'utf8');
+
+      // Keep the log bounded; deliveries are rare, so rewriting now and then is cheap
+      const entries = this.readLog();
+      if (entries.length > MAX_LOG_ENTRIES) {
+        const kept = entries.slice(-MAX_LOG_ENTRIES).map((e) => JSON.stringify(e));
+        fs.writeFileSync(this.logPath, `${kept.join('\n')}\n`, 'utf8');
+      }
+    } catch (error) {
+      logger.error('Error writing delivery log:', error);
+    }
+  }
+}
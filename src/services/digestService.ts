@@ -0,0 +1,334 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  CalendarSettings,
+  DailyUsage,
+  DigestFrequency,
+  DigestSettings,
+  UsageStats,
+  UtilizationSample,
+} from '../types/usage.js';
+import {
+  addDays,
+  dayBounds,
+  dayKey,
+  formatDayTime,
+  resolveTimeZone,
+  startOfWeek,
+  weekdayOf,
+  zonedTime,
+} from './calendar.js';
+import { logger } from './logger.js';
+
+const NOTIFICATION_MODELS = 3;
+
+export interface DigestModel {
+  model: string;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Usage recap for the last full day (daily) or the last full week (weekly)
+ */
+export interface Digest {
+  frequency: DigestFrequency;
+  timeZone: string; // Days are calendar days in this IANA zone
+  from: string; // First day covered, YYYY-MM-DD
+  to: string; // Last day covered, YYYY-MM-DD
+  totalTokens: number;
+  totalCost: number;
+  models: DigestModel[]; // Most expensive first
+  days: DailyUsage[];
+  peakFiveHour?: { utilization: number; at: string };
+  weekly?: { utilization: number; resetsAt: string | null };
+}
+
+/**
+ * Days a digest generated at `now` covers: yesterday, or the last week that has fully ended
+ */
+export const digestRange = (
+  frequency: DigestFrequency,
+  now: Date,
+  calendar: CalendarSettings
+): { from: string; to: string } => {
+  const today = dayKey(now, resolveTimeZone(calendar.timezone));
+  if (frequency === 'daily') {
+    const yesterday = addDays(today, -1);
+    return { from: yesterday, to: yesterday };
+  }
+  const from = addDays(startOfWeek(today, calendar.weekStart), -7);
+  return { from, to: addDays(from, 6) };
+};
+
+/**
+ * Per-model totals across days, most expensive first
+ */
+export const modelTotals = (days: DailyUsage[]): DigestModel[] => {
+  const byModel = new Map<string, DigestModel>();
+  for (const day of days) {
+    for (const [model, usage] of Object.entries(day.models)) {
+      const total = byModel.get(model) ?? { model, tokens: 0, cost: 0 };
+      total.tokens += usage.tokens;
+      total.cost += usage.cost;
+      byModel.set(model, total);
+    }
+  }
+  return [...byModel.values()].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+};
+
+const peakFiveHour = (samples: UtilizationSample[]): Digest['peakFiveHour'] => {
+  let peak: UtilizationSample | undefined;
+  for (const sample of samples) {
+    if (!peak || sample.fiveHour.utilization > peak.fiveHour.utilization) peak = sample;
+  }
+  return peak ? { utilization: peak.fiveHour.utilization, at: peak.timestamp } : undefined;
+};
+
+/**
+ * `days` and `samples` are the daily usage and utilization history recorded during the covered
+ * days; `stats` supplies the current weekly utilization
+ */
+export const buildDigest = (
+  frequency: DigestFrequency,
+  stats: UsageStats,
+  days: DailyUsage[],
+  samples: UtilizationSample[],
+  now: Date,
+  calendar: CalendarSettings
+): Digest => {
+  const { from, to } = digestRange(frequency, now, calendar);
+  const covered = days
+    .filter((day) => day.date >= from && day.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Weekly progress as of now; fall back to the last recorded sample when offline
+  const oauth = stats.oauthUtilization;
+  const lastSample = samples[samples.length - 1];
+  const weekly = oauth?.isAvailable
+    ? { utilization: oauth.sevenDay.utilization, resetsAt: oauth.sevenDay.resetsAt || null }
+    : lastSample && {
+        utilization: lastSample.sevenDay.utilization,
+        resetsAt: lastSample.sevenDay.resetsAt,
+      };
+
+  return {
+    frequency,
+    timeZone: resolveTimeZone(calendar.timezone),
+    from,
+    to,
+    totalTokens: covered.reduce((sum, day) => sum + day.totalTokens, 0),
+    totalCost: covered.reduce((sum, day) => sum + day.totalCost, 0),
+    models: modelTotals(covered),
+    days: covered,
+    peakFiveHour: peakFiveHour(samples),
+    weekly,
+  };
+};
+
+const share = (part: number, total: number): string =>
+  `${total > 0 ? Math.round((part / total) * 100) : 0}%`;
+
+export const formatDigestNotification = (digest: Digest): { title: string; body: string } => {
+  const daily = digest.frequency === 'daily';
+  const parts = [
+    `${daily ? 'Yesterday' : 'Last week'}: ${digest.totalTokens.toLocaleString()} tokens, $${digest.totalCost.toFixed(2)}`,
+  ];
+
+  const models = digest.models
+    .slice(0, NOTIFICATION_MODELS)
+    .map((model) => `${model.model} ${share(model.cost, digest.totalCost)}`);
+  if (models.length > 0) parts[0] += ` (${models.join(', ')})`;
+
+  if (digest.peakFiveHour) {
+    parts.push(`Peak 5-hour usage ${Math.round(digest.peakFiveHour.utilization)}%`);
+  }
+  if (digest.weekly) {
+    parts.push(`Weekly limit at ${Math.round(digest.weekly.utilization)}%`);
+  }
+
+  return {
+    title: `Claude Meter: ${daily ? 'Daily' : 'Weekly'} Summary`,
+    body: `${parts.join('. ')}.`,
+  };
+};
+
+export const renderDigestMarkdown = (digest: Digest): string => {
+  const daily = digest.frequency === 'daily';
+  const lines = [
+    `# Claude Meter ${daily ? 'daily' : 'weekly'} digest: ${daily ? digest.to : `${digest.from} to ${digest.to}`}`,
+    '',
+    '| | |',
+    '|---|---|',
+    `| Tokens | ${digest.totalTokens.toLocaleString()} |`,
+    `| Cost | $${digest.totalCost.toFixed(2)} |`,
+  ];
+  if (digest.peakFiveHour) {
+    lines.push(
+      `| Peak 5-hour utilization | ${Math.round(digest.peakFiveHour.utilization)}% (${formatDayTime(digest.peakFiveHour.at, digest.timeZone)}) |`
+    );
+  }
+  if (digest.weekly) {
+    const resets = digest.weekly.resetsAt
+      ? `, resets ${formatDayTime(digest.weekly.resetsAt, digest.timeZone)}`
+      : '';
+    lines.push(`| Weekly limit | ${Math.round(digest.weekly.utilization)}%${resets} |`);
+  }
+
+  lines.push('', '## Models', '');
+  if (digest.models.length === 0) {
+    lines.push('No usage recorded.');
+  } else {
+    lines.push('| Model | Tokens | Cost | Share |', '|---|---:|---:|---:|');
+    for (const model of digest.models) {
+      lines.push(
+        `| ${model.model} | ${model.tokens.toLocaleString()} | $${model.cost.toFixed(2)} | ${share(model.cost, digest.totalCost)} |`
+      );
+    }
+  }
+
+  if (!daily) {
+    lines.push('', '## Days', '', '| Date | Tokens | Cost |', '|---|---:|---:|');
+    for (const day of digest.days) {
+      lines.push(
+        `| ${day.date} | ${day.totalTokens.toLocaleString()} | $${day.totalCost.toFixed(2)} |`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Next time matching `settings.time` (and `settings.weekday` for weekly digests) in `timeZone`
+ * after `now`
+ */
+export const nextDigestTime = (settings: DigestSettings, now: Date, timeZone: string): Date => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(settings.time);
+  const time = match ? `${match[1].padStart(2, '0')}:${match[2]}` : '09:00';
+
+  let day = dayKey(now, timeZone);
+  if (zonedTime(day, time, timeZone) <= now) day = addDays(day, 1);
+  if (settings.frequency === 'weekly') {
+    day = addDays(day, (settings.weekday - weekdayOf(day) + 7) % 7);
+  }
+  return zonedTime(day, time, timeZone);
+};
+
+export interface DigestSchedulerOptions {
+  loadStats: () => Promise<UsageStats>;
+  loadDays: (from: string, to: string) => Promise<DailyUsage[]>;
+  loadSamples: (from: Date, to: Date) => UtilizationSample[];
+  notify: (digest: Digest) => void;
+  reportsDir?: string;
+}
+
+/**
+ * Sends the daily or weekly digest at the configured time and saves it as Markdown
+ * under ~/.claude-meter/reports
+ */
+export class DigestScheduler {
+  private settings: DigestSettings;
+  private calendar: CalendarSettings;
+  private options: DigestSchedulerOptions;
+  private reportsDir: string;
+  private timer: NodeJS.Timeout | null = null;
+  private nextRun: Date | null = null;
+
+  constructor(
+    settings: DigestSettings,
+    calendar: CalendarSettings,
+    options: DigestSchedulerOptions
+  ) {
+    this.settings = settings;
+    this.calendar = calendar;
+    this.options = options;
+    this.reportsDir = options.reportsDir ?? path.join(os.homedir(), '.claude-meter', 'reports');
+  }
+
+  start(now: Date = new Date()): void {
+    this.stop();
+    if (!this.settings.enabled) return;
+
+    this.nextRun = nextDigestTime(this.settings, now, resolveTimeZone(this.calendar.timezone));
+    this.timer = setTimeout(() => void this.fire(), this.nextRun.getTime() - now.getTime());
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRun = null;
+  }
+
+  updateSettings(settings: DigestSettings): void {
+    this.settings = settings;
+    this.start();
+  }
+
+  updateCalendar(calendar: CalendarSettings): void {
+    this.calendar = calendar;
+    this.start();
+  }
+
+  /**
+   * Timers don't advance while the machine sleeps: send a digest that came due meanwhile
+   */
+  resume(now: Date = new Date()): void {
+    if (this.nextRun && now >= this.nextRun) {
+      // The pending timer would send the same digest again once it catches up
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      void this.fire(now);
+    } else {
+      this.start(now);
+    }
+  }
+
+  getNextRun(): Date | null {
+    return this.nextRun;
+  }
+
+  /**
+   * Build, send and (if enabled) save the digest for the period ending yesterday
+   */
+  async runNow(now: Date = new Date()): Promise<Digest> {
+    const { frequency } = this.settings;
+    const { from, to } = digestRange(frequency, now, this.calendar);
+    const { start, end } = dayBounds(from, to, resolveTimeZone(this.calendar.timezone));
+    const [stats, days] = await Promise.all([
+      this.options.loadStats(),
+      this.options.loadDays(from, to),
+    ]);
+    const samples = this.options.loadSamples(start, end);
+
+    const digest = buildDigest(frequency, stats, days, samples, now, this.calendar);
+    this.options.notify(digest);
+    if (this.settings.writeReport) this.writeReport(digest);
+    return digest;
+  }
+
+  getReportPath(digest: Digest): string {
+    return path.join(this.reportsDir, `${digest.frequency}-${digest.to}.md`);
+  }
+
+  private async fire(now: Date = new Date()): Promise<void> {
+    // Never count a timer that fired a few ms early as "before" the run it is for
+    const due = new Date(Math.max(now.getTime(), this.nextRun?.getTime() ?? 0));
+    try {
+      await this.runNow(due);
+    } catch (error) {
+      logger.error('Error sending usage digest:', error);
+    }
+    this.start(due);
+  }
+
+  private writeReport(digest: Digest): void {
+    try {
+      fs.mkdirSync(this.reportsDir, { recursive: true });
+      fs.writeFileSync(this.getReportPath(digest), renderDigestMarkdown(digest), 'utf8');
+    } catch (error) {
+      logger.error('Error writing usage report:', error);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import type { DailyUsage, ExportFormat, ExportQuery, UtilizationSample } from '../types/usage.js';
+import { dayKey } from './calendar.js';
+import { modelTotals } from './digestService.js';
+
+/**
+ * Bump when columns or record fields change meaning; adding new optional fields keeps it
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  jsonl: 'jsonl',
+  markdown: 'md',
+};
+
+/**
+ * Everything an export contains, before it is rendered to a file format
+ */
+export interface UsageExport {
+  schemaVersion: number;
+  generatedAt: string; // ISO timestamp
+  timeZone: string; // IANA zone the dates are calendar days in
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  days: DailyUsage[]; // Oldest first
+  samples: UtilizationSample[]; // Oldest first
+}
+
+export const buildExport = (
+  query: ExportQuery,
+  days: DailyUsage[],
+  samples: UtilizationSample[],
+  timeZone: string,
+  generatedAt: Date = new Date()
+): UsageExport => ({
+  schemaVersion: EXPORT_SCHEMA_VERSION,
+  generatedAt: generatedAt.toISOString(),
+  timeZone,
+  from: query.from,
+  to: query.to,
+  days: days
+    .filter((day) => day.date >= query.from && day.date <= query.to)
+    .sort((a, b) => a.date.localeCompare(b.date)),
+  samples,
+});
+
+export const exportFileName = (query: ExportQuery): string =>
+  `claude-usage-${query.from}-to-${query.to}.${EXPORT_EXTENSIONS[query.format]}`;
+
+const round = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+export type ExportRecord =
+  | { record: 'day'; date: string; tokens: number; costUsd: number }
+  | { record: 'model'; date: string; model: string; tokens: number; costUsd: number }
+  | {
+      record: 'utilization';
+      date: string;
+      timestamp: string;
+      fiveHour: number;
+      sevenDay: number;
+      sevenDaySonnet?: number;
+      sevenDayOpus?: number;
+    };
+
+/**
+ * Flatten an export into day, per-model and utilization records
+ */
+export const exportRecords = (data: UsageExport): ExportRecord[] => {
+  const records: ExportRecord[] = [];
+
+  for (const day of data.days) {
+    records.push({
+      record: 'day',
+      date: day.date,
+      tokens: day.totalTokens,
+      costUsd: round(day.totalCost),
+    });
+    for (const [model, usage] of Object.entries(day.models)) {
+      records.push({
+        record: 'model',
+        date: day.date,
+        model,
+        tokens: usage.tokens,
+        costUsd: round(usage.cost),
+      });
+    }
+  }
+
+  for (const sample of data.samples) {
+    records.push({
+      record: 'utilization',
+      date: dayKey(sample.timestamp, data.timeZone),
+      timestamp: sample.timestamp,
+      fiveHour: sample.fiveHour.utilization,
+      sevenDay: sample.sevenDay.utilization,
+      ...(sample.sevenDaySonnet ? { sevenDaySonnet: sample.sevenDaySonnet.utilization } : {}),
+      ...(sample.sevenDayOpus ? { sevenDayOpus: sample.sevenDayOpus.utilization } : {}),
+    });
+  }
+
+  return records;
+};
+
+const CSV_COLUMNS = [
+  'schema_version',
+  'record',
+  'date',
+  'timestamp',
+  'model',
+  'tokens',
+  'cost_usd',
+  'five_hour_pct',
+  'seven_day_pct',
+  'seven_day_sonnet_pct',
+  'seven_day_opus_pct',
+] as const;
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+type CsvRow = Partial<Record<(typeof CSV_COLUMNS)[number], string | number>>;
+
+const csvRow = (record: ExportRecord): CsvRow => {
+  const row: CsvRow = { schema_version: EXPORT_SCHEMA_VERSION, record: record.record };
+  switch (record.record) {
+    case 'day':
+      return { ...row, date: record.date, tokens: record.tokens, cost_usd: record.costUsd };
+    case 'model':
+      return {
+        ...row,
+        date: record.date,
+        model: record.model,
+        tokens: record.tokens,
+        cost_usd: record.costUsd,
+      };
+    case 'utilization':
+      return {
+        ...row,
+        date: record.date,
+        timestamp: record.timestamp,
+        five_hour_pct: record.fiveHour,
+        seven_day_pct: record.sevenDay,
+        seven_day_sonnet_pct: record.sevenDaySonnet,
+        seven_day_opus_pct: record.sevenDayOpus,
+      };
+  }
+};
+
+/**
+ * One table with a `record` column (day, model, utilization); cells that don't apply are empty
+ */
+export const renderCsv = (data: UsageExport): string => {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const record of exportRecords(data)) {
+    const row = csvRow(record);
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * A header line with the schema version and range, then one JSON record per line
+ */
+export const renderJsonl = (data: UsageExport): string => {
+  const header = {
+    record: 'header',
+    schemaVersion: data.schemaVersion,
+    generatedAt: data.generatedAt,
+    timeZone: data.timeZone,
+    from: data.from,
+    to: data.to,
+  };
+  return `${[header, ...exportRecords(data)].map((line) => JSON.stringify(line)).join('\n')}\n`;
+};
+
+const usd = (value: number): string => `$${value.toFixed(2)}`;
+
+const peaksByDay = (samples: UtilizationSample[], timeZone: string) => {
+  const byDay = new Map<string, { fiveHour: number; sevenDay: number; count: number }>();
+  for (const sample of samples) {
+    const day = dayKey(sample.timestamp, timeZone);
+    const peak = byDay.get(day) ?? { fiveHour: 0, sevenDay: 0, count: 0 };
+    peak.fiveHour = Math.max(peak.fiveHour, sample.fiveHour.utilization);
+    peak.sevenDay = Math.max(peak.sevenDay, sample.sevenDay.utilization);
+    peak.count++;
+    byDay.set(day, peak);
+  }
+  return [...byDay.entries()];
+};
+
+export const renderMarkdown = (data: UsageExport): string => {
+  const totalCost = data.days.reduce((sum, day) => sum + day.totalCost, 0);
+  const totalTokens = data.days.reduce((sum, day) => sum + day.totalTokens, 0);
+  const lines = [
+    `# Claude usage report: ${data.from} to ${data.to}`,
+    '',
+    `Schema version ${data.schemaVersion}, generated ${data.generatedAt}. Days are calendar days in ${data.timeZone}. Costs are estimated from token counts.`,
+    '',
+    '| | |',
+    '|---|---:|',
+    `| Total cost | ${usd(totalCost)} |`,
+    `| Total tokens | ${totalTokens.toLocaleString()} |`,
+    `| Days with usage | ${data.days.length} |`,
+    '',
+    '## Models',
+    '',
+    '| Model | Tokens | Cost | Share |',
+    '|---|---:|---:|---:|',
+  ];
+  for (const model of modelTotals(data.days)) {
+    const share = totalCost > 0 ? Math.round((model.cost / totalCost) * 100) : 0;
+    lines.push(
+      `| ${model.model} | ${model.tokens.toLocaleString()} | ${usd(model.cost)} | ${share}% |`
+    );
+  }
+
+  lines.push('', '## Daily', '', '| Date | Tokens | Cost |', '|---|---:|---:|');
+  for (const day of data.days) {
+    lines.push(`| ${day.date} | ${day.totalTokens.toLocaleString()} | ${usd(day.totalCost)} |`);
+  }
+
+  const peaks = peaksByDay(data.samples, data.timeZone);
+  if (peaks.length > 0) {
+    lines.push(
+      '',
+      '## Utilization',
+      '',
+      '| Date | Peak 5-hour | Peak weekly | Samples |',
+      '|---|---:|---:|---:|'
+    );
+    for (const [day, peak] of peaks) {
+      lines.push(`| ${day} | ${peak.fiveHour}% | ${peak.sevenDay}% | ${peak.count} |`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const renderExport = (data: UsageExport, format: ExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return renderCsv(data);
+    case 'jsonl':
+      return renderJsonl(data);
+    case 'markdown':
+      return renderMarkdown(data);
+  }
+};
@@ -0,0 +1,216 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { UtilizationSample } from '../types/usage.js';
+import { DEFAULT_ACCOUNT_ID } from './accounts.js';
+import type { ClaudeUsageData } from './claudeOAuthService.js';
+import { logger } from './logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persists OAuth utilization samples as one JSONL file per UTC day.
+ *
+ * Retention:
+ * - the last RAW_RETENTION_DAYS days keep every sample
+ * - older days are compacted to the peak sample of each hour
+ * - days older than MAX_RETENTION_DAYS are deleted
+ */
+export class HistoryService {
+  private static instance: HistoryService;
+  private static accountInstances = new Map<string, HistoryService>();
+  private historyDir: string;
+  private lastCompactionDay = '';
+  private readonly RAW_RETENTION_DAYS = 7;
+  private readonly MAX_RETENTION_DAYS = 90;
+
+  constructor(historyDir = path.join(os.homedir(), '.claude-meter', 'history')) {
+    this.historyDir = historyDir;
+
+    // Ensure history directory exists
+    if (!fs.existsSync(historyDir)) {
+      fs.mkdirSync(historyDir, { recursive: true });
+    }
+  }
+
+  static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  /**
+   * History for one account. The default account keeps the top-level directory, so samples
+   * recorded before accounts were configured stay with it
+   */
+  static forAccount(accountId: string): HistoryService {
+    if (accountId === DEFAULT_ACCOUNT_ID) return HistoryService.getInstance();
+
+    let service = HistoryService.accountInstances.get(accountId);
+    if (!service) {
+      const dir = path.join(HistoryService.getInstance().getHistoryDir(), 'accounts', accountId);
+      service = new HistoryService(dir);
+      HistoryService.accountInstances.set(accountId, service);
+    }
+    return service;
+  }
+
+  /**
+   * Record a fresh OAuth usage response
+   */
+  record(data: ClaudeUsageData, recordedAt = new Date()): void {
+    try {
+      const sample = this.toSample(data, recordedAt);
+      const filePath = this.getFilePath(sample.timestamp.slice(0, 10));
+      fs.appendFileSync(filePath, `${JSON.stringify(sample)}\n`, 'utf8');
+
+      // Compact at most once per day, on the first sample of a new day
+      const day = sample.timestamp.slice(0, 10);
+      if (day !== this.lastCompactionDay) {
+        this.lastCompactionDay = day;
+        this.compact(recordedAt);
+      }
+    } catch (error) {
+      logger.error('Error recording utilization sample:', error);
+    }
+  }
+
+  /**
+   * Get all samples between two timestamps (inclusive), oldest first
+   */
+  getSamples(from: Date, to: Date): UtilizationSample[] {
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      return [];
+    }
+
+    const samples: UtilizationSample[] = [];
+    const lastDay = to.toISOString().slice(0, 10);
+    let cursor = new Date(`${from.toISOString().slice(0, 10)}T00:00:00Z`);
+
+    while (cursor.toISOString().slice(0, 10) <= lastDay) {
+      for (const sample of this.readDay(cursor.toISOString().slice(0, 10))) {
+        const time = new Date(sample.timestamp).getTime();
+        if (time >= from.getTime() && time <= to.getTime()) {
+          samples.push(sample);
+        }
+      }
+      cursor = new Date(cursor.getTime() + DAY_MS);
+    }
+
+    return samples.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Apply retention rules: compact days past the raw window, delete expired days
+   */
+  compact(now = new Date()): void {
+    const rawCutoff = new Date(now.getTime() - this.RAW_RETENTION_DAYS * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    const deleteCutoff = new Date(now.getTime() - this.MAX_RETENTION_DAYS * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+
+    try {
+      for (const file of fs.readdirSync(this.historyDir)) {
+        const match = file.match(/^(\d{4}-\d{2}-\d{2})\.jsonl$/);
+        if (!match) continue;
+
+        const day = match[1];
+        if (day < deleteCutoff) {
+          fs.unlinkSync(this.getFilePath(day));
+        } else if (day < rawCutoff) {
+          this.compactDay(day);
+        }
+      }
+    } catch (error) {
+      logger.error('Error compacting utilization history:', error);
+    }
+  }
+
+  getHistoryDir(): string {
+    return this.historyDir;
+  }
+
+  private compactDay(day: string): void {
+    const samples = this.readDay(day);
+    if (samples.every((sample) => sample.compacted)) return;
+
+    // Keep the sample with the highest 5-hour utilization for each hour
+    const peaks = new Map<string, UtilizationSample>();
+    for (const sample of samples) {
+      const hour = sample.timestamp.slice(0, 13);
+      const current = peaks.get(hour);
+      if (!current || sample.fiveHour.utilization > current.fiveHour.utilization) {
+        peaks.set(hour, sample);
+      }
+    }
+
+    const compacted = [...peaks.values()]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((sample) => JSON.stringify({ ...sample, compacted: true }))
+      .join('\n');
+
+    fs.writeFileSync(this.getFilePath(day), `${compacted}\n`, 'utf8');
+  }
+
+  private readDay(day: string): UtilizationSample[] {
+    const filePath = this.getFilePath(day);
+    if (!fs.existsSync(filePath)) return [];
+
+    const samples: UtilizationSample[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        samples.push(JSON.parse(line));
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return samples;
+  }
+
+  private getFilePath(day: string): string {
+    return path.join(this.historyDir, `${day}.jsonl`);
+  }
+
+  private toSample(data: ClaudeUsageData, recordedAt: Date): UtilizationSample {
+    const sample: UtilizationSample = {
+      timestamp: recordedAt.toISOString(),
+      fiveHour: {
+        utilization: data.five_hour.utilization,
+        resetsAt: data.five_hour.resets_at,
+      },
+      sevenDay: {
+        utilization: data.seven_day.utilization,
+        resetsAt: data.seven_day.resets_at,
+      },
+    };
+
+    if (data.seven_day_sonnet) {
+      sample.sevenDaySonnet = {
+        utilization: data.seven_day_sonnet.utilization,
+        resetsAt: data.seven_day_sonnet.resets_at,
+      };
+    }
+
+    if (data.seven_day_opus) {
+      sample.sevenDayOpus = {
+        utilization: data.seven_day_opus.utilization,
+        resetsAt: data.seven_day_opus.resets_at,
+      };
+    }
+
+    if (data.extra_usage) {
+      sample.extraUsage = {
+        isEnabled: data.extra_usage.is_enabled,
+        monthlyLimit: data.extra_usage.monthly_limit,
+        usedCredits: data.extra_usage.used_credits,
+        utilization: data.extra_usage.utilization,
+      };
+    }
+
+    return sample;
+  }
+}
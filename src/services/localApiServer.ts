@@ -0,0 +1,237 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { MenuBarData, UsageStats } from '../types/usage.js';
+import { CCUsageService } from './ccusageService.js';
+import { logger } from './logger.js';
+import type { MetricsExporter } from './metricsExporter.js';
+
+/**
+ * Where the server reads its data from (CCUsageService in the app)
+ */
+export interface LocalApiDataSource {
+  getMenuBarData(): Promise<MenuBarData>;
+  getUsageStats(): Promise<UsageStats>;
+}
+
+/**
+ * Opt-in HTTP/JSON API on 127.0.0.1 for shell prompts, status lines and editor plugins.
+ *
+ * Every request must carry the token from ~/.claude-meter/api-token, either as
+ * `Authorization: Bearer <token>` or `?token=<token>` (for EventSource clients).
+ *
+ * Routes:
+ * - GET /v1/menubar  current MenuBarData
+ * - GET /v1/stats    current UsageStats
+ * - GET /v1/oauth    current OAuthUtilization (or null)
+ * - GET /v1/events   server-sent events, one `usage` event per polling tick
+ * - GET /metrics      Prometheus text format, only when a MetricsExporter is attached
+ */
+export const LOCAL_API_MIN_PORT = 1024; // Lower ports need root
+export const LOCAL_API_MAX_PORT = 65535;
+
+export const isValidLocalApiPort = (port: unknown): port is number =>
+  Number.isInteger(port) &&
+  (port as number) >= LOCAL_API_MIN_PORT &&
+  (port as number) <= LOCAL_API_MAX_PORT;
+
+export class LocalApiServer {
+  private static instance: LocalApiServer;
+  private server: http.Server | null = null;
+  private clients = new Set<http.ServerResponse>();
+  private dataSource: LocalApiDataSource;
+  private tokenPath: string;
+  private token: string | null = null;
+  private metrics: MetricsExporter | null = null;
+
+  constructor(
+    dataSource: LocalApiDataSource = CCUsageService.getInstance(),
+    tokenPath = path.join(os.homedir(), '.claude-meter', 'api-token')
+  ) {
+    this.dataSource = dataSource;
+    this.tokenPath = tokenPath;
+  }
+
+  static getInstance(): LocalApiServer {
+    if (!LocalApiServer.instance) {
+      LocalApiServer.instance = new LocalApiServer();
+    }
+    return LocalApiServer.instance;
+  }
+
+  /**
+   * Listen on `port`, replacing a server on another port only once the new one is bound, so a
+   * port that is taken leaves the running server in place
+   */
+  async start(port: number): Promise<void> {
+    if (!isValidLocalApiPort(port)) {
+      throw new Error(
+        `Local API port must be between ${LOCAL_API_MIN_PORT} and ${LOCAL_API_MAX_PORT}, got ${port}`
+      );
+    }
+    if (this.server && this.getPort() === port) return;
+
+    this.token = this.loadOrCreateToken();
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('Local API request failed:', error);
+        this.sendJson(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    await this.stop();
+    this.server = server;
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * Port the running server is bound to
+   */
+  getPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  getTokenPath(): string {
+    return this.tokenPath;
+  }
+
+  /**
+   * Serve /metrics from this exporter, or 404 it when null
+   */
+  setMetricsExporter(metrics: MetricsExporter | null): void {
+    this.metrics = metrics;
+  }
+
+  /**
+   * Push an event to every connected SSE client
+   */
+  broadcast(event: string, data: unknown): void {
+    const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.clients) {
+      client.write(payload);
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+    if (!this.isAuthorized(req, url)) {
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/v1/menubar':
+        this.sendJson(res, 200, await this.dataSource.getMenuBarData());
+        break;
+      case '/v1/stats':
+        this.sendJson(res, 200, await this.dataSource.getUsageStats());
+        break;
+      case '/v1/oauth': {
+        const stats = await this.dataSource.getUsageStats();
+        this.sendJson(res, 200, stats.oauthUtilization ?? null);
+        break;
+      }
+      case '/v1/events':
+        await this.openEventStream(req, res);
+        break;
+      case '/metrics':
+        if (this.metrics) {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(this.metrics.render());
+        } else {
+          this.sendJson(res, 404, { error: 'Not found' });
+        }
+        break;
+      default:
+        this.sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private async openEventStream(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    this.clients.add(res);
+    req.on('close', () => {
+      this.clients.delete(res);
+    });
+
+    // Send the current state right away so clients don't wait for the next tick
+    const data = await this.dataSource.getMenuBarData();
+    res.write(`event: usage\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    if (!this.token) return false;
+
+    const header = req.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : url.searchParams.get('token');
+    if (!provided) return false;
+
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private loadOrCreateToken(): string {
+    if (fs.existsSync(this.tokenPath)) {
+      const existing = fs.readFileSync(this.tokenPath, 'utf8').trim();
+      if (existing) return existing;
+    }
+
+    const token = randomBytes(24).toString('hex');
+    fs.mkdirSync(path.dirname(this.tokenPath), { recursive: true });
+    fs.writeFileSync(this.tokenPath, `${token}\n`, { encoding: 'utf8', mode: 0o600 });
+    return token;
+  }
+}
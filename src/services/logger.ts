@@ -0,0 +1,25 @@
+/**
+ * Where the core services report failures. The app logs to the console; the CLI swaps in
+ * quietLogger so scripts only see its own error output.
+ */
+export interface Logger {
+  error(...args: unknown[]): void;
+}
+
+export const consoleLogger: Logger = {
+  error: (...args) => console.error(...args),
+};
+
+export const quietLogger: Logger = {
+  error: () => {},
+};
+
+let current: Logger = consoleLogger;
+
+export const setLogger = (next: Logger): void => {
+  current = next;
+};
+
+export const logger: Logger = {
+  error: (...args) => current.error(...args),
+};
@@ -0,0 +1,244 @@
+import { format } from 'date-fns';
+import type { LimitKey, LimitStatus, MenuBarData } from '../types/usage.js';
+
+export type MenuBarDisplayMode = 'both' | 'percentage' | 'cost';
+
+/**
+ * Templates the old `menuBarDisplayMode` setting stands for
+ */
+export const DISPLAY_MODE_TEMPLATES: Record<MenuBarDisplayMode, string> = {
+  both: '{percent}% · ${cost}',
+  percentage: '{percent}%',
+  cost: '${cost}',
+};
+
+export const DEFAULT_MENU_BAR_TEMPLATE = DISPLAY_MODE_TEMPLATES.both;
+
+const MISSING = '--';
+
+interface TemplateToken {
+  description: string;
+  value: (data: MenuBarData) => string | number | null | undefined; // Missing values render as "--"
+}
+
+const round = (value: number | null | undefined) =>
+  value === null || value === undefined ? undefined : Math.round(value);
+
+/**
+ * Limit entry with the highest utilization; the aggregate menu bar lists one per account
+ */
+const busiestLimit = (data: MenuBarData, limit: LimitKey): LimitStatus | undefined =>
+  (data.limits ?? [])
+    .filter((status) => status.limit === limit)
+    .reduce<LimitStatus | undefined>(
+      (busiest, status) =>
+        !busiest || status.utilization > busiest.utilization ? status : busiest,
+      undefined
+    );
+
+const limitTokens = (name: string, limit: LimitKey, label: string) => ({
+  [name]: {
+    description: `${label} utilization`,
+    value: (data: MenuBarData) => round(busiestLimit(data, limit)?.utilization),
+  },
+  [`${name}_status`]: {
+    description: `${label} level: safe, warning or critical`,
+    value: (data: MenuBarData) => busiestLimit(data, limit)?.level,
+  },
+});
+
+type ResetWindow = 'fiveHour' | 'sevenDay' | 'sevenDaySonnet' | 'sevenDayOpus';
+
+const resetTokens = (name: string, window: ResetWindow, label: string) => {
+  const reset = (data: MenuBarData) =>
+    data.oauthUtilization?.isAvailable ? data.oauthUtilization[window] : undefined;
+  return {
+    [`${name}_reset`]: {
+      description: `Time until the ${label} limit resets`,
+      value: (data: MenuBarData) => reset(data)?.formattedTimeRemaining || undefined,
+    },
+    [`${name}_resets_at`]: {
+      description: `Local time the ${label} limit resets`,
+      value: (data: MenuBarData) => {
+        const resetsAt = reset(data)?.resetsAt;
+        return resetsAt ? format(new Date(resetsAt), 'HH:mm') : undefined;
+      },
+    },
+  };
+};
+
+/**
+ * Every token a template can reference, written as `{name}`
+ */
+export const MENU_BAR_TOKENS: Record<string, TemplateToken> = {
+  percent: {
+    description: 'Menu bar percentage (5-hour utilization)',
+    value: (data) =>
+      data.oauthUtilization?.isAvailable ? Math.round(data.percentageUsed) : undefined,
+  },
+  cost: {
+    description: 'Cost from the selected cost source',
+    value: (data) => data.cost.toFixed(2),
+  },
+  today: {
+    description: "Today's cost",
+    value: (data) => data.todayCost?.toFixed(2),
+  },
+  session: {
+    description: 'Cost of the current 5-hour session window',
+    value: (data) => data.sessionCost?.toFixed(2),
+  },
+  status: {
+    description: 'Worst level across all limits',
+    value: (data) => data.status,
+  },
+  account: {
+    description: 'Account name',
+    value: (data) => data.account,
+  },
+  errors: {
+    description: 'Number of failed sources',
+    value: (data) => (data.errors ?? []).length,
+  },
+  source: {
+    description: 'Where the OAuth token came from',
+    value: (data) => data.oauthUtilization?.credentialSource,
+  },
+  expired: {
+    description: '"expired" while the OAuth token cannot be refreshed, else nothing',
+    value: (data) => (data.oauthUtilization?.credentialsExpired ? 'expired' : ''),
+  },
+  ...limitTokens('5h', 'fiveHour', '5-hour'),
+  ...resetTokens('5h', 'fiveHour', '5-hour'),
+  ...limitTokens('7d', 'sevenDay', 'Weekly'),
+  ...resetTokens('7d', 'sevenDay', 'weekly'),
+  ...limitTokens('7d_sonnet', 'sevenDaySonnet', 'Sonnet weekly'),
+  ...resetTokens('7d_sonnet', 'sevenDaySonnet', 'Sonnet weekly'),
+  ...limitTokens('7d_opus', 'sevenDayOpus', 'Opus weekly'),
+  ...resetTokens('7d_opus', 'sevenDayOpus', 'Opus weekly'),
+  ...limitTokens('extra', 'extraUsage', 'Extra usage'),
+  extra_used: {
+    description: 'Extra usage credits used this month',
+    value: (data) => data.oauthUtilization?.extraUsage?.usedCredits,
+  },
+  extra_limit: {
+    description: 'Monthly extra usage credit limit',
+    value: (data) => data.oauthUtilization?.extraUsage?.monthlyLimit,
+  },
+};
+
+// Own properties only, so "{constructor}" is not a token
+const tokenFor = (name: string): TemplateToken | undefined =>
+  Object.prototype.hasOwnProperty.call(MENU_BAR_TOKENS, name) ? MENU_BAR_TOKENS[name] : undefined;
+
+export type TemplateSegment = { text: string } | { token: string };
+
+export interface ParsedTemplate {
+  segments: TemplateSegment[];
+  errors: string[]; // Empty when the template is valid
+}
+
+// Escaped braces, a `{token}`, or a brace without its partner
+const TEMPLATE_PART = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g;
+
+const appendText = (segments: TemplateSegment[], text: string) => {
+  if (!text) return;
+  const previous = segments[segments.length - 1];
+  if (previous && 'text' in previous) {
+    previous.text += text;
+  } else {
+    segments.push({ text });
+  }
+};
+
+/**
+ * Split a template into literal text and `{token}` references. `{{` and `}}` are literal braces.
+ */
+export const parseTemplate = (template: string): ParsedTemplate => {
+  const segments: TemplateSegment[] = [];
+  const errors: string[] = [];
+  let last = 0;
+
+  for (const match of template.matchAll(TEMPLATE_PART)) {
+    const index = match.index ?? 0;
+    appendText(segments, template.slice(last, index));
+    last = index + match[0].length;
+
+    if (match[1] !== undefined) {
+      const token = match[1].trim();
+      if (!tokenFor(token)) errors.push(`Unknown token {${token}}`);
+      segments.push({ token });
+    } else if (match[0].length === 2) {
+      appendText(segments, match[0][0]);
+    } else {
+      const problem = match[0] === '{' ? 'Unclosed "{"' : 'Unmatched "}"';
+      errors.push(`${problem} at position ${index + 1}`);
+    }
+  }
+
+  appendText(segments, template.slice(last));
+  return { segments, errors };
+};
+
+export const validateTemplate = (template: string): string[] => {
+  const { errors } = parseTemplate(template);
+  return template.trim() ? errors : ['The template is empty', ...errors];
+};
+
+/**
+ * Fill in a template from menu bar data. Unknown tokens are left as written.
+ */
+export const renderTemplate = (template: string, data: MenuBarData): string =>
+  parseTemplate(template)
+    .segments.map((segment) => {
+      if ('text' in segment) return segment.text;
+      const token = tokenFor(segment.token);
+      if (!token) return `{${segment.token}}`;
+      const value = token.value(data);
+      return value === null || value === undefined ? MISSING : String(value);
+    })
+    .join('')
+    .trim();
+
+/**
+ * Template for settings written before templates existed
+ */
+export const templateForDisplayMode = (mode: unknown): string =>
+  DISPLAY_MODE_TEMPLATES[mode as MenuBarDisplayMode] ?? DEFAULT_MENU_BAR_TEMPLATE;
+
+/**
+ * Whether the title shows the cost that `menuBarCostSource` picks
+ */
+export const usesCostSource = (template: string): boolean =>
+  parseTemplate(template).segments.some(
+    (segment) => 'token' in segment && segment.token === 'cost'
+  );
+
+/**
+ * Data for the settings preview before the first poll
+ */
+export const SAMPLE_MENU_BAR_DATA: MenuBarData = {
+  percentageUsed: 45,
+  cost: 2.35,
+  todayCost: 2.35,
+  sessionCost: 1.1,
+  status: 'safe',
+  limits: [
+    { limit: 'fiveHour', label: '5-hour', utilization: 45, level: 'safe' },
+    { limit: 'sevenDay', label: 'Weekly', utilization: 62, level: 'safe' },
+  ],
+  oauthUtilization: {
+    fiveHour: {
+      utilization: 45,
+      resetsAt: new Date(Date.now() + 150 * 60 * 1000).toISOString(),
+      formattedTimeRemaining: '2h 30m',
+    },
+    sevenDay: {
+      utilization: 62,
+      resetsAt: new Date(Date.now() + 77 * 60 * 60 * 1000).toISOString(),
+      formattedTimeRemaining: '3d 5h',
+    },
+    isAvailable: true,
+  },
+  account: 'Personal',
+};
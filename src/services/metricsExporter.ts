@@ -0,0 +1,167 @@
+import type { UsageErrorKind, UsageStats } from '../types/usage.js';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: Sample[];
+}
+
+/**
+ * Escape a label value per the Prometheus text format
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatSample = (name: string, { labels, value }: Sample): string => {
+  const entries = Object.entries(labels);
+  const labelText = entries.length
+    ? `{${entries.map(([key, val]) => `${key}="${escapeLabel(val)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${Number.isFinite(value) ? value : 0}`;
+};
+
+const secondsUntil = (resetsAt: string | null | undefined, now: Date): number | null => {
+  if (!resetsAt) return null;
+  const time = Date.parse(resetsAt);
+  if (Number.isNaN(time)) return null;
+  return Math.max(0, Math.round((time - now.getTime()) / 1000));
+};
+
+/**
+ * Render usage stats and fetch error counters in the Prometheus text exposition format
+ */
+export const renderMetrics = (
+  stats: UsageStats | null,
+  errorCounts: Partial<Record<UsageErrorKind, number>>,
+  updatedAt: Date | null,
+  now = new Date()
+): string => {
+  const utilization: Metric = {
+    name: 'claude_meter_utilization_percent',
+    help: 'Rate limit utilization (0-100)',
+    type: 'gauge',
+    samples: [],
+  };
+  const resets: Metric = {
+    name: 'claude_meter_reset_seconds',
+    help: 'Seconds until the rate limit window resets',
+    type: 'gauge',
+    samples: [],
+  };
+  const metrics: Metric[] = [utilization, resets];
+
+  const oauth = stats?.oauthUtilization;
+  if (oauth?.isAvailable) {
+    const limits: [string, number | undefined, string | null | undefined][] = [
+      ['five_hour', oauth.fiveHour.utilization, oauth.fiveHour.resetsAt],
+      ['seven_day', oauth.sevenDay.utilization, oauth.sevenDay.resetsAt],
+      ['seven_day_sonnet', oauth.sevenDaySonnet?.utilization, oauth.sevenDaySonnet?.resetsAt],
+      ['seven_day_opus', oauth.sevenDayOpus?.utilization, oauth.sevenDayOpus?.resetsAt],
+    ];
+
+    for (const [limit, value, resetsAt] of limits) {
+      if (value === undefined) continue;
+      utilization.samples.push({ labels: { limit }, value });
+
+      const seconds = secondsUntil(resetsAt, now);
+      if (seconds !== null) resets.samples.push({ labels: { limit }, value: seconds });
+    }
+  }
+
+  metrics.push({
+    name: 'claude_meter_oauth_available',
+    help: 'Whether OAuth utilization data is currently available',
+    type: 'gauge',
+    samples: stats ? [{ labels: {}, value: oauth?.isAvailable ? 1 : 0 }] : [],
+  });
+
+  if (stats) {
+    const models = Object.entries(stats.today.models);
+    metrics.push(
+      {
+        name: 'claude_meter_today_cost_usd',
+        help: "Today's estimated cost in USD",
+        type: 'gauge',
+        samples: [{ labels: {}, value: stats.today.totalCost }],
+      },
+      {
+        name: 'claude_meter_today_tokens',
+        help: "Today's tokens per model",
+        type: 'gauge',
+        samples: models.map(([model, usage]) => ({ labels: { model }, value: usage.tokens })),
+      },
+      {
+        name: 'claude_meter_today_model_cost_usd',
+        help: "Today's estimated cost per model in USD",
+        type: 'gauge',
+        samples: models.map(([model, usage]) => ({ labels: { model }, value: usage.cost })),
+      }
+    );
+  }
+
+  metrics.push({
+    name: 'claude_meter_fetch_errors_total',
+    help: 'Failed OAuth usage fetches by error kind',
+    type: 'counter',
+    samples: Object.entries(errorCounts).map(([kind, count]) => ({
+      labels: { kind },
+      value: count ?? 0,
+    })),
+  });
+
+  metrics.push({
+    name: 'claude_meter_last_update_timestamp_seconds',
+    help: 'Unix time of the last poll',
+    type: 'gauge',
+    samples: updatedAt ? [{ labels: {}, value: Math.floor(updatedAt.getTime() / 1000) }] : [],
+  });
+
+  return `${metrics
+    .filter((metric) => metric.samples.length > 0)
+    .map((metric) =>
+      [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.samples.map((sample) => formatSample(metric.name, sample)),
+      ].join('\n')
+    )
+    .join('\n')}\n`;
+};
+
+/**
+ * Holds the latest polled snapshot so scrapes never trigger extra API calls
+ */
+export class MetricsExporter {
+  private static instance: MetricsExporter;
+  private stats: UsageStats | null = null;
+  private errorCounts: Partial<Record<UsageErrorKind, number>> = {};
+  private updatedAt: Date | null = null;
+
+  static getInstance(): MetricsExporter {
+    if (!MetricsExporter.instance) {
+      MetricsExporter.instance = new MetricsExporter();
+    }
+    return MetricsExporter.instance;
+  }
+
+  /**
+   * Called from the polling loop with the data it already fetched
+   */
+  update(stats: UsageStats, errorCounts: Partial<Record<UsageErrorKind, number>>): void {
+    this.stats = stats;
+    this.errorCounts = errorCounts;
+    this.updatedAt = new Date();
+  }
+
+  render(now = new Date()): string {
+    return renderMetrics(this.stats, this.errorCounts, this.updatedAt, now);
+  }
+}
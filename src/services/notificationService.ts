@@ -1,13 +1,71 @@
-import { Notification } from 'electron';
-import type { MenuBarData } from '../types/usage.js';
+import type {
+  AlertMessage,
+  AlertSettings,
+  AlertSeverity,
+  CalendarSettings,
+  NotificationThresholds,
+  UsageStats,
+} from '../types/usage.js';
+import {
+  AlertEngine,
+  type FiredAlert,
+  buildAlertSnapshot,
+  thresholdRules,
+  worstSeverity,
+} from './alertEngine.js';
+import { resolveTimeZone } from './calendar.js';
+import { type Digest, formatDigestNotification } from './digestService.js';
+import { logger } from './logger.js';
+import { DEFAULT_THRESHOLDS } from './thresholdPolicy.js';
+
+/**
+ * Where notifications are shown. The Electron app supplies one backed by `Notification`;
+ * without a sink (e.g. in the CLI) notifications are dropped.
+ */
+export interface NotificationSink {
+  isSupported(): boolean;
+  show(title: string, body: string): void;
+}
+
+/**
+ * Forwards notifications to other channels (webhooks, chat, commands)
+ */
+export interface AlertDelivery {
+  deliver(message: AlertMessage): Promise<unknown>;
+}
+
+const TITLES = {
+  info: 'Claude Meter: Alert',
+  warning: 'Claude Meter: Usage Warning',
+  critical: 'Claude Meter: Usage Critical',
+};
+
+/**
+ * Keep one built-in threshold alert per limit, e.g. only the critical one when a limit jumps past
+ * both its warning and critical thresholds in one poll. User rules all stay: the engine has
+ * already started their cooldowns, so a dropped one would never be shown.
+ */
+const mostSevereByValue = (alerts: FiredAlert[]): FiredAlert[] => {
+  const byValue = new Map<string, FiredAlert>();
+  for (const alert of alerts) {
+    const key = alert.rule.id.startsWith('threshold:')
+      ? `${alert.rule.metric}:${alert.rule.limit ?? ''}`
+      : alert.rule.id;
+    const existing = byValue.get(key);
+    if (!existing || worstSeverity([existing, alert]) !== existing.rule.severity) {
+      byValue.set(key, alert);
+    }
+  }
+  return [...byValue.values()];
+};
 
 export class NotificationService {
   private static instance: NotificationService;
-  private lastNotificationTime = 0;
-  private readonly NOTIFICATION_COOLDOWN = 300000; // 5 minutes
-  private lastWarningLevel: 'safe' | 'warning' | 'critical' = 'safe';
-  private lastNotificationData = '';
-  private notificationInProgress = false;
+  private sink: NotificationSink | null = null;
+  private delivery: AlertDelivery | null = null;
+  private engine = new AlertEngine();
+  private thresholds: NotificationThresholds = DEFAULT_THRESHOLDS;
+  private alerts: AlertSettings = { thresholdAlerts: true, rules: [] };
 
   static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -16,73 +74,83 @@ export class NotificationService {
     return NotificationService.instance;
   }
 
-  checkAndNotify(data: MenuBarData, source: 'auto' | 'manual' = 'auto'): void {
-    const now = Date.now();
-    const timeSinceLastNotification = now - this.lastNotificationTime;
+  setSink(sink: NotificationSink | null): void {
+    this.sink = sink;
+  }
 
-    // Create a unique identifier for this data state
-    const dataIdentifier = `${data.status}-${Math.round(data.percentageUsed)}`;
+  setDelivery(delivery: AlertDelivery | null): void {
+    this.delivery = delivery;
+  }
 
-    // Prevent duplicate notifications for the same data
-    if (this.lastNotificationData === dataIdentifier || this.notificationInProgress) {
-      return;
-    }
+  setThresholds(thresholds: NotificationThresholds): void {
+    this.thresholds = thresholds;
+  }
 
-    // Only notify if enough time has passed and status has worsened
-    if (timeSinceLastNotification < this.NOTIFICATION_COOLDOWN) {
-      return;
-    }
+  setAlertSettings(alerts: AlertSettings): void {
+    this.alerts = alerts;
+  }
 
-    // Check if we should send a notification
-    let shouldNotify = false;
-    let title = '';
-    let body = '';
-
-    if (data.status === 'critical' && this.lastWarningLevel !== 'critical') {
-      shouldNotify = true;
-      title = 'Claude Meter: Usage Critical';
-      body = `You've used ${Math.round(data.percentageUsed)}% of your tokens. Consider upgrading your plan.`;
-    } else if (data.status === 'warning' && this.lastWarningLevel === 'safe') {
-      shouldNotify = true;
-      title = 'Claude Meter: Usage Warning';
-      body = `You've used ${Math.round(data.percentageUsed)}% of your tokens. Monitor your usage carefully.`;
-    }
+  /**
+   * Quiet hours follow calendar.timezone, like the rest of the app
+   */
+  setCalendar(calendar: CalendarSettings): void {
+    this.engine.setTimeZone(resolveTimeZone(calendar.timezone));
+  }
 
-    if (shouldNotify) {
-      this.notificationInProgress = true;
-      this.sendNotification(title, body);
-      this.lastNotificationTime = now;
-      this.lastWarningLevel = data.status;
-      this.lastNotificationData = dataIdentifier;
-
-      // Reset notification lock after a short delay
-      setTimeout(() => {
-        this.notificationInProgress = false;
-      }, 1000);
-    }
+  /**
+   * Run the alert rules against a fresh poll and show one notification for everything that fired
+   */
+  checkAndNotify(stats: UsageStats, now: Date = new Date()): FiredAlert[] {
+    const rules = [
+      ...(this.alerts.thresholdAlerts ? thresholdRules(this.thresholds) : []),
+      ...this.alerts.rules,
+    ];
+    const fired = mostSevereByValue(
+      this.engine.evaluate(rules, buildAlertSnapshot(stats, now.getTime()), now)
+    );
+    if (fired.length === 0) return fired;
+
+    const title =
+      fired.length === 1 && !fired[0].rule.id.startsWith('threshold:')
+        ? `Claude Meter: ${fired[0].rule.name}`
+        : TITLES[worstSeverity(fired)];
+    // Several user rules can watch the same value, so name them once they share a notification
+    const lines = fired.map((alert) =>
+      fired.length > 1 && !alert.rule.id.startsWith('threshold:')
+        ? `${alert.rule.name}: ${alert.message}`
+        : alert.message
+    );
+    this.sendNotification(title, `${lines.join('. ')}.`, worstSeverity(fired));
+
+    return fired;
+  }
+
+  /**
+   * Show a one-off notification (e.g. a limit reset) through the sink
+   */
+  notify(title: string, body: string, severity: AlertSeverity = 'info'): void {
+    this.sendNotification(title, body, severity);
   }
 
-  private sendNotification(title: string, body: string): void {
+  private sendNotification(title: string, body: string, severity: AlertSeverity = 'info'): void {
     try {
-      if (Notification.isSupported()) {
-        new Notification({
-          title,
-          body,
-          silent: false,
-        }).show();
+      if (this.sink?.isSupported()) {
+        this.sink.show(title, body);
       }
     } catch (error) {
-      console.error('Error sending notification:', error);
+      logger.error('Error sending notification:', error);
     }
-  }
-
-  // Send a daily summary notification
-  sendDailySummary(tokensUsed: number, cost: number): void {
-    if (!Notification.isSupported()) return;
 
-    const title = 'Claude Meter: Daily Summary';
-    const body = `Today: ${tokensUsed.toLocaleString()} tokens used, $${cost.toFixed(3)} spent`;
+    this.delivery
+      ?.deliver({ title, body, severity, timestamp: new Date().toISOString() })
+      .catch((error) => logger.error('Error delivering notification:', error));
+  }
 
+  /**
+   * Show the scheduled daily or weekly digest
+   */
+  sendDailySummary(digest: Digest): void {
+    const { title, body } = formatDigestNotification(digest);
     this.sendNotification(title, body);
   }
 }
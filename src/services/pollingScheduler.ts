@@ -0,0 +1,288 @@
+import type { PollingSettings, UsageStats } from '../types/usage.js';
+import { logger } from './logger.js';
+
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+const IDLE_AFTER_MS = 10 * 60 * 1000; // No new Claude Code usage for 10 minutes
+const NEAR_THRESHOLD_MARGIN = 10; // Percentage points below the warning threshold
+const RESUME_DELAY_MS = 5000; // Give the network a moment after wake
+
+/**
+ * What a poll observed, used to pick the next delay
+ */
+export interface PollOutcome {
+  ok: boolean;
+  retryAfterSeconds?: number;
+  utilization?: number; // Highest rate limit utilization (0-100)
+  activityMarker?: string; // Changes whenever new Claude Code usage is recorded
+}
+
+export type PollReason = 'initial' | 'normal' | 'fast' | 'idle' | 'backoff' | 'resume';
+
+export interface PollDecision {
+  delayMs: number;
+  reason: PollReason;
+}
+
+export interface PollState {
+  consecutiveFailures: number;
+  previousUtilization: number | null;
+  lastActivityAt: number;
+}
+
+interface DelayInput {
+  outcome: PollOutcome;
+  state: PollState;
+  settings: PollingSettings;
+  warningThreshold: number;
+  now: number;
+  random: () => number;
+}
+
+const seconds = (value: number): number => Math.max(MIN_INTERVAL_SECONDS, value) * 1000;
+
+/**
+ * Pick the delay before the next poll. `state` must already include this outcome.
+ */
+export const computeNextDelay = ({
+  outcome,
+  state,
+  settings,
+  warningThreshold,
+  now,
+  random,
+}: DelayInput): PollDecision => {
+  const interval = seconds(settings.intervalSeconds);
+
+  if (!outcome.ok) {
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const exponent = Math.max(0, state.consecutiveFailures - 1);
+    const capped = Math.min(MAX_BACKOFF_SECONDS * 1000, interval * 2 ** exponent);
+    const jittered = Math.round(capped / 2 + random() * (capped / 2));
+    const retryAfterMs = (outcome.retryAfterSeconds ?? 0) * 1000;
+    return { delayMs: Math.max(jittered, retryAfterMs, interval), reason: 'backoff' };
+  }
+
+  if (!settings.adaptive) {
+    return { delayMs: interval, reason: 'normal' };
+  }
+
+  const utilization = outcome.utilization;
+  if (utilization !== undefined) {
+    const climbing = state.previousUtilization !== null && utilization > state.previousUtilization;
+    const nearThreshold = utilization >= warningThreshold - NEAR_THRESHOLD_MARGIN;
+    if (climbing || nearThreshold) {
+      return { delayMs: seconds(settings.intervalSeconds / 2), reason: 'fast' };
+    }
+  }
+
+  if (now - state.lastActivityAt >= IDLE_AFTER_MS) {
+    return {
+      delayMs: Math.max(interval, seconds(settings.idleIntervalSeconds)),
+      reason: 'idle',
+    };
+  }
+
+  return { delayMs: interval, reason: 'normal' };
+};
+
+/**
+ * Summarize usage stats for the scheduler: OAuth failures back off, today's tokens track activity
+ */
+export const pollOutcomeFromStats = (stats: UsageStats): PollOutcome => {
+  const apiError = stats.errors?.find((error) => error.source !== 'ccusage');
+  const oauth = stats.oauthUtilization;
+
+  return {
+    ok: !apiError,
+    retryAfterSeconds: apiError?.retryAfter,
+    utilization: oauth?.isAvailable
+      ? Math.max(oauth.fiveHour.utilization, oauth.sevenDay.utilization)
+      : undefined,
+    activityMarker: `${stats.today.date}:${stats.today.totalTokens}`,
+  };
+};
+
+export interface PollingSchedulerOptions {
+  settings: PollingSettings;
+  warningThreshold?: number;
+  initialDelayMs?: number;
+  random?: () => number;
+}
+
+/**
+ * Runs a poll task on an adaptive timer: user-set base interval, exponential backoff with
+ * jitter on failures, faster near thresholds, slower while idle, paused during system sleep or
+ * by the user
+ */
+export class PollingScheduler {
+  private task: () => Promise<PollOutcome>;
+  private settings: PollingSettings;
+  private warningThreshold: number;
+  private initialDelayMs: number;
+  private random: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private suspended = false;
+  private paused = false;
+  private inFlight = false;
+  private lastOutcome: PollOutcome | null = null;
+  private lastActivityMarker: string | undefined;
+  private lastDecision: PollDecision | null = null;
+  private state: PollState = {
+    consecutiveFailures: 0,
+    previousUtilization: null,
+    lastActivityAt: Date.now(),
+  };
+
+  constructor(task: () => Promise<PollOutcome>, options: PollingSchedulerOptions) {
+    this.task = task;
+    this.settings = options.settings;
+    this.warningThreshold = options.warningThreshold ?? 70;
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.random = options.random ?? Math.random;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule({ delayMs: this.initialDelayMs, reason: 'initial' });
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Pause while the system sleeps
+   */
+  suspend(): void {
+    this.suspended = true;
+    this.clearTimer();
+  }
+
+  resume(): void {
+    if (!this.suspended) return;
+    this.suspended = false;
+    this.schedule({ delayMs: RESUME_DELAY_MS, reason: 'resume' });
+  }
+
+  /**
+   * Stop or restart the timer on the user's request. Unlike `suspend()`, waking the system does
+   * not undo it; manual refreshes still poll.
+   */
+  setPaused(paused: boolean): void {
+    if (paused === this.paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.clearTimer();
+    } else {
+      this.schedule({ delayMs: RESUME_DELAY_MS, reason: 'resume' });
+    }
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Poll right away (e.g. manual refresh) and restart the timer from there
+   */
+  async pollNow(): Promise<void> {
+    this.clearTimer();
+    await this.run();
+  }
+
+  updateSettings(settings: PollingSettings): void {
+    this.settings = settings;
+    this.reschedule();
+  }
+
+  setWarningThreshold(threshold: number): void {
+    this.warningThreshold = threshold;
+    this.reschedule();
+  }
+
+  getLastDecision(): PollDecision | null {
+    return this.lastDecision;
+  }
+
+  isSuspended(): boolean {
+    return this.suspended;
+  }
+
+  private async run(): Promise<void> {
+    if (!this.running || this.suspended || this.inFlight) return;
+
+    this.inFlight = true;
+    let outcome: PollOutcome;
+    try {
+      outcome = await this.task();
+    } catch (error) {
+      logger.error('Polling task failed:', error);
+      outcome = { ok: false };
+    } finally {
+      this.inFlight = false;
+    }
+
+    this.record(outcome);
+    const decision = this.decide(outcome);
+
+    // Compare the next poll against this one
+    if (outcome.utilization !== undefined) {
+      this.state.previousUtilization = outcome.utilization;
+    }
+    this.schedule(decision);
+  }
+
+  private record(outcome: PollOutcome): void {
+    const now = Date.now();
+    if (outcome.activityMarker !== undefined) {
+      if (
+        this.lastActivityMarker !== undefined &&
+        outcome.activityMarker !== this.lastActivityMarker
+      ) {
+        this.state.lastActivityAt = now;
+      }
+      this.lastActivityMarker = outcome.activityMarker;
+    }
+
+    this.state.consecutiveFailures = outcome.ok ? 0 : this.state.consecutiveFailures + 1;
+    this.lastOutcome = outcome;
+  }
+
+  private decide(outcome: PollOutcome): PollDecision {
+    return computeNextDelay({
+      outcome,
+      state: this.state,
+      settings: this.settings,
+      warningThreshold: this.warningThreshold,
+      now: Date.now(),
+      random: this.random,
+    });
+  }
+
+  private reschedule(): void {
+    if (!this.running || this.suspended || this.inFlight || !this.lastOutcome) return;
+    this.schedule(this.decide(this.lastOutcome));
+  }
+
+  private schedule(decision: PollDecision): void {
+    if (!this.running || this.suspended || this.paused) return;
+
+    this.clearTimer();
+    this.lastDecision = decision;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, decision.delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import type { DailyUsage, ProjectUsage, TokenBreakdown, UsageRange } from '../types/usage.js';
+import { addModelUsage, addTokens } from './tokenUsage.js';
+
+export interface ModelBreakdown {
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
+/**
+ * Daily entry as returned by ccusage's loadDailyUsageData (`project` is set with groupByProject)
+ */
+export interface DailyDataEntry {
+  date: string;
+  project?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalCost: number;
+  modelBreakdowns: ModelBreakdown[];
+}
+
+/**
+ * Readable name for a ccusage project id, e.g. "-Users-me-code-app" -> "code-app"
+ */
+export const formatProjectName = (project: string): string => {
+  const name = project.replace(/^-+/, '').replace(/^(Users|home)-[^-]+-/, '');
+  return name || project;
+};
+
+const toBreakdown = (counts: TokenBreakdown): TokenBreakdown => ({
+  inputTokens: counts.inputTokens,
+  outputTokens: counts.outputTokens,
+  cacheCreationTokens: counts.cacheCreationTokens,
+  cacheReadTokens: counts.cacheReadTokens,
+});
+
+const sumTokens = (counts: TokenBreakdown): number =>
+  counts.inputTokens + counts.outputTokens + counts.cacheCreationTokens + counts.cacheReadTokens;
+
+export const toDailyUsage = (entry: DailyDataEntry): DailyUsage => ({
+  date: entry.date,
+  totalTokens: sumTokens(entry),
+  totalCost: entry.totalCost,
+  breakdown: toBreakdown(entry),
+  models: entry.modelBreakdowns
+    .filter((mb) => mb.modelName !== '<synthetic>')
+    .reduce(
+      (acc, mb) => {
+        acc[mb.modelName] = {
+          tokens: sumTokens(mb),
+          cost: mb.cost,
+          breakdown: toBreakdown(mb),
+        };
+        return acc;
+      },
+      {} as DailyUsage['models']
+    ),
+});
+
+/**
+ * Combine per-project rows of the same day into one row, keeping the input order
+ */
+export const mergeByDate = (days: DailyUsage[]): DailyUsage[] => {
+  const byDate = new Map<string, DailyUsage>();
+
+  for (const day of days) {
+    const merged = byDate.get(day.date);
+    if (!merged) {
+      byDate.set(day.date, { ...day, models: { ...day.models } });
+      continue;
+    }
+    merged.totalTokens += day.totalTokens;
+    merged.totalCost += day.totalCost;
+    merged.breakdown = addTokens(merged.breakdown, day.breakdown);
+    addModelUsage(merged.models, day.models);
+  }
+
+  return [...byDate.values()];
+};
+
+/**
+ * Group ccusage daily entries by project, most expensive first
+ */
+export const aggregateProjects = (
+  entries: DailyDataEntry[],
+  includeDate: (date: string) => boolean = () => true
+): ProjectUsage[] => {
+  const byProject = new Map<string, ProjectUsage>();
+
+  for (const entry of entries) {
+    if (!includeDate(entry.date)) continue;
+
+    const project = entry.project ?? 'unknown';
+    const day = toDailyUsage(entry);
+    const usage = byProject.get(project) ?? {
+      project,
+      name: formatProjectName(project),
+      totalTokens: 0,
+      totalCost: 0,
+      models: {},
+      days: [],
+    };
+
+    usage.totalTokens += day.totalTokens;
+    usage.totalCost += day.totalCost;
+    addModelUsage(usage.models, day.models);
+    usage.days.push(day);
+    byProject.set(project, usage);
+  }
+
+  for (const usage of byProject.values()) {
+    usage.days = mergeByDate(usage.days).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return [...byProject.values()].sort((a, b) => b.totalCost - a.totalCost);
+};
+
+/**
+ * Totals, token breakdown and per-model usage for the days of an inclusive range
+ */
+export const summarizeUsageRange = (from: string, to: string, days: DailyUsage[]): UsageRange => {
+  const inRange = days
+    .filter((day) => day.date >= from && day.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const models: UsageRange['models'] = {};
+  let breakdown: TokenBreakdown | undefined;
+
+  for (const day of inRange) {
+    addModelUsage(models, day.models);
+    breakdown = addTokens(breakdown, day.breakdown);
+  }
+
+  return {
+    from,
+    to,
+    days: inRange,
+    totalTokens: inRange.reduce((sum, day) => sum + day.totalTokens, 0),
+    totalCost: inRange.reduce((sum, day) => sum + day.totalCost, 0),
+    breakdown,
+    models,
+  };
+};
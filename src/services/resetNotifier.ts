@@ -0,0 +1,170 @@
+import type { LimitKey, OAuthUtilization, ResetNotificationSettings } from '../types/usage.js';
+import { formatCountdown } from './calendar.js';
+import { LIMIT_LABELS } from './thresholdPolicy.js';
+
+const BLOCKED_UTILIZATION = 100;
+
+/**
+ * A limit the API reports a reset time for
+ */
+export interface ResettingLimit {
+  limit: LimitKey;
+  label: string;
+  utilization: number;
+  resetsAt: string; // ISO timestamp
+  formattedTimeRemaining: string;
+}
+
+export const resettingLimits = (oauth: OAuthUtilization | undefined): ResettingLimit[] => {
+  if (!oauth?.isAvailable) return [];
+
+  const limits: ResettingLimit[] = [
+    { limit: 'fiveHour', label: LIMIT_LABELS.fiveHour, ...oauth.fiveHour },
+    { limit: 'sevenDay', label: LIMIT_LABELS.sevenDay, ...oauth.sevenDay },
+  ];
+  if (oauth.sevenDaySonnet?.resetsAt) {
+    limits.push({
+      limit: 'sevenDaySonnet',
+      label: LIMIT_LABELS.sevenDaySonnet,
+      ...oauth.sevenDaySonnet,
+      resetsAt: oauth.sevenDaySonnet.resetsAt,
+    });
+  }
+  if (oauth.sevenDayOpus?.resetsAt) {
+    limits.push({
+      limit: 'sevenDayOpus',
+      label: LIMIT_LABELS.sevenDayOpus,
+      ...oauth.sevenDayOpus,
+      resetsAt: oauth.sevenDayOpus.resetsAt,
+    });
+  }
+  return limits.filter((limit) => !Number.isNaN(Date.parse(limit.resetsAt)));
+};
+
+/**
+ * Limits at 100%, the one that resets last first: Claude Code stays blocked until it resets
+ */
+export const blockedLimits = (oauth: OAuthUtilization | undefined): ResettingLimit[] =>
+  resettingLimits(oauth)
+    .filter((limit) => limit.utilization >= BLOCKED_UTILIZATION)
+    .sort((a, b) => Date.parse(b.resetsAt) - Date.parse(a.resetsAt));
+
+interface ArmedReset {
+  resetsAt: string;
+  timers: NodeJS.Timeout[];
+}
+
+/**
+ * Schedules notifications for the exact moment a limit resets (and optionally a heads-up
+ * before). Call `update()` after every poll; timers are re-armed when `resetsAt` moves.
+ */
+export class ResetNotifier {
+  private notify: (title: string, body: string) => void;
+  private settings: ResetNotificationSettings;
+  private onReset: (limit: LimitKey) => void;
+  private armed = new Map<LimitKey, ArmedReset>();
+  private latest: OAuthUtilization | undefined; // Last poll, for what is still blocked at a reset
+
+  constructor(
+    notify: (title: string, body: string) => void,
+    settings: ResetNotificationSettings,
+    onReset: (limit: LimitKey) => void = () => {}
+  ) {
+    this.notify = notify;
+    this.settings = settings;
+    this.onReset = onReset;
+  }
+
+  updateSettings(settings: ResetNotificationSettings): void {
+    this.settings = settings;
+    // Re-arm everything on the next update()
+    this.stop();
+  }
+
+  update(oauth: OAuthUtilization | undefined, now: number = Date.now()): void {
+    this.latest = oauth;
+    const watched = this.settings.enabled
+      ? resettingLimits(oauth).filter(
+          (limit) => !this.settings.onlyWhenBlocked || limit.utilization >= BLOCKED_UTILIZATION
+        )
+      : [];
+    const watchedKeys = new Set(watched.map((limit) => limit.limit));
+
+    for (const [key, armed] of this.armed) {
+      if (!watchedKeys.has(key)) this.disarm(key, armed);
+    }
+
+    for (const limit of watched) {
+      if (this.armed.get(limit.limit)?.resetsAt === limit.resetsAt) continue;
+      this.arm(limit, now);
+    }
+  }
+
+  getArmedLimits(): LimitKey[] {
+    return [...this.armed.keys()];
+  }
+
+  stop(): void {
+    for (const [key, armed] of this.armed) {
+      this.disarm(key, armed);
+    }
+  }
+
+  private arm(limit: ResettingLimit, now: number): void {
+    const existing = this.armed.get(limit.limit);
+    if (existing) this.disarm(limit.limit, existing);
+
+    const delay = Date.parse(limit.resetsAt) - now;
+    if (delay <= 0) return;
+
+    const timers = [
+      setTimeout(() => {
+        this.armed.delete(limit.limit);
+        this.notifyReset(limit);
+        this.onReset(limit.limit);
+      }, delay),
+    ];
+
+    const headsUp = delay - this.settings.minutesBefore * 60000;
+    if (this.settings.minutesBefore > 0 && headsUp > 0) {
+      timers.push(
+        setTimeout(() => {
+          this.notify(
+            'Claude Meter: Limit Resetting Soon',
+            `Your ${limit.label} limit resets in ${this.settings.minutesBefore} min.`
+          );
+        }, headsUp)
+      );
+    }
+
+    this.armed.set(limit.limit, { resetsAt: limit.resetsAt, timers });
+  }
+
+  /**
+   * "Available again" only when no other limit is still used up
+   */
+  private notifyReset(limit: ResettingLimit): void {
+    const now = Date.now();
+    const blocking = blockedLimits(this.latest).find(
+      (blocked) => blocked.limit !== limit.limit && Date.parse(blocked.resetsAt) > now
+    );
+
+    if (blocking) {
+      this.notify(
+        'Claude Meter: Limit Reset',
+        `Your ${limit.label} limit has reset, but the ${blocking.label} limit is still used up ` +
+          `for ${formatCountdown(blocking.resetsAt, now)}.`
+      );
+      return;
+    }
+    this.notify(
+      'Claude Meter: Limit Available',
+      `Your ${limit.label} limit has reset. Claude Code is available again.`
+    );
+  }
+
+  private disarm(key: LimitKey, armed: ArmedReset): void {
+    for (const timer of armed.timers) clearTimeout(timer);
+    this.armed.delete(key);
+  }
+}
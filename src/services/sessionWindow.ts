@@ -0,0 +1,97 @@
+import type { CurrentSession } from '../types/usage.js';
+
+export const SESSION_DURATION_MS = 5 * 60 * 60 * 1000;
+
+/**
+ * The parts of a ccusage `loadSessionBlockData` block used here
+ */
+export interface SessionBlock {
+  startTime: Date;
+  endTime: Date; // startTime + 5 hours
+  actualEndTime?: Date; // Last entry in the block
+  isActive: boolean;
+  isGap?: boolean;
+  entries: SessionEntry[];
+}
+
+export interface SessionEntry {
+  timestamp: Date;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+  };
+  costUSD: number | null;
+  model: string;
+}
+
+type SessionBounds = Pick<CurrentSession, 'alignedTo'> & { start: number; end: number };
+
+/**
+ * The window the 5-hour limit currently covers. The OAuth reset time is authoritative; without it
+ * the active ccusage block stands in, and with neither the last five hours
+ */
+export const sessionWindowBounds = (
+  blocks: SessionBlock[],
+  fiveHourResetsAt: string | undefined,
+  now: Date
+): SessionBounds => {
+  const resetsAt = fiveHourResetsAt ? Date.parse(fiveHourResetsAt) : Number.NaN;
+  if (!Number.isNaN(resetsAt) && resetsAt > now.getTime()) {
+    return { start: resetsAt - SESSION_DURATION_MS, end: resetsAt, alignedTo: 'oauth' };
+  }
+
+  const active = blocks.find((block) => block.isActive && !block.isGap);
+  if (active) {
+    return { start: active.startTime.getTime(), end: active.endTime.getTime(), alignedTo: 'block' };
+  }
+
+  return { start: now.getTime() - SESSION_DURATION_MS, end: now.getTime(), alignedTo: 'rolling' };
+};
+
+const entryTokens = (entry: SessionEntry): number =>
+  entry.usage.inputTokens +
+  entry.usage.outputTokens +
+  entry.usage.cacheCreationInputTokens +
+  entry.usage.cacheReadInputTokens;
+
+/**
+ * Usage inside the current window, counted per entry so blocks that only partly overlap it
+ * (one that started before the window opened, say) contribute exactly their overlapping part
+ */
+export const currentSession = (
+  blocks: SessionBlock[],
+  fiveHourResetsAt: string | undefined,
+  now: Date = new Date()
+): CurrentSession => {
+  const { start, end, alignedTo } = sessionWindowBounds(blocks, fiveHourResetsAt, now);
+  const session: CurrentSession = {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    alignedTo,
+    totalTokens: 0,
+    totalCost: 0,
+    models: {},
+  };
+  let lastActivity = 0;
+
+  for (const block of blocks) {
+    if (block.isGap || (block.actualEndTime ?? block.endTime).getTime() < start) continue;
+    for (const entry of block.entries) {
+      const time = entry.timestamp.getTime();
+      if (time < start || time >= end || time > now.getTime()) continue;
+
+      const tokens = entryTokens(entry);
+      const cost = entry.costUSD ?? 0;
+      const model = session.models[entry.model] ?? { tokens: 0, cost: 0 };
+      session.models[entry.model] = { tokens: model.tokens + tokens, cost: model.cost + cost };
+      session.totalTokens += tokens;
+      session.totalCost += cost;
+      lastActivity = Math.max(lastActivity, time);
+    }
+  }
+
+  if (lastActivity > 0) session.lastActivity = new Date(lastActivity).toISOString();
+  return session;
+};
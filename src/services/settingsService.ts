@@ -1,14 +1,40 @@
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import type {
+  AccountSettings,
+  AlertSettings,
+  CalendarSettings,
+  DeliverySettings,
+  DigestSettings,
+  LocalApiSettings,
+  NotificationThresholds,
+  OverlaySettings,
+  PollingSettings,
+  ResetNotificationSettings,
+  TrayIconSettings,
+  WindowSettings,
+} from '../types/usage.js';
+import { DEFAULT_SETTINGS } from './defaultSettings.js';
+import { isValidLocalApiPort } from './localApiServer.js';
+import { logger } from './logger.js';
+import { DEFAULT_MENU_BAR_TEMPLATE, templateForDisplayMode } from './menuBarTemplate.js';
 
 export interface AppSettings {
-  menuBarDisplayMode: 'both' | 'percentage' | 'cost';
+  menuBarTemplate: string;
   menuBarCostSource: 'today' | 'sessionWindow';
-  notificationThresholds: {
-    warning: number;
-    critical: number;
-  };
+  notificationThresholds: NotificationThresholds;
+  localApi: LocalApiSettings;
+  polling: PollingSettings;
+  alerts: AlertSettings;
+  resetNotifications: ResetNotificationSettings;
+  delivery: DeliverySettings;
+  digest: DigestSettings;
+  calendar: CalendarSettings;
+  accounts: AccountSettings;
+  trayIcon: TrayIconSettings;
+  window: WindowSettings;
+  overlay: OverlaySettings;
 }
 
 export class SettingsService {
@@ -22,12 +48,8 @@ export class SettingsService {
     this.settingsPath = path.join(settingsDir, 'settings.json');
 
     this.defaultSettings = {
-      menuBarDisplayMode: 'both',
-      menuBarCostSource: 'today',
-      notificationThresholds: {
-        warning: 70,
-        critical: 90,
-      },
+      menuBarTemplate: DEFAULT_MENU_BAR_TEMPLATE,
+      ...DEFAULT_SETTINGS,
     };
 
     // Ensure settings directory exists
@@ -52,20 +74,17 @@ export class SettingsService {
         // Migrate old settings to new format
         const settings: Partial<AppSettings> = {};
 
-        // Migrate menuBarDisplayMode: 'alternate' is now 'both'
-        if (rawSettings.menuBarDisplayMode === 'alternate' || !rawSettings.menuBarDisplayMode) {
-          settings.menuBarDisplayMode = 'both';
-        } else {
-          settings.menuBarDisplayMode = rawSettings.menuBarDisplayMode;
-        }
+        // Migrate menuBarDisplayMode ('both', 'percentage', 'cost', or the older 'alternate')
+        settings.menuBarTemplate =
+          typeof rawSettings.menuBarTemplate === 'string'
+            ? rawSettings.menuBarTemplate
+            : templateForDisplayMode(rawSettings.menuBarDisplayMode);
 
         // Copy other valid settings
         if (rawSettings.menuBarCostSource) {
           settings.menuBarCostSource = rawSettings.menuBarCostSource;
         }
-        if (rawSettings.notificationThresholds) {
-          settings.notificationThresholds = rawSettings.notificationThresholds;
-        }
+        Object.assign(settings, this.mergeSections(rawSettings));
 
         // Merge with defaults to ensure all required fields are present
         return {
@@ -74,13 +93,70 @@ export class SettingsService {
         };
       }
     } catch (error) {
-      console.error('Error loading settings:', error);
+      logger.error('Error loading settings:', error);
     }
 
     // Return defaults if file doesn't exist or error occurred
     return this.defaultSettings;
   }
 
+  /**
+   * Nested settings without arrays, merged field by field over the defaults
+   */
+  private static readonly plainSections = [
+    'notificationThresholds',
+    'localApi',
+    'polling',
+    'resetNotifications',
+    'digest',
+    'calendar',
+    'trayIcon',
+    'window',
+    'overlay',
+  ] as const;
+
+  /**
+   * Fill in fields added to nested settings since the file was written. `rawSettings` is
+   * unvalidated JSON from disk.
+   */
+  private mergeSections(rawSettings: Partial<AppSettings>): Partial<AppSettings> {
+    const settings: Partial<AppSettings> = {};
+
+    for (const key of SettingsService.plainSections) {
+      if (rawSettings[key]) {
+        Object.assign(settings, {
+          [key]: { ...this.defaultSettings[key], ...rawSettings[key] },
+        });
+      }
+    }
+    if (settings.localApi && !isValidLocalApiPort(settings.localApi.port)) {
+      settings.localApi.port = this.defaultSettings.localApi.port;
+    }
+    if (rawSettings.alerts) {
+      settings.alerts = {
+        ...this.defaultSettings.alerts,
+        ...rawSettings.alerts,
+        rules: Array.isArray(rawSettings.alerts.rules) ? rawSettings.alerts.rules : [],
+      };
+    }
+    if (rawSettings.delivery) {
+      settings.delivery = {
+        ...this.defaultSettings.delivery,
+        ...rawSettings.delivery,
+        channels: Array.isArray(rawSettings.delivery.channels) ? rawSettings.delivery.channels : [],
+      };
+    }
+    if (rawSettings.accounts) {
+      settings.accounts = {
+        ...this.defaultSettings.accounts,
+        ...rawSettings.accounts,
+        accounts: Array.isArray(rawSettings.accounts.accounts) ? rawSettings.accounts.accounts : [],
+      };
+    }
+
+    return settings;
+  }
+
   async saveSettings(settings: Partial<AppSettings>): Promise<void> {
     try {
       // Load existing settings first
@@ -95,7 +171,7 @@ export class SettingsService {
       // Write to file
       fs.writeFileSync(this.settingsPath, JSON.stringify(updatedSettings, null, 2), 'utf8');
     } catch (error) {
-      console.error('Error saving settings:', error);
+      logger.error('Error saving settings:', error);
       throw error;
     }
   }
@@ -0,0 +1,104 @@
+import type {
+  LimitKey,
+  LimitStatus,
+  NotificationThresholds,
+  OAuthUtilization,
+  ThresholdLevels,
+  UsageLevel,
+} from '../types/usage.js';
+
+export const DEFAULT_THRESHOLDS: ThresholdLevels = { warning: 70, critical: 90 };
+
+export const LIMIT_KEYS: LimitKey[] = [
+  'fiveHour',
+  'sevenDay',
+  'sevenDaySonnet',
+  'sevenDayOpus',
+  'extraUsage',
+];
+
+export const LIMIT_LABELS: Record<LimitKey, string> = {
+  fiveHour: '5-hour',
+  sevenDay: 'Weekly',
+  sevenDaySonnet: 'Sonnet weekly',
+  sevenDayOpus: 'Opus weekly',
+  extraUsage: 'Extra usage credits',
+};
+
+const LEVEL_RANK: Record<UsageLevel, number> = { safe: 0, warning: 1, critical: 2 };
+
+/**
+ * Thresholds for one limit: its override if configured, otherwise the global ones
+ */
+export const thresholdsFor = (
+  thresholds: NotificationThresholds | undefined,
+  limit: LimitKey
+): ThresholdLevels => {
+  const base = thresholds
+    ? { warning: thresholds.warning, critical: thresholds.critical }
+    : DEFAULT_THRESHOLDS;
+  return { ...base, ...thresholds?.perLimit?.[limit] };
+};
+
+export const levelFor = (utilization: number, levels: ThresholdLevels): UsageLevel => {
+  if (utilization >= levels.critical) return 'critical';
+  if (utilization >= levels.warning) return 'warning';
+  return 'safe';
+};
+
+export const isMoreSevere = (level: UsageLevel, than: UsageLevel): boolean =>
+  LEVEL_RANK[level] > LEVEL_RANK[than];
+
+export const worstLevel = (levels: UsageLevel[]): UsageLevel =>
+  levels.reduce<UsageLevel>((worst, level) => (isMoreSevere(level, worst) ? level : worst), 'safe');
+
+/**
+ * Utilization (0-100) of each limit the API reported; extra usage only counts when enabled
+ */
+export const limitUtilizations = (
+  oauth: OAuthUtilization | undefined
+): Partial<Record<LimitKey, number>> => {
+  if (!oauth?.isAvailable) return {};
+
+  const values: Partial<Record<LimitKey, number>> = {
+    fiveHour: oauth.fiveHour.utilization,
+    sevenDay: oauth.sevenDay.utilization,
+  };
+  if (oauth.sevenDaySonnet) values.sevenDaySonnet = oauth.sevenDaySonnet.utilization;
+  if (oauth.sevenDayOpus) values.sevenDayOpus = oauth.sevenDayOpus.utilization;
+  if (oauth.extraUsage?.isEnabled && oauth.extraUsage.utilization !== null) {
+    values.extraUsage = oauth.extraUsage.utilization;
+  }
+  return values;
+};
+
+/**
+ * Classify every reported limit against its thresholds, in LIMIT_KEYS order
+ */
+export const evaluateLimits = (
+  oauth: OAuthUtilization | undefined,
+  thresholds: NotificationThresholds | undefined
+): LimitStatus[] => {
+  const values = limitUtilizations(oauth);
+
+  return LIMIT_KEYS.flatMap((limit) => {
+    const utilization = values[limit];
+    if (utilization === undefined) return [];
+    return [
+      {
+        limit,
+        label: LIMIT_LABELS[limit],
+        utilization,
+        level: levelFor(utilization, thresholdsFor(thresholds, limit)),
+      },
+    ];
+  });
+};
+
+/**
+ * Overall status: the worst level across all limits
+ */
+export const overallLevel = (
+  oauth: OAuthUtilization | undefined,
+  thresholds: NotificationThresholds | undefined
+): UsageLevel => worstLevel(evaluateLimits(oauth, thresholds).map((status) => status.level));
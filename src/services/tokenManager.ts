@@ -0,0 +1,256 @@
+import type { CredentialSource, UsageError } from '../types/usage.js';
+import type { ClaudeCredentials } from './claudeOAuthService.js';
+import { CredentialChain, type CredentialProvider } from './credentialProviders.js';
+import { logger } from './logger.js';
+import { createUsageError } from './usageErrors.js';
+
+const DEFAULT_TOKEN_URL = 'https://console.anthropic.com/v1/oauth/token';
+// Public OAuth client ID used by Claude Code
+const CLAUDE_CODE_CLIENT_ID = '9d1c250a-e61b-44d9-88ed-5944d1962f5e';
+
+export type AuthState = 'valid' | 'expired' | 'missing';
+
+export interface TokenManagerOptions {
+  chain?: CredentialChain;
+  tokenUrl?: string;
+  clientId?: string;
+  refreshMarginMs?: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number; // seconds
+}
+
+/**
+ * Parse `expiresAt`, which Claude Code stores as epoch milliseconds (older builds used ISO strings)
+ */
+const parseExpiresAt = (expiresAt: number | string | undefined): number | null => {
+  if (expiresAt === undefined || expiresAt === null || expiresAt === '') return null;
+  const value = typeof expiresAt === 'number' ? expiresAt : Number(expiresAt);
+  if (!Number.isNaN(value)) return value;
+  const parsed = Date.parse(String(expiresAt));
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Owns the OAuth access token lifecycle: discovery, expiry checks and refresh
+ */
+export class TokenManager {
+  private chain: CredentialChain;
+  private tokenUrl: string;
+  private clientId: string;
+  private refreshMarginMs: number;
+  private credentials: ClaudeCredentials | null = null;
+  private provider: CredentialProvider | null = null;
+  private state: AuthState = 'missing';
+  private refreshInFlight: Promise<string | null> | null = null;
+
+  constructor(options: TokenManagerOptions = {}) {
+    this.chain = options.chain ?? new CredentialChain();
+    this.tokenUrl = options.tokenUrl ?? DEFAULT_TOKEN_URL;
+    this.clientId = options.clientId ?? CLAUDE_CODE_CLIENT_ID;
+    this.refreshMarginMs = options.refreshMarginMs ?? 5 * 60 * 1000; // 5 minutes
+  }
+
+  /**
+   * Get a usable access token, refreshing it first when it is about to expire
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (!this.credentials || this.state === 'expired' || this.isExpiring(this.credentials)) {
+      // Re-read first: Claude Code may already have refreshed the stored token
+      await this.loadCredentials();
+    }
+
+    if (!this.credentials) {
+      this.state = 'missing';
+      return null;
+    }
+
+    if (this.isExpiring(this.credentials)) {
+      return this.refresh();
+    }
+
+    this.state = 'valid';
+    return this.credentials.claudeAiOauth?.accessToken ?? null;
+  }
+
+  /**
+   * Refresh after the API rejected a token (e.g. HTTP 401)
+   */
+  async forceRefresh(rejectedToken: string): Promise<string | null> {
+    await this.loadCredentials();
+
+    // The stored token changed since we read it, try that one first
+    const current = this.credentials?.claudeAiOauth?.accessToken;
+    if (current && current !== rejectedToken && !this.isExpiring(this.credentials ?? {})) {
+      return current;
+    }
+
+    if (!this.canStoreRefresh()) {
+      this.state = 'expired';
+      return null;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Record that the API still rejects the token after a refresh attempt
+   */
+  markExpired(): void {
+    this.state = 'expired';
+  }
+
+  getState(): AuthState {
+    return this.state;
+  }
+
+  /**
+   * Why no token is available, if it isn't
+   */
+  getError(): UsageError | null {
+    if (this.state === 'expired') {
+      return createUsageError(
+        'credentials_expired',
+        'credentials',
+        'OAuth token expired and could not be refreshed'
+      );
+    }
+    if (this.state === 'missing') {
+      return (
+        this.chain.getLastError() ??
+        createUsageError(
+          'credentials_missing',
+          'credentials',
+          'No Claude Code OAuth credentials found'
+        )
+      );
+    }
+    return null;
+  }
+
+  getSource(): CredentialSource | null {
+    return this.provider?.source ?? null;
+  }
+
+  getLocation(): string | null {
+    return this.provider?.location ?? null;
+  }
+
+  private async loadCredentials(): Promise<void> {
+    const resolved = await this.chain.resolve();
+
+    // Keep a token we refreshed ourselves if storing it in the source failed
+    const loadedExpiry = parseExpiresAt(resolved?.credentials.claudeAiOauth?.expiresAt) ?? 0;
+    const currentExpiry = parseExpiresAt(this.credentials?.claudeAiOauth?.expiresAt) ?? 0;
+    if (resolved && resolved.source === this.provider?.source && currentExpiry > loadedExpiry) {
+      return;
+    }
+
+    this.credentials = resolved?.credentials ?? null;
+    this.provider = resolved?.provider ?? null;
+  }
+
+  /**
+   * Refresh tokens rotate: refreshing credentials the source can't store would spend the token
+   * Claude Code still holds and log it out. Those are left for Claude Code to refresh.
+   */
+  private canStoreRefresh(): boolean {
+    return Boolean(this.provider?.write);
+  }
+
+  private isExpiring(credentials: ClaudeCredentials): boolean {
+    const expiresAt = parseExpiresAt(credentials.claudeAiOauth?.expiresAt);
+    return expiresAt !== null && expiresAt - Date.now() <= this.refreshMarginMs;
+  }
+
+  private refresh(): Promise<string | null> {
+    // Share one request between concurrent callers
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.requestRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  private async requestRefresh(): Promise<string | null> {
+    const oauth = this.credentials?.claudeAiOauth;
+    if (!oauth?.refreshToken || !this.canStoreRefresh()) {
+      return this.fallbackToken();
+    }
+
+    try {
+      const response = await fetch(this.tokenUrl, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          grant_type: 'refresh_token',
+          refresh_token: oauth.refreshToken,
+          client_id: this.clientId,
+        }),
+      });
+
+      if (!response.ok) {
+        logger.error(`OAuth token refresh returned ${response.status}: ${response.statusText}`);
+        return this.fallbackToken();
+      }
+
+      const data: TokenResponse = await response.json();
+      if (!data.access_token) {
+        logger.error('Invalid token refresh response');
+        return this.fallbackToken();
+      }
+
+      this.credentials = {
+        ...this.credentials,
+        claudeAiOauth: {
+          ...oauth,
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token ?? oauth.refreshToken,
+          expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+        },
+      };
+      this.state = 'valid';
+
+      // Refresh tokens rotate, so write them back where the source allows it
+      await this.persistCredentials(this.credentials);
+
+      return data.access_token;
+    } catch (error) {
+      logger.error('Failed to refresh OAuth token:', error);
+      return this.fallbackToken();
+    }
+  }
+
+  /**
+   * Keep using the current token until it has actually expired
+   */
+  private fallbackToken(): string | null {
+    const oauth = this.credentials?.claudeAiOauth;
+    const expiresAt = parseExpiresAt(oauth?.expiresAt);
+
+    if (oauth?.accessToken && (expiresAt === null || expiresAt > Date.now())) {
+      this.state = 'valid';
+      return oauth.accessToken;
+    }
+
+    this.state = 'expired';
+    return null;
+  }
+
+  private async persistCredentials(credentials: ClaudeCredentials): Promise<void> {
+    if (!this.provider?.write) return;
+
+    try {
+      await this.provider.write(credentials);
+    } catch (error) {
+      logger.error(`Failed to store refreshed credentials in "${this.provider.source}":`, error);
+    }
+  }
+}
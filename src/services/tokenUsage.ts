@@ -0,0 +1,108 @@
+import type { DailyUsage, TokenBreakdown } from '../types/usage.js';
+
+// No relative imports: the renderer bundles this module too
+
+/**
+ * Anthropic list prices relative to base input tokens. They hold for every current model, so a
+ * model's input price can be recovered from its total cost without a price table
+ */
+const PRICE_WEIGHTS: TokenBreakdown = {
+  inputTokens: 1,
+  outputTokens: 5,
+  cacheCreationTokens: 1.25, // 5-minute cache writes
+  cacheReadTokens: 0.1,
+};
+
+export const addTokens = (
+  a: TokenBreakdown | undefined,
+  b: TokenBreakdown | undefined
+): TokenBreakdown | undefined => {
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+  };
+};
+
+/**
+ * Add `source`'s per-model usage into `target`
+ */
+export const addModelUsage = (target: DailyUsage['models'], source: DailyUsage['models']): void => {
+  for (const [model, usage] of Object.entries(source)) {
+    const existing = target[model];
+    target[model] = existing
+      ? {
+          tokens: existing.tokens + usage.tokens,
+          cost: existing.cost + usage.cost,
+          breakdown: addTokens(existing.breakdown, usage.breakdown),
+        }
+      : { ...usage };
+  }
+};
+
+export interface CacheEfficiency {
+  model: string; // 'All models' for the total row
+  tokens: number;
+  cost: number;
+  breakdown: TokenBreakdown;
+  hitRate: number; // Share of prompt tokens (input + cache writes + cache reads) read from cache, 0-1
+  estimatedSavings: number; // USD saved by cache reads compared with paying the input price
+}
+
+const efficiency = (
+  model: string,
+  usage: { tokens: number; cost: number },
+  breakdown: TokenBreakdown
+): CacheEfficiency => {
+  const promptTokens =
+    breakdown.inputTokens + breakdown.cacheCreationTokens + breakdown.cacheReadTokens;
+  const weightedTokens = (Object.keys(PRICE_WEIGHTS) as (keyof TokenBreakdown)[]).reduce(
+    (sum, key) => sum + breakdown[key] * PRICE_WEIGHTS[key],
+    0
+  );
+  const inputPrice = weightedTokens > 0 ? usage.cost / weightedTokens : 0;
+
+  return {
+    model,
+    tokens: usage.tokens,
+    cost: usage.cost,
+    breakdown,
+    hitRate: promptTokens > 0 ? breakdown.cacheReadTokens / promptTokens : 0,
+    estimatedSavings:
+      breakdown.cacheReadTokens *
+      (PRICE_WEIGHTS.inputTokens - PRICE_WEIGHTS.cacheReadTokens) *
+      inputPrice,
+  };
+};
+
+/**
+ * Per-model cache efficiency, most expensive first, plus a total across models. Models without a
+ * token breakdown (data from before it was recorded) are left out.
+ */
+export const cacheEfficiency = (
+  models: DailyUsage['models']
+): { models: CacheEfficiency[]; total: CacheEfficiency } => {
+  const rows: CacheEfficiency[] = [];
+  for (const [model, usage] of Object.entries(models)) {
+    if (usage.breakdown) rows.push(efficiency(model, usage, usage.breakdown));
+  }
+  rows.sort((a, b) => b.cost - a.cost);
+
+  const empty = { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+  const total = {
+    ...efficiency(
+      'All models',
+      {
+        tokens: rows.reduce((sum, row) => sum + row.tokens, 0),
+        cost: rows.reduce((sum, row) => sum + row.cost, 0),
+      },
+      rows.reduce<TokenBreakdown>((sum, row) => addTokens(sum, row.breakdown) ?? sum, empty)
+    ),
+    // Each model has its own price; summing keeps them apart
+    estimatedSavings: rows.reduce((sum, row) => sum + row.estimatedSavings, 0),
+  };
+
+  return { models: rows, total };
+};
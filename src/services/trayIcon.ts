@@ -0,0 +1,212 @@
+import { deflateSync } from 'node:zlib';
+import type { LimitKey, MenuBarData, UsageLevel } from '../types/usage.js';
+
+export const TRAY_ICON_SIZE = 16; // Points; rendered at 1x and 2x
+
+/**
+ * How the icon is drawn: `template` is black with alpha only (macOS tints it for the menu bar),
+ * `light`/`dark` are colored for a light or dark tray background
+ */
+export type TrayIconAppearance = 'template' | 'light' | 'dark';
+
+export interface GaugeRing {
+  utilization: number; // 0-100
+  level: UsageLevel;
+}
+
+export interface TrayGauge {
+  fiveHour: GaugeRing | null; // null when utilization is unavailable
+  sevenDay?: GaugeRing | null; // Inner ring, when shown
+}
+
+type Rgba = [number, number, number, number];
+
+const LEVEL_COLORS: Record<UsageLevel, Rgba> = {
+  safe: [34, 197, 94, 255],
+  warning: [245, 158, 11, 255],
+  critical: [239, 68, 68, 255],
+};
+
+const TRACK_COLORS: Record<TrayIconAppearance, Rgba> = {
+  template: [0, 0, 0, 77],
+  light: [0, 0, 0, 64],
+  dark: [255, 255, 255, 77],
+};
+
+const SUBSAMPLES = 4; // Per axis, for anti-aliasing
+
+/**
+ * The busiest account's entry for a limit (the aggregate menu bar lists every account's)
+ */
+const ringFor = (data: MenuBarData, limit: LimitKey): GaugeRing | null => {
+  const matching = (data.limits ?? []).filter((status) => status.limit === limit);
+  if (!data.oauthUtilization?.isAvailable || matching.length === 0) return null;
+  const busiest = matching.reduce((a, b) => (b.utilization > a.utilization ? b : a));
+  return { utilization: busiest.utilization, level: busiest.level };
+};
+
+export const gaugeFromMenuBar = (data: MenuBarData, showWeekly: boolean): TrayGauge => ({
+  fiveHour: ringFor(data, 'fiveHour'),
+  sevenDay: showWeekly ? ringFor(data, 'sevenDay') : undefined,
+});
+
+/**
+ * Template images can't carry the status color, so macOS only uses one while every limit is safe
+ */
+export const prefersTemplate = (gauge: TrayGauge): boolean =>
+  [gauge.fiveHour, gauge.sevenDay].every((ring) => !ring || ring.level === 'safe');
+
+interface Band {
+  inner: number;
+  outer: number;
+  ring: GaugeRing | null;
+}
+
+const colorAt = (
+  bands: Band[],
+  x: number,
+  y: number,
+  center: number,
+  appearance: TrayIconAppearance
+): Rgba | null => {
+  const dx = x - center;
+  const dy = y - center;
+  const radius = Math.hypot(dx, dy);
+  const band = bands.find((b) => radius >= b.inner && radius <= b.outer);
+  if (!band) return null;
+
+  // Clockwise from 12 o'clock
+  const angle = (Math.atan2(dx, -dy) + 2 * Math.PI) % (2 * Math.PI);
+  const filled = band.ring && angle < (Math.min(band.ring.utilization, 100) / 100) * 2 * Math.PI;
+  if (!filled || !band.ring) return TRACK_COLORS[appearance];
+  return appearance === 'template' ? [0, 0, 0, 255] : LEVEL_COLORS[band.ring.level];
+};
+
+/**
+ * Average the subsamples of one pixel, blending in premultiplied space
+ */
+const pixelColor = (
+  bands: Band[],
+  px: number,
+  py: number,
+  center: number,
+  appearance: TrayIconAppearance
+): Rgba => {
+  const sum: Rgba = [0, 0, 0, 0];
+  for (let sy = 0; sy < SUBSAMPLES; sy++) {
+    for (let sx = 0; sx < SUBSAMPLES; sx++) {
+      const x = px + (sx + 0.5) / SUBSAMPLES;
+      const y = py + (sy + 0.5) / SUBSAMPLES;
+      const color = colorAt(bands, x, y, center, appearance);
+      if (!color) continue;
+      const alpha = color[3] / 255;
+      sum[0] += color[0] * alpha;
+      sum[1] += color[1] * alpha;
+      sum[2] += color[2] * alpha;
+      sum[3] += alpha;
+    }
+  }
+
+  if (sum[3] === 0) return [0, 0, 0, 0];
+  return [
+    Math.round(sum[0] / sum[3]),
+    Math.round(sum[1] / sum[3]),
+    Math.round(sum[2] / sum[3]),
+    Math.round((sum[3] / (SUBSAMPLES * SUBSAMPLES)) * 255),
+  ];
+};
+
+/**
+ * Rasterize the gauge to straight (not premultiplied) RGBA: the 5-hour limit as the outer ring,
+ * the weekly limit as an optional inner ring
+ */
+export const renderGauge = (
+  gauge: TrayGauge,
+  appearance: TrayIconAppearance,
+  scale = 1
+): { width: number; height: number; pixels: Uint8Array } => {
+  const size = TRAY_ICON_SIZE * scale;
+  const center = size / 2;
+  const outer = center - 0.5 * scale;
+  const bands: Band[] =
+    gauge.sevenDay === undefined
+      ? [{ inner: outer - 3 * scale, outer, ring: gauge.fiveHour }]
+      : [
+          { inner: outer - 2.5 * scale, outer, ring: gauge.fiveHour },
+          { inner: outer - 5.5 * scale, outer: outer - 3.5 * scale, ring: gauge.sevenDay },
+        ];
+
+  const pixels = new Uint8Array(size * size * 4);
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      pixels.set(pixelColor(bands, px, py, center, appearance), (py * size + px) * 4);
+    }
+  }
+
+  return { width: size, height: size, pixels };
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Encode 8-bit RGBA pixels as a PNG
+ */
+export const encodePng = (width: number, height: number, pixels: Uint8Array): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+
+  // Every scanline uses filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    Buffer.from(pixels.buffer, pixels.byteOffset + y * stride, stride).copy(
+      raw,
+      y * (stride + 1) + 1
+    );
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+/**
+ * The gauge as PNGs for 1x and 2x (HiDPI) displays
+ */
+export const renderTrayIcon = (
+  gauge: TrayGauge,
+  appearance: TrayIconAppearance
+): { scaleFactor: number; png: Buffer }[] =>
+  [1, 2].map((scaleFactor) => {
+    const { width, height, pixels } = renderGauge(gauge, appearance, scaleFactor);
+    return { scaleFactor, png: encodePng(width, height, pixels) };
+  });
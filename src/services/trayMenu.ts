@@ -0,0 +1,204 @@
+import type { NotificationThresholds, UsageStats } from '../types/usage.js';
+import { formatCountdown } from './calendar.js';
+import { DISPLAY_MODE_TEMPLATES } from './menuBarTemplate.js';
+import { resettingLimits } from './resetNotifier.js';
+import type { AppSettings } from './settingsService.js';
+import { evaluateLimits } from './thresholdPolicy.js';
+
+/**
+ * What a menu item does when clicked; `main.ts` binds these to Electron
+ */
+export type TrayMenuAction =
+  | 'refresh'
+  | 'copyStatus'
+  | 'exportToday'
+  | 'openDataFolder'
+  | 'togglePolling'
+  | 'toggleDashboard'
+  | 'openWindow'
+  | 'quit';
+
+export type TrayMenuSettings = Partial<Pick<AppSettings, 'menuBarTemplate' | 'menuBarCostSource'>>;
+
+/**
+ * Electron-free description of the tray context menu. Items with an `id` are the ones that change
+ * between polls, so an open menu can be updated in place.
+ */
+export type TrayMenuItem =
+  | { type: 'separator' }
+  | { type: 'info'; id: string; label: string }
+  | { type: 'action'; label: string; action: TrayMenuAction }
+  | { type: 'checkbox'; id: string; label: string; checked: boolean; action: TrayMenuAction }
+  | {
+      type: 'radio';
+      id: string;
+      label: string;
+      checked: boolean;
+      settings: TrayMenuSettings | null; // null for the current value when no choice matches it
+    }
+  | { type: 'submenu'; label: string; items: TrayMenuItem[] };
+
+export interface TrayMenuState {
+  stats: UsageStats | null; // Active account's last poll
+  thresholds: NotificationThresholds;
+  account?: string; // Shown when there is more than one account
+  menuBarTemplate: string;
+  menuBarCostSource: AppSettings['menuBarCostSource'];
+  pollingPaused: boolean;
+  dashboard: boolean; // Window mode is the detached dashboard
+  now: number;
+}
+
+const TITLE_PRESETS: { label: string; template: string }[] = [
+  { label: 'Percentage and Cost', template: DISPLAY_MODE_TEMPLATES.both },
+  { label: 'Percentage', template: DISPLAY_MODE_TEMPLATES.percentage },
+  { label: 'Cost', template: DISPLAY_MODE_TEMPLATES.cost },
+];
+
+const COST_SOURCES: { label: string; source: AppSettings['menuBarCostSource'] }[] = [
+  { label: "Today's Total", source: 'today' },
+  { label: '5-Hour Session Window', source: 'sessionWindow' },
+];
+
+const formatCost = (cost: number): string => `$${cost.toFixed(2)}`;
+
+/**
+ * One row per reported limit, with the time until it resets or the extra usage credits spent
+ */
+const limitRows = (state: TrayMenuState): { id: string; label: string }[] => {
+  const oauth = state.stats?.oauthUtilization;
+  const limits = evaluateLimits(oauth, state.thresholds);
+  if (limits.length === 0) return [{ id: 'limits', label: 'Limits unavailable' }];
+
+  const resets = new Map(resettingLimits(oauth).map((limit) => [limit.limit, limit.resetsAt]));
+  const extraUsage = oauth?.extraUsage;
+
+  return limits.map(({ limit, label, utilization }) => {
+    let detail = '';
+    const resetsAt = resets.get(limit);
+    if (resetsAt) {
+      detail = ` · resets in ${formatCountdown(resetsAt, state.now)}`;
+    } else if (limit === 'extraUsage' && extraUsage && extraUsage.usedCredits !== null) {
+      const of = extraUsage.monthlyLimit !== null ? ` of ${extraUsage.monthlyLimit}` : '';
+      detail = ` · ${extraUsage.usedCredits}${of} credits`;
+    }
+    return { id: `limit:${limit}`, label: `${label}: ${Math.round(utilization)}%${detail}` };
+  });
+};
+
+/**
+ * Today's total followed by each model, most expensive first
+ */
+const costRows = (state: TrayMenuState): { id: string; label: string }[] => {
+  const today = state.stats?.today;
+  if (!today) return [{ id: 'today', label: 'Today: --' }];
+
+  const models = Object.entries(today.models)
+    .sort(([, a], [, b]) => b.cost - a.cost)
+    .map(([model, usage]) => ({
+      id: `model:${model}`,
+      label: `    ${model}: ${formatCost(usage.cost)}`,
+    }));
+  return [{ id: 'today', label: `Today: ${formatCost(today.totalCost)}` }, ...models];
+};
+
+const accountRows = (state: TrayMenuState): { id: string; label: string }[] =>
+  state.account ? [{ id: 'account', label: state.account }] : [];
+
+/**
+ * The menu's status rows as plain text, for "Copy Status"
+ */
+export const formatStatusText = (state: TrayMenuState): string =>
+  [...accountRows(state), ...limitRows(state), ...costRows(state)]
+    .map((row) => row.label.trim())
+    .join('\n');
+
+export const buildTrayMenu = (state: TrayMenuState): TrayMenuItem[] => {
+  const custom = !TITLE_PRESETS.some((preset) => preset.template === state.menuBarTemplate);
+  const info = (rows: { id: string; label: string }[]): TrayMenuItem[] =>
+    rows.map((row) => ({ type: 'info', ...row }));
+
+  return [
+    { type: 'action', label: 'Refresh', action: 'refresh' },
+    { type: 'separator' },
+    ...info(accountRows(state)),
+    ...info(limitRows(state)),
+    { type: 'separator' },
+    ...info(costRows(state)),
+    { type: 'separator' },
+    {
+      type: 'submenu',
+      label: 'Menu Bar Title',
+      items: [
+        ...TITLE_PRESETS.map(
+          ({ label, template }, index): TrayMenuItem => ({
+            type: 'radio',
+            id: `title:${index}`,
+            label,
+            checked: state.menuBarTemplate === template,
+            settings: { menuBarTemplate: template },
+          })
+        ),
+        // Picking a preset replaces a custom template, which can only be restored in Settings
+        ...(custom
+          ? [
+              {
+                type: 'radio' as const,
+                id: 'title:custom',
+                label: `Custom: ${state.menuBarTemplate}`,
+                checked: true,
+                settings: null,
+              },
+            ]
+          : []),
+      ],
+    },
+    {
+      type: 'submenu',
+      label: 'Cost Source',
+      items: COST_SOURCES.map(({ label, source }) => ({
+        type: 'radio',
+        id: `cost:${source}`,
+        label,
+        checked: state.menuBarCostSource === source,
+        settings: { menuBarCostSource: source },
+      })),
+    },
+    {
+      type: 'checkbox',
+      id: 'pause',
+      label: 'Pause Polling',
+      checked: state.pollingPaused,
+      action: 'togglePolling',
+    },
+    {
+      type: 'checkbox',
+      id: 'dashboard',
+      label: 'Dashboard Window',
+      checked: state.dashboard,
+      action: 'toggleDashboard',
+    },
+    { type: 'separator' },
+    { type: 'action', label: 'Copy Status', action: 'copyStatus' },
+    { type: 'action', label: 'Export Today…', action: 'exportToday' },
+    { type: 'action', label: 'Open Data Folder', action: 'openDataFolder' },
+    { type: 'separator' },
+    { type: 'action', label: 'Open Claude Meter', action: 'openWindow' },
+    { type: 'action', label: 'Quit', action: 'quit' },
+  ];
+};
+
+/**
+ * Labels and checkmarks of every item with an `id`, submenus included
+ */
+export const liveMenuItems = (
+  items: TrayMenuItem[]
+): { id: string; label: string; checked?: boolean }[] =>
+  items.flatMap((item) => {
+    if (item.type === 'submenu') return liveMenuItems(item.items);
+    if (item.type === 'info') return [{ id: item.id, label: item.label }];
+    if (item.type === 'checkbox' || item.type === 'radio') {
+      return [{ id: item.id, label: item.label, checked: item.checked }];
+    }
+    return [];
+  });
@@ -0,0 +1,95 @@
+import type { UsageError, UsageErrorKind, UsageErrorSource } from '../types/usage.js';
+
+/**
+ * Error carrying a structured UsageError, thrown where a FetchResult can't be returned directly
+ */
+export class UsageFetchError extends Error {
+  readonly usageError: UsageError;
+
+  constructor(usageError: UsageError) {
+    super(usageError.message);
+    this.name = 'UsageFetchError';
+    this.usageError = usageError;
+  }
+}
+
+export const createUsageError = (
+  kind: UsageErrorKind,
+  source: UsageErrorSource,
+  message: string,
+  extra: Pick<UsageError, 'retryAfter' | 'status'> = {}
+): UsageError => ({
+  kind,
+  source,
+  message,
+  timestamp: new Date().toISOString(),
+  ...extra,
+});
+
+/**
+ * Map a non-2xx HTTP response to an error kind
+ */
+export const kindForStatus = (status: number): UsageErrorKind => {
+  if (status === 401 || status === 403) return 'credentials_expired';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'api_error';
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into seconds
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, Math.round(seconds));
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.round((date - Date.now()) / 1000));
+};
+
+/**
+ * One error per source and kind, keeping the first: both ccusage loaders fail the same way
+ * when local data is missing
+ */
+export const uniqueErrors = (errors: UsageError[]): UsageError[] => {
+  const seen = new Set<string>();
+  return errors.filter((error) => {
+    const key = `${error.source}:${error.kind}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Short human-readable description for the UI and tray tooltip
+ */
+export const describeUsageError = (error: UsageError): string => {
+  switch (error.kind) {
+    case 'credentials_missing':
+      return 'No Claude Code credentials found';
+    case 'credentials_expired':
+      return 'Claude Code credentials expired';
+    case 'keychain_locked':
+      return 'Keychain is locked or access was denied';
+    case 'network':
+      return 'Could not reach the Claude API';
+    case 'rate_limited':
+      return error.retryAfter
+        ? `Usage API rate limited (retry in ${error.retryAfter}s)`
+        : 'Usage API rate limited';
+    case 'server_error':
+      return `Claude API error${error.status ? ` (${error.status})` : ''}`;
+    case 'api_error':
+      return `Usage API request failed${error.status ? ` (${error.status})` : ''}`;
+    case 'invalid_response':
+      return 'Unexpected response from the usage API';
+    case 'parse_error':
+      return 'Could not read local Claude Code usage files';
+    default:
+      return error.message;
+  }
+};
@@ -0,0 +1,88 @@
+import type { UsageRange, UsageRangePreset } from '../types/usage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RANGE_PRESET_LABELS: Record<UsageRangePreset, string> = {
+  thisMonth: 'This month',
+  lastMonth: 'Last month',
+  last30: 'Last 30 days',
+  last90: 'Last 90 days',
+  custom: 'Custom range',
+};
+
+const parseDay = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+const formatDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Inclusive date range for a preset, relative to `today` (YYYY-MM-DD in the configured time
+ * zone); `custom` has no fixed range and returns the current month
+ */
+export const rangeForPreset = (
+  preset: UsageRangePreset,
+  today: string
+): { from: string; to: string } => {
+  const date = new Date(parseDay(today));
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (preset) {
+    case 'lastMonth':
+      return {
+        from: formatDay(Date.UTC(year, month - 1, 1)),
+        to: formatDay(Date.UTC(year, month, 0)),
+      };
+    case 'last30':
+      return { from: formatDay(date.getTime() - 29 * DAY_MS), to: today };
+    case 'last90':
+      return { from: formatDay(date.getTime() - 89 * DAY_MS), to: today };
+    default:
+      return {
+        from: formatDay(Date.UTC(year, month, 1)),
+        to: formatDay(Date.UTC(year, month + 1, 0)),
+      };
+  }
+};
+
+export interface HeatmapCell {
+  date: string;
+  inRange: boolean; // false for the padding that completes the first and last week
+  cost: number;
+  tokens: number;
+  level: 0 | 1 | 2 | 3 | 4; // 0 = no usage, 4 = the most expensive quarter of the range
+}
+
+/**
+ * Calendar grid for the range: one array of seven days per week, starting on `weekStart`
+ * (0 = Sunday)
+ */
+export const heatmapWeeks = (range: UsageRange, weekStart = 0): HeatmapCell[][] => {
+  const byDate = new Map(range.days.map((day) => [day.date, day]));
+  const maxCost = Math.max(0, ...range.days.map((day) => day.totalCost));
+  const start = parseDay(range.from);
+  const end = parseDay(range.to);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) return [];
+
+  const gridStart = start - ((new Date(start).getUTCDay() - weekStart + 7) % 7) * DAY_MS;
+  const gridEnd = end + ((weekStart + 6 - new Date(end).getUTCDay()) % 7) * DAY_MS;
+  const weeks: HeatmapCell[][] = [];
+
+  for (let time = gridStart; time <= gridEnd; time += DAY_MS) {
+    const date = formatDay(time);
+    const inRange = time >= start && time <= end;
+    const day = inRange ? byDate.get(date) : undefined;
+    const cost = day?.totalCost ?? 0;
+    const level = cost > 0 && maxCost > 0 ? Math.max(1, Math.ceil((cost / maxCost) * 4)) : 0;
+
+    if (weeks.length === 0 || weeks[weeks.length - 1].length === 7) weeks.push([]);
+    weeks[weeks.length - 1].push({
+      date,
+      inRange,
+      cost,
+      tokens: day?.totalTokens ?? 0,
+      level: level as HeatmapCell['level'],
+    });
+  }
+
+  return weeks;
+};
@@ -0,0 +1,89 @@
+import type { OverlaySettings, WindowBounds } from '../types/usage.js';
+
+export const POPOVER_SIZE = { width: 480, height: 600 };
+export const DASHBOARD_SIZE = { width: 1100, height: 760 };
+export const DASHBOARD_MIN_SIZE = { width: 640, height: 480 };
+
+const POPOVER_MARGIN = 10; // From the top right corner of the work area
+
+export const OVERLAY_WIDTH = 168;
+const OVERLAY_ROW_HEIGHT = 24;
+const OVERLAY_PADDING = 8;
+const OVERLAY_MARGIN = 16; // From the corner, clear of macOS hot corners and the Dock
+
+/**
+ * A display as far as window placement cares (a subset of Electron's `Display`)
+ */
+export interface DisplayArea {
+  id: number;
+  workArea: WindowBounds;
+}
+
+export const displayKey = (display: DisplayArea): string => String(display.id);
+
+/**
+ * The popover's spot under the menu bar, in the top right corner
+ */
+export const popoverBounds = (workArea: WindowBounds): WindowBounds => ({
+  x: workArea.x + workArea.width - POPOVER_SIZE.width - 2 * POPOVER_MARGIN,
+  y: workArea.y + POPOVER_MARGIN,
+  ...POPOVER_SIZE,
+});
+
+/**
+ * Shrink the bounds to fit the area and move them inside it, e.g. after a resolution change
+ */
+export const fitToArea = (bounds: WindowBounds, area: WindowBounds): WindowBounds => {
+  const width = Math.min(bounds.width, area.width);
+  const height = Math.min(bounds.height, area.height);
+  return {
+    x: Math.min(Math.max(bounds.x, area.x), area.x + area.width - width),
+    y: Math.min(Math.max(bounds.y, area.y), area.y + area.height - height),
+    width,
+    height,
+  };
+};
+
+const centeredIn = (area: WindowBounds): WindowBounds =>
+  fitToArea(
+    {
+      x: area.x + Math.round((area.width - DASHBOARD_SIZE.width) / 2),
+      y: area.y + Math.round((area.height - DASHBOARD_SIZE.height) / 2),
+      ...DASHBOARD_SIZE,
+    },
+    area
+  );
+
+/**
+ * Where to open the dashboard: where it last was on the preferred display, else on any connected
+ * display it has been on, else centered on the preferred display
+ */
+export const dashboardBounds = (
+  saved: Record<string, WindowBounds>,
+  displays: DisplayArea[],
+  preferred: DisplayArea
+): WindowBounds => {
+  const remembered = [preferred, ...displays].find((display) => saved[displayKey(display)]);
+  return remembered
+    ? fitToArea(saved[displayKey(remembered)], remembered.workArea)
+    : centeredIn(preferred.workArea);
+};
+
+/**
+ * The overlay in its corner, one row per shown metric
+ */
+export const overlayBounds = (workArea: WindowBounds, overlay: OverlaySettings): WindowBounds => {
+  const rows = [overlay.showFiveHour, overlay.showWeekly, overlay.showCountdown].filter(Boolean);
+  const height = 2 * OVERLAY_PADDING + Math.max(rows.length, 1) * OVERLAY_ROW_HEIGHT;
+  const left = overlay.corner === 'topLeft' || overlay.corner === 'bottomLeft';
+  const top = overlay.corner === 'topLeft' || overlay.corner === 'topRight';
+
+  return {
+    x: left
+      ? workArea.x + OVERLAY_MARGIN
+      : workArea.x + workArea.width - OVERLAY_WIDTH - OVERLAY_MARGIN,
+    y: top ? workArea.y + OVERLAY_MARGIN : workArea.y + workArea.height - height - OVERLAY_MARGIN,
+    width: OVERLAY_WIDTH,
+    height,
+  };
+};
@@ -1,3 +1,17 @@
+import type {
+  DeliveryChannel,
+  DeliveryLogEntry,
+  ExportQuery,
+  ExportResult,
+  FetchResult,
+  HistoryQuery,
+  MenuBarData,
+  ProjectUsage,
+  ProjectUsageQuery,
+  UsageRange,
+  UtilizationSample,
+} from './usage';
+
 export interface ScreenshotResult {
   success: boolean;
   filename?: string;
@@ -8,13 +22,22 @@ export interface ScreenshotResult {
 
 export interface ElectronAPI {
   getUsageStats: () => Promise<any>;
+  getMenuBarData: () => Promise<MenuBarData>;
   refreshData: () => Promise<any>;
   quitApp: () => Promise<void>;
   takeScreenshot: () => Promise<ScreenshotResult>;
+  exportUsage: (query: ExportQuery) => Promise<ExportResult>;
+  getUtilizationHistory: (query?: HistoryQuery) => Promise<UtilizationSample[]>;
+  getProjectUsage: (query: ProjectUsageQuery) => Promise<FetchResult<ProjectUsage[]>>;
+  getUsageRange: (query: ProjectUsageQuery) => Promise<FetchResult<UsageRange>>;
+  getDeliveryLog: (limit?: number) => Promise<DeliveryLogEntry[]>;
+  testDeliveryChannel: (channel: DeliveryChannel) => Promise<DeliveryLogEntry>;
   onUsageUpdated: (callback: () => void) => void;
   removeUsageUpdatedListener: (callback: () => void) => void;
   loadSettings: () => Promise<any>;
   saveSettings: (settings: Record<string, unknown>) => Promise<{ success: boolean }>;
+  onSettingsChanged: (callback: () => void) => void; // Changed outside the window (tray menu)
+  removeSettingsChangedListener: (callback: () => void) => void;
 }
 
 declare global {
@@ -1,15 +1,32 @@
+/**
+ * Tokens split by how they are billed
+ */
+export interface TokenBreakdown {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number; // Written to the prompt cache
+  cacheReadTokens: number; // Served from the prompt cache
+}
+
 export interface DailyUsage {
   date: string;
   totalTokens: number;
   totalCost: number;
+  breakdown?: TokenBreakdown; // Set for data from ccusage
   models: {
     [key: string]: {
       tokens: number;
       cost: number;
+      breakdown?: TokenBreakdown;
     };
   };
 }
 
+/**
+ * Where the OAuth credentials were discovered
+ */
+export type CredentialSource = 'env' | 'keychain' | 'credentials-file' | 'secret-service';
+
 /**
  * Real-time utilization data from Claude's OAuth API
  * This is the source of truth for rate limits
@@ -27,6 +44,8 @@ export interface OAuthUtilization {
   };
   sevenDaySonnet?: {
     utilization: number; // Sonnet-specific weekly limit (0-100)
+    resetsAt: string | null;
+    formattedTimeRemaining: string;
   };
   sevenDayOpus?: {
     utilization: number; // Opus-specific weekly limit (0-100)
@@ -40,6 +59,132 @@ export interface OAuthUtilization {
     utilization: number | null;
   };
   isAvailable: boolean;
+  credentialSource?: CredentialSource; // Provider that supplied the access token
+  credentialLocation?: string; // File the credentials came from, for the credentials file
+  credentialsExpired?: boolean; // Token expired and could not be refreshed
+}
+
+/**
+ * Tokens and cost for one Claude Code project (a directory under ~/.claude/projects)
+ */
+export interface ProjectUsage {
+  project: string; // ccusage project id, e.g. "-Users-me-code-app"
+  name: string; // Readable name derived from the project id
+  totalTokens: number;
+  totalCost: number;
+  models: DailyUsage['models'];
+  days: DailyUsage[]; // Per-day drill-down, oldest first
+}
+
+export interface ProjectUsageQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * A single OAuth utilization sample persisted by HistoryService
+ */
+export interface UtilizationSample {
+  timestamp: string; // ISO timestamp when the sample was recorded
+  fiveHour: {
+    utilization: number;
+    resetsAt: string | null;
+  };
+  sevenDay: {
+    utilization: number;
+    resetsAt: string | null;
+  };
+  sevenDaySonnet?: {
+    utilization: number;
+    resetsAt: string | null;
+  };
+  sevenDayOpus?: {
+    utilization: number;
+    resetsAt: string | null;
+  };
+  extraUsage?: {
+    isEnabled: boolean;
+    monthlyLimit: number | null;
+    usedCredits: number | null;
+    utilization: number | null;
+  };
+  compacted?: boolean; // true when the sample is the hourly peak of older raw samples
+}
+
+export interface HistoryQuery {
+  from: string; // ISO timestamp (inclusive)
+  to: string; // ISO timestamp (inclusive)
+}
+
+export type UsageRangePreset = 'thisMonth' | 'lastMonth' | 'last30' | 'last90' | 'custom';
+
+/**
+ * Totals for an inclusive date range, as shown by the History tab
+ */
+export interface UsageRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  days: DailyUsage[]; // Days with usage, oldest first
+  totalTokens: number;
+  totalCost: number;
+  breakdown?: TokenBreakdown;
+  models: DailyUsage['models'];
+}
+
+export type ExportFormat = 'csv' | 'jsonl' | 'markdown';
+
+export interface ExportQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  format: ExportFormat;
+}
+
+export interface ExportResult {
+  success: boolean;
+  canceled?: boolean; // The save dialog was dismissed
+  filepath?: string;
+  message?: string;
+  error?: string;
+}
+
+export type UsageErrorKind =
+  | 'credentials_missing' // No provider had OAuth credentials
+  | 'credentials_expired' // Token expired and could not be refreshed
+  | 'keychain_locked' // Keychain refused access (locked or denied)
+  | 'network' // Request never reached the API
+  | 'rate_limited' // HTTP 429
+  | 'server_error' // HTTP 5xx
+  | 'api_error' // Other non-2xx responses
+  | 'invalid_response' // Unexpected API payload
+  | 'parse_error'; // ccusage failed to load or parse local usage files
+
+export type UsageErrorSource = 'oauth' | 'credentials' | 'ccusage';
+
+/**
+ * Structured failure that travels with the data instead of collapsing to zeros
+ */
+export interface UsageError {
+  kind: UsageErrorKind;
+  source: UsageErrorSource;
+  message: string;
+  timestamp: string; // ISO timestamp when the failure happened
+  retryAfter?: number; // Seconds the server asked us to wait
+  status?: number; // HTTP status, when there was a response
+}
+
+export type FetchResult<T> = { ok: true; data: T } | { ok: false; error: UsageError };
+
+/**
+ * The 5-hour window the `fiveHour` limit covers, with the local usage recorded inside it
+ */
+export interface CurrentSession {
+  start: string; // ISO timestamp the window opened
+  end: string; // ISO timestamp it closes (the OAuth reset time, or the active block's projected end)
+  alignedTo: 'oauth' | 'block' | 'rolling'; // What `start`/`end` come from
+  lastActivity?: string; // ISO timestamp of the latest usage in the window
+  totalTokens: number;
+  totalCost: number;
+  models: DailyUsage['models'];
 }
 
 /**
@@ -52,22 +197,238 @@ export interface UsageStats {
   thisWeek: DailyUsage[];
   // OAuth API data (real rate limits)
   oauthUtilization?: OAuthUtilization;
+  // Per-project breakdown (from ccusage, most expensive first)
+  projects?: {
+    today: ProjectUsage[];
+    thisWeek: ProjectUsage[];
+  };
+  // Current 5-hour window (from ccusage session blocks, aligned to the OAuth reset time)
+  currentSession?: CurrentSession;
+  // Failures behind any missing or zeroed data
+  errors?: UsageError[];
+  // Account the stats belong to
+  accountId?: string;
+}
+
+export interface LocalApiSettings {
+  enabled: boolean; // Serve usage on 127.0.0.1 (default off)
+  port: number; // default 7391
+  metrics: boolean; // Also serve Prometheus metrics at /metrics (default off)
+}
+
+export interface PollingSettings {
+  intervalSeconds: number; // Normal cadence (default 30)
+  idleIntervalSeconds: number; // Cadence when Claude Code is idle (default 300)
+  adaptive: boolean; // Poll faster near thresholds and slower when idle (default on)
+}
+
+/**
+ * Rate limits reported by the OAuth API that thresholds can apply to
+ */
+export type LimitKey = 'fiveHour' | 'sevenDay' | 'sevenDaySonnet' | 'sevenDayOpus' | 'extraUsage';
+
+export type UsageLevel = 'safe' | 'warning' | 'critical';
+
+export interface ThresholdLevels {
+  warning: number; // percentage
+  critical: number; // percentage
+}
+
+export interface NotificationThresholds extends ThresholdLevels {
+  // Overrides for individual limits; limits without one use warning/critical above
+  perLimit?: Partial<Record<LimitKey, ThresholdLevels>>;
+}
+
+/**
+ * Utilization of one limit classified against its thresholds
+ */
+export interface LimitStatus {
+  limit: LimitKey;
+  label: string;
+  utilization: number;
+  level: UsageLevel;
+}
+
+export type AlertMetric = 'utilization' | 'todayCost' | 'resetsIn';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * A user-defined alert, e.g. "Opus weekly above 60%" or "5-hour window resets in 10 minutes"
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric; // utilization/todayCost fire above threshold, resetsIn fires below it
+  limit?: LimitKey; // Required for utilization and resetsIn
+  threshold: number; // Percent, USD or minutes depending on metric
+  severity: AlertSeverity;
+  cooldownMinutes: number; // Minimum time between two notifications of this rule
+  hysteresis: number; // How far the value must move back past threshold before re-arming
+  quietHours?: {
+    start: string; // "HH:MM" local time
+    end: string; // "HH:MM", may be earlier than start to wrap midnight
+  };
+}
+
+export interface AlertSettings {
+  thresholdAlerts: boolean; // Built-in alerts at the notification thresholds (default on)
+  rules: AlertRule[];
+}
+
+export interface ResetNotificationSettings {
+  enabled: boolean; // Notify when a limit resets (default on)
+  minutesBefore: number; // Extra heads-up this many minutes before the reset; 0 = off
+  onlyWhenBlocked: boolean; // Only for limits at 100% (default on)
+}
+
+export type DeliveryChannelType = 'webhook' | 'slack' | 'command';
+
+/**
+ * Somewhere besides the desktop that alerts are sent to
+ */
+export interface DeliveryChannel {
+  id: string;
+  name: string;
+  type: DeliveryChannelType;
+  enabled: boolean;
+  target: string; // URL for webhook/slack, shell command for command
+  template: string; // e.g. "{{title}}: {{body}}"; see renderTemplate() for variables
+}
+
+export interface DeliverySettings {
+  channels: DeliveryChannel[];
+  maxAttempts: number; // Per delivery, including the first try (default 3)
+}
+
+/**
+ * What gets delivered for one notification
+ */
+export interface AlertMessage {
+  title: string;
+  body: string;
+  severity: AlertSeverity;
+  timestamp: string; // ISO timestamp
+}
+
+export interface DeliveryLogEntry {
+  timestamp: string; // ISO timestamp of the last attempt
+  channelId: string;
+  channelName: string;
+  type: DeliveryChannelType;
+  title: string;
+  ok: boolean;
+  attempts: number;
+  status?: number; // HTTP status or command exit code of the last attempt
+  error?: string;
+}
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestSettings {
+  enabled: boolean; // default off
+  frequency: DigestFrequency;
+  time: string; // "HH:MM" in the calendar time zone to send the digest at (default "09:00")
+  weekday: number; // 0 = Sunday; day weekly digests are sent on (default Monday)
+  writeReport: boolean; // Also save a Markdown report under ~/.claude-meter/reports
+}
+
+/**
+ * How usage is split into days and weeks
+ */
+export interface CalendarSettings {
+  timezone: string; // IANA name such as "America/New_York"; empty uses the system time zone
+  weekStart: number; // 0 = Sunday; first day of the week (default Monday)
+}
+
+/**
+ * The gauge drawn as the tray icon
+ */
+export interface TrayIconSettings {
+  enabled: boolean; // false leaves only the title (where the platform shows one)
+  showWeekly: boolean; // Weekly limit as an inner ring
+}
+
+export type WindowMode = 'popover' | 'dashboard';
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How the main window opens: the tray popover, or a normal window for a side monitor
+ */
+export interface WindowSettings {
+  mode: WindowMode;
+  pinned: boolean; // Dashboard stays above other windows
+  bounds: Record<string, WindowBounds>; // Last dashboard position and size per display id
+}
+
+export type OverlayCorner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+
+/**
+ * Small click-through window with the limits, for desktops without a tray and full-screen work
+ */
+export interface OverlaySettings {
+  enabled: boolean;
+  corner: OverlayCorner; // Of the primary display's work area
+  opacity: number; // 0.2 - 1
+  showFiveHour: boolean;
+  showWeekly: boolean;
+  showCountdown: boolean; // Time until the 5-hour limit resets
+}
+
+export type AccountPlan = 'pro' | 'max5x' | 'max20x' | 'team' | 'enterprise';
+
+/**
+ * One Claude login and the usage logs Claude Code writes for it
+ */
+export interface Account {
+  id: string;
+  name: string;
+  credentialSource: CredentialSource | 'auto'; // 'auto' tries each provider in turn
+  configDir: string; // CLAUDE_CONFIG_DIR the account signs in with; empty = ~/.claude
+  dataDirs: string[]; // Directories ccusage reads usage logs from; empty = configDir
+  plan?: AccountPlan;
+}
+
+export interface AccountSettings {
+  accounts: Account[]; // Empty: one account using Claude Code's default locations
+  activeAccountId: string;
+  menuBar: 'active' | 'aggregate'; // Whose usage the tray title shows
 }
 
 export interface UserConfiguration {
   menuBarCostSource: 'today' | 'sessionWindow';
-  menuBarDisplayMode: 'both' | 'percentage' | 'cost';
-  notificationThresholds: {
-    warning: number; // percentage (default 70)
-    critical: number; // percentage (default 90)
-  };
+  menuBarTemplate: string; // e.g. "{5h}% · ${today}", see menuBarTemplate.ts
+  notificationThresholds: NotificationThresholds; // default 70 / 90
+  localApi: LocalApiSettings;
+  polling: PollingSettings;
+  alerts: AlertSettings;
+  resetNotifications: ResetNotificationSettings;
+  delivery: DeliverySettings;
+  digest: DigestSettings;
+  calendar: CalendarSettings;
+  accounts: AccountSettings;
+  trayIcon: TrayIconSettings;
+  window: WindowSettings;
+  overlay: OverlaySettings;
 }
 
 export interface MenuBarData {
   percentageUsed: number;
-  cost: number;
-  status: 'safe' | 'warning' | 'critical';
+  cost: number; // From the configured cost source
+  todayCost?: number;
+  sessionCost?: number; // Current 5-hour window
+  status: UsageLevel; // Worst level across all limits
+  limits?: LimitStatus[];
   oauthUtilization?: OAuthUtilization;
+  errors?: UsageError[];
+  account?: string; // Account name, or "All accounts" for the aggregate
 }
 
 // Legacy interfaces kept for compatibility during migration